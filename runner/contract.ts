@@ -0,0 +1,59 @@
+// Request and response of POST /execute and POST /execute/stream, mirrors
+// the types in supabase/functions/execute-code/providers.ts
+
+export interface RunnerFile {
+  name: string;
+  content: string;
+  // Passed to the compiler, otherwise only written to the job directory
+  compile: boolean;
+}
+
+// Timeouts in milliseconds, memory limit in bytes. The first file is the entry.
+export interface ExecutionRequest {
+  language: string;
+  // Must match the installed toolchain when given
+  version?: string;
+  files: RunnerFile[];
+  stdin: string;
+  args: string[];
+  compileTimeout: number;
+  runTimeout: number;
+  memoryLimit: number;
+}
+
+export interface StageResult {
+  stdout: string;
+  stderr: string;
+  output: string;
+  code: number | null;
+  signal: string | null;
+  // Milliseconds from start to exit
+  wallTime: number | null;
+  // Peak resident memory in bytes, null when the stage exited before it was sampled
+  memory: number | null;
+  // Output beyond the runner's limit was dropped
+  truncated: boolean;
+}
+
+export interface ExecutionResult {
+  compile?: StageResult;
+  // Missing when compilation failed
+  run?: StageResult;
+}
+
+export type Stage = "compile" | "run";
+
+// What POST /execute/stream sends, one JSON object per line
+export type ExecutionEvent =
+  | { type: "start"; stage: Stage }
+  | { type: "stdout" | "stderr"; stage: Stage; data: string }
+  | ({ type: "exit"; stage: Stage } & Omit<StageResult, "stdout" | "stderr" | "output">)
+  // The job could not be run, ends the stream
+  | { type: "error"; error: string };
+
+// What GET /runtimes lists, one installed version per language
+export interface Runtime {
+  language: string;
+  version: string;
+  default: boolean;
+}
@@ -0,0 +1,101 @@
+// How a job of each language is built and started inside its job directory.
+// Commands get the entry file, the files to compile and the memory limit in MB.
+export interface Toolchain {
+  compile?: (files: string[], entry: string) => string[];
+  run: (entry: string, args: string[], memoryLimitMb: number) => string[];
+  // Runtimes that reserve large address ranges up front are limited through
+  // their own heap flags and the data limit instead of the address space limit
+  limitAddressSpace: boolean;
+  // Command printing the toolchain version
+  version: string[];
+}
+
+function stripExtension(path: string): string {
+  return path.replace(/\.[^./]*$/, "");
+}
+
+// The heap gets three quarters of the limit, the rest is left for the
+// runtime's own code and stacks so running out of heap is reported as such
+function heapLimitMb(memoryLimitMb: number): number {
+  return Math.max(1, Math.floor(memoryLimitMb * 3 / 4));
+}
+
+export const TOOLCHAINS: Record<string, Toolchain> = {
+  javascript: {
+    run: (entry, args, memoryLimitMb) => ["node", `--max-old-space-size=${heapLimitMb(memoryLimitMb)}`, entry, ...args],
+    limitAddressSpace: false,
+    version: ["node", "--version"],
+  },
+  typescript: {
+    compile: (files) => [
+      "tsc",
+      "--outDir", "build",
+      "--rootDir", ".",
+      "--module", "commonjs",
+      "--target", "es2020",
+      "--esModuleInterop",
+      "--skipLibCheck",
+      // Stack traces point into the sources instead of the build
+      "--sourceMap",
+      ...files,
+    ],
+    run: (entry, args, memoryLimitMb) => [
+      "node",
+      `--max-old-space-size=${heapLimitMb(memoryLimitMb)}`,
+      "--enable-source-maps",
+      `build/${stripExtension(entry)}.js`,
+      ...args,
+    ],
+    limitAddressSpace: false,
+    version: ["tsc", "--version"],
+  },
+  python: {
+    run: (entry, args) => ["python3", entry, ...args],
+    limitAddressSpace: true,
+    version: ["python3", "--version"],
+  },
+  c: {
+    compile: (files) => ["gcc", "-std=c17", "-O2", "-o", "program", ...files, "-lm"],
+    run: (_, args) => ["./program", ...args],
+    limitAddressSpace: true,
+    version: ["gcc", "--version"],
+  },
+  cpp: {
+    compile: (files) => ["g++", "-std=c++17", "-O2", "-o", "program", ...files],
+    run: (_, args) => ["./program", ...args],
+    limitAddressSpace: true,
+    version: ["g++", "--version"],
+  },
+  java: {
+    compile: (files) => ["javac", "-d", "classes", ...files],
+    run: (entry, args, memoryLimitMb) => [
+      "java",
+      `-Xmx${heapLimitMb(memoryLimitMb)}m`,
+      "-cp", "classes",
+      stripExtension(entry).split("/").pop()!,
+      ...args,
+    ],
+    limitAddressSpace: false,
+    version: ["javac", "--version"],
+  },
+};
+
+let installedVersions: Promise<Record<string, string>> | null = null;
+
+/** Version of each toolchain, read once from its version command. */
+export function getInstalledVersions(): Promise<Record<string, string>> {
+  installedVersions ??= Promise.all(
+    Object.entries(TOOLCHAINS).map(async ([language, toolchain]) => {
+      const [command, ...args] = toolchain.version;
+      try {
+        const { stdout } = await new Deno.Command(command, { args, stdout: "piped", stderr: "null" }).output();
+        // e.g. "v20.11.1", "Version 5.3.3", "gcc (Debian 12.2.0-14) 12.2.0"
+        const firstLine = new TextDecoder().decode(stdout).split("\n")[0];
+        return [language, firstLine.match(/\d+(\.\d+)+/)?.[0] ?? "unknown"];
+      } catch {
+        return [language, "unknown"];
+      }
+    }),
+  ).then(Object.fromEntries);
+  return installedVersions;
+}
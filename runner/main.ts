@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { ExecutionEvent, ExecutionRequest, Runtime } from "./contract.ts";
+import { TOOLCHAINS, getInstalledVersions } from "./languages.ts";
+import { JobError, runJob } from "./sandbox.ts";
+
+const PORT = Number(Deno.env.get("PORT") || 8080);
+// Shared secret the edge function sends as a bearer token, unset disables the check
+const RUNNER_TOKEN = Deno.env.get("RUNNER_TOKEN");
+const MAX_CONCURRENT_JOBS = Number(Deno.env.get("MAX_CONCURRENT_JOBS") || 4);
+
+let activeJobs = 0;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isExecutionRequest(body: Partial<ExecutionRequest> | null): body is ExecutionRequest {
+  return !!body
+    && typeof body.language === "string"
+    && (body.version === undefined || typeof body.version === "string")
+    && Array.isArray(body.files) && body.files.length > 0
+    && body.files.every((file) =>
+      typeof file?.name === "string" && typeof file?.content === "string" && typeof file?.compile === "boolean"
+    )
+    && typeof body.stdin === "string"
+    && Array.isArray(body.args) && body.args.every((arg) => typeof arg === "string")
+    && typeof body.compileTimeout === "number"
+    && typeof body.runTimeout === "number"
+    && typeof body.memoryLimit === "number";
+}
+
+async function handleExecute(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!isExecutionRequest(body)) {
+    return json({ error: "Invalid execution request" }, 400);
+  }
+
+  if (activeJobs >= MAX_CONCURRENT_JOBS) {
+    return json({ error: "Runner is busy, try again shortly" }, 503);
+  }
+
+  activeJobs++;
+  const startedAt = Date.now();
+  try {
+    const result = await runJob(body);
+    console.log(`[runner] ${body.language} job finished in ${Date.now() - startedAt}ms`);
+    return json(result);
+  } catch (error) {
+    if (error instanceof JobError) {
+      return json({ error: error.message }, 400);
+    }
+    console.error("[runner] Job failed:", error);
+    return json({ error: "Internal runner error" }, 500);
+  } finally {
+    activeJobs--;
+  }
+}
+
+// Same job as /execute, reported as newline-delimited ExecutionEvents while it
+// runs. Closing the connection kills the running stage.
+async function handleExecuteStream(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!isExecutionRequest(body)) {
+    return json({ error: "Invalid execution request" }, 400);
+  }
+
+  if (activeJobs >= MAX_CONCURRENT_JOBS) {
+    return json({ error: "Runner is busy, try again shortly" }, 503);
+  }
+
+  activeJobs++;
+  const startedAt = Date.now();
+  const abort = new AbortController();
+  req.signal.addEventListener("abort", () => abort.abort());
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ExecutionEvent) => {
+        if (abort.signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          abort.abort();
+        }
+      };
+
+      try {
+        await runJob(body, { onEvent: send, signal: abort.signal });
+        console.log(`[runner] ${body.language} job ${abort.signal.aborted ? "cancelled" : "finished"} after ${Date.now() - startedAt}ms`);
+      } catch (error) {
+        if (!(error instanceof JobError)) {
+          console.error("[runner] Job failed:", error);
+        }
+        send({ type: "error", error: error instanceof JobError ? error.message : "Internal runner error" });
+      } finally {
+        activeJobs--;
+        try {
+          controller.close();
+        } catch {
+          // The client is gone
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: { "Content-Type": "application/x-ndjson" } });
+}
+
+async function handleRuntimes() {
+  const versions = await getInstalledVersions();
+  const runtimes: Runtime[] = Object.entries(versions).map(([language, version]) => ({
+    language,
+    version,
+    default: true,
+  }));
+  return json({ runtimes });
+}
+
+serve((req) => {
+  const { pathname } = new URL(req.url);
+
+  if (req.method === "GET" && pathname === "/health") {
+    return json({ status: "ok", languages: Object.keys(TOOLCHAINS) });
+  }
+
+  if (RUNNER_TOKEN && req.headers.get("Authorization") !== `Bearer ${RUNNER_TOKEN}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  if (req.method === "GET" && pathname === "/runtimes") {
+    return handleRuntimes();
+  }
+
+  if (req.method === "POST" && pathname === "/execute") {
+    return handleExecute(req);
+  }
+
+  if (req.method === "POST" && pathname === "/execute/stream") {
+    return handleExecuteStream(req);
+  }
+
+  return json({ error: "Not found" }, 404);
+}, { port: PORT });
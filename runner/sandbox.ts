@@ -0,0 +1,306 @@
+import { dirname, join, normalize } from "https://deno.land/std@0.168.0/path/mod.ts";
+import type { ExecutionEvent, ExecutionRequest, ExecutionResult, Stage, StageResult } from "./contract.ts";
+import { TOOLCHAINS, getInstalledVersions } from "./languages.ts";
+
+export class JobError extends Error {}
+
+const JOBS_DIR = Deno.env.get("JOBS_DIR") || "/tmp/runner-jobs";
+// Each job runs as an unprivileged uid of its own from this range, so jobs
+// cannot read each other's files or signal each other's processes. The range
+// must be unused and at least as large as MAX_CONCURRENT_JOBS.
+const SANDBOX_UID_BASE = Number(Deno.env.get("SANDBOX_UID_BASE") || 20000);
+const SANDBOX_UID_COUNT = Number(Deno.env.get("SANDBOX_UID_COUNT") || 64);
+
+// Upper bounds, requests asking for more are clamped
+const MAX_COMPILE_TIMEOUT = Number(Deno.env.get("MAX_COMPILE_TIMEOUT_MS") || 30000);
+const MAX_RUN_TIMEOUT = Number(Deno.env.get("MAX_RUN_TIMEOUT_MS") || 10000);
+const MAX_MEMORY_LIMIT = Number(Deno.env.get("MAX_MEMORY_LIMIT_BYTES") || 512 * 1024 * 1024);
+
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+const MAX_PROCESSES = 64;
+const MAX_OPEN_FILES = 256;
+const MAX_WRITTEN_FILE_SIZE = 16 * 1024 * 1024;
+const MEMORY_SAMPLE_INTERVAL = 25;
+
+interface StageOptions {
+  // User and group id the stage runs as
+  uid: number;
+  timeout: number;
+  memoryLimit: number;
+  limitAddressSpace: boolean;
+  stdin?: string;
+  // Called with each chunk of output as it arrives
+  onOutput?: (stream: "stdout" | "stderr", text: string) => void;
+  // Kills the stage when aborted
+  signal?: AbortSignal;
+}
+
+export interface JobOptions {
+  onEvent?: (event: ExecutionEvent) => void;
+  // Kills the running stage and skips the rest when aborted
+  signal?: AbortSignal;
+}
+
+function clamp(requested: number, max: number): number {
+  return requested > 0 ? Math.min(requested, max) : max;
+}
+
+const freeUids = Array.from({ length: SANDBOX_UID_COUNT }, (_, i) => SANDBOX_UID_BASE + i);
+
+function acquireUid(): number {
+  const uid = freeUids.shift();
+  if (uid === undefined) {
+    throw new Error("No sandbox uid left, SANDBOX_UID_COUNT is below MAX_CONCURRENT_JOBS");
+  }
+  return uid;
+}
+
+function releaseUid(uid: number) {
+  freeUids.push(uid);
+}
+
+// Kill every process running as uid, including ones that left the stage's
+// process group. kill -1 reaches all processes of the caller's user but itself.
+async function killUidProcesses(uid: number) {
+  await new Deno.Command("setpriv", {
+    args: [`--reuid=${uid}`, `--regid=${uid}`, "--clear-groups", "--", "kill", "-s", "KILL", "--", "-1"],
+    stdout: "null",
+    stderr: "null",
+  }).output().catch((error) => {
+    console.error(`[runner] Failed to kill processes of uid ${uid}:`, error);
+  });
+}
+
+// Hand the job directory over to its uid, readable by no one else
+async function chownTree(path: string, uid: number) {
+  await Deno.chown(path, uid, uid);
+  const info = await Deno.stat(path);
+  if (!info.isDirectory) return;
+  await Deno.chmod(path, 0o700);
+  for await (const entry of Deno.readDir(path)) {
+    await chownTree(join(path, entry.name), uid);
+  }
+}
+
+// Peak resident memory of a process in bytes, null once it is gone
+async function readPeakMemory(pid: number): Promise<number | null> {
+  try {
+    const status = await Deno.readTextFile(`/proc/${pid}/status`);
+    const match = status.match(/^VmHWM:\s+(\d+) kB/m);
+    return match ? Number(match[1]) * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Run one command of a job with resource limits, as the job's uid, without
+// network access and in a session of its own
+async function runStage(argv: string[], cwd: string, options: StageOptions): Promise<StageResult> {
+  const limits = [
+    `--nproc=${MAX_PROCESSES}`,
+    `--nofile=${MAX_OPEN_FILES}`,
+    `--fsize=${MAX_WRITTEN_FILE_SIZE}`,
+    // Counts the heap and other writable memory but not reserved ranges, so it
+    // also holds for runtimes that are exempt from the address space limit
+    `--data=${options.memoryLimit}`,
+    ...(options.limitAddressSpace ? [`--as=${options.memoryLimit}`] : []),
+  ];
+
+  const child = new Deno.Command("prlimit", {
+    args: [
+      ...limits,
+      "--",
+      "unshare", "--net",
+      "--",
+      "setsid",
+      "--",
+      "setpriv", `--reuid=${options.uid}`, `--regid=${options.uid}`, "--clear-groups", "--no-new-privs",
+      "--",
+      ...argv,
+    ],
+    cwd,
+    clearEnv: true,
+    env: {
+      PATH: Deno.env.get("PATH") || "/usr/local/bin:/usr/bin:/bin",
+      HOME: cwd,
+      TMPDIR: cwd,
+      LANG: "C.UTF-8",
+    },
+    stdin: "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const startedAt = performance.now();
+
+  // The stage leads its own process group, so this also reaches whatever it
+  // forked. Processes that started a session of their own are left to
+  // killUidProcesses.
+  const kill = () => {
+    try {
+      Deno.kill(-child.pid, "SIGKILL");
+    } catch {
+      // Already exited
+    }
+  };
+  const timer = setTimeout(kill, options.timeout);
+  options.signal?.addEventListener("abort", kill);
+
+  // prlimit, unshare, setsid and setpriv exec into the program, so the pid
+  // stays the same
+  let memory: number | null = null;
+  const sampleMemory = async () => {
+    const sample = await readPeakMemory(child.pid);
+    if (sample !== null) memory = Math.max(memory ?? 0, sample);
+  };
+  const sampler = setInterval(sampleMemory, MEMORY_SAMPLE_INTERVAL);
+  sampleMemory();
+
+  // Keep stdout and stderr apart, and interleaved in arrival order
+  let stdout = "";
+  let stderr = "";
+  let output = "";
+  let truncated = false;
+  const collect = async (
+    stream: ReadableStream<Uint8Array>,
+    name: "stdout" | "stderr",
+    append: (text: string) => void,
+  ) => {
+    const decoder = new TextDecoder();
+    for await (const chunk of stream) {
+      const text = decoder.decode(chunk, { stream: true });
+      if (output.length < MAX_OUTPUT_LENGTH) {
+        append(text);
+        output += text;
+        options.onOutput?.(name, text);
+      } else {
+        truncated = true;
+      }
+    }
+  };
+
+  const writeStdin = async () => {
+    const writer = child.stdin.getWriter();
+    try {
+      await writer.write(new TextEncoder().encode(options.stdin || ""));
+      await writer.close();
+    } catch {
+      // The program exited without reading all of its input
+    }
+  };
+
+  // The stage ends with its program. Anything it left running would hold on
+  // to stdout and stderr, so it goes too.
+  let wallTime = 0;
+  const exited = child.status.then(async (status) => {
+    wallTime = Math.round(performance.now() - startedAt);
+    kill();
+    await killUidProcesses(options.uid);
+    return status;
+  });
+
+  const [status] = await Promise.all([
+    exited,
+    collect(child.stdout, "stdout", (text) => (stdout += text)),
+    collect(child.stderr, "stderr", (text) => (stderr += text)),
+    writeStdin(),
+  ]);
+  clearTimeout(timer);
+  clearInterval(sampler);
+  options.signal?.removeEventListener("abort", kill);
+
+  return {
+    stdout: stdout.slice(0, MAX_OUTPUT_LENGTH),
+    stderr: stderr.slice(0, MAX_OUTPUT_LENGTH),
+    output: output.slice(0, MAX_OUTPUT_LENGTH),
+    code: status.signal ? null : status.code,
+    signal: status.signal,
+    wallTime,
+    memory,
+    truncated: truncated || output.length > MAX_OUTPUT_LENGTH,
+  };
+}
+
+// Write the job's files, refusing paths that leave the job directory
+async function writeFiles(dir: string, request: ExecutionRequest) {
+  for (const file of request.files) {
+    const path = normalize(join(dir, file.name));
+    if (!path.startsWith(`${dir}/`)) {
+      throw new JobError(`Invalid file path: ${file.name}`);
+    }
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeTextFile(path, file.content);
+  }
+}
+
+/**
+ * Compile and run a job in a fresh directory that is removed afterwards.
+ * Compilation failures are returned without a run stage.
+ * Progress is reported through options.onEvent while the job runs.
+ */
+export async function runJob(request: ExecutionRequest, options: JobOptions = {}): Promise<ExecutionResult> {
+  const toolchain = TOOLCHAINS[request.language];
+  if (!toolchain) {
+    throw new JobError(`Unsupported language: ${request.language}`);
+  }
+  const installed = (await getInstalledVersions())[request.language];
+  if (request.version && request.version !== installed) {
+    throw new JobError(`${request.language} ${request.version} is not installed, this runner has ${installed}`);
+  }
+
+  await Deno.mkdir(JOBS_DIR, { recursive: true, mode: 0o711 });
+  const dir = await Deno.makeTempDir({ dir: JOBS_DIR, prefix: "job-" });
+  const uid = acquireUid();
+
+  try {
+    await writeFiles(dir, request);
+    // Compilers write their output next to the sources
+    await chownTree(dir, uid);
+
+    const memoryLimit = clamp(request.memoryLimit, MAX_MEMORY_LIMIT);
+    const memoryLimitMb = Math.floor(memoryLimit / 1024 / 1024);
+    const entry = request.files[0].name;
+
+    const stage = async (name: Stage, argv: string[], stageOptions: Omit<StageOptions, "uid" | "onOutput" | "signal">) => {
+      options.onEvent?.({ type: "start", stage: name });
+      const result = await runStage(argv, dir, {
+        ...stageOptions,
+        uid,
+        onOutput: (stream, data) => options.onEvent?.({ type: stream, stage: name, data }),
+        signal: options.signal,
+      });
+      const { stdout: _stdout, stderr: _stderr, output: _output, ...exit } = result;
+      options.onEvent?.({ type: "exit", stage: name, ...exit });
+      return result;
+    };
+
+    let compile: StageResult | undefined;
+    if (toolchain.compile) {
+      const sources = request.files.filter((file) => file.compile).map((file) => file.name);
+      compile = await stage("compile", toolchain.compile(sources, entry), {
+        timeout: clamp(request.compileTimeout, MAX_COMPILE_TIMEOUT),
+        memoryLimit,
+        limitAddressSpace: toolchain.limitAddressSpace,
+      });
+      if (compile.code !== 0 || options.signal?.aborted) {
+        return { compile };
+      }
+    }
+
+    const run = await stage("run", toolchain.run(entry, request.args, memoryLimitMb), {
+      timeout: clamp(request.runTimeout, MAX_RUN_TIMEOUT),
+      memoryLimit,
+      limitAddressSpace: toolchain.limitAddressSpace,
+      stdin: request.stdin,
+    });
+    return { compile, run };
+  } finally {
+    // Nothing of the job may outlive it before its uid goes to the next one
+    await killUidProcesses(uid);
+    const removed = await Deno.remove(dir, { recursive: true }).then(() => true, (error) => {
+      console.error(`[runner] Failed to remove ${dir}:`, error);
+      return false;
+    });
+    // A uid whose files were left behind is not handed out again
+    if (removed) releaseUid(uid);
+  }
+}
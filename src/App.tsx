@@ -41,6 +41,7 @@ const App = () => (
               }
             />
             <Route path="/join/:roomCode/:password" element={<JoinByLink />} />
+            <Route path="/invite/:token" element={<JoinByLink />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -1,7 +1,14 @@
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { LocateFixed } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// First and last line a user currently sees in the editor
+export interface UserViewport {
+  startLine: number;
+  endLine: number;
+}
+
 export interface ActiveUser {
   id: string;
   username: string;
@@ -9,6 +16,8 @@ export interface ActiveUser {
   color?: string;
   isTyping?: boolean;
   currentFile?: string;
+  currentFileId?: string;
+  viewport?: UserViewport;
 }
 
 // Distinct colors for user presence
@@ -131,9 +140,16 @@ export function ActiveUsersPresence({ users, currentUserId, className }: ActiveU
 interface ActiveUsersSidebarProps {
   users: ActiveUser[];
   currentUserId?: string;
+  followingUserId?: string | null;
+  onFollowUser?: (user: ActiveUser) => void;
 }
 
-export function ActiveUsersSidebar({ users, currentUserId }: ActiveUsersSidebarProps) {
+export function ActiveUsersSidebar({
+  users,
+  currentUserId,
+  followingUserId,
+  onFollowUser,
+}: ActiveUsersSidebarProps) {
   const displayUsers = users.map((u) => ({
     ...u,
     color: getUserColor(u.id),
@@ -145,10 +161,17 @@ export function ActiveUsersSidebar({ users, currentUserId }: ActiveUsersSidebarP
       {displayUsers.map((user) => (
         <div
           key={user.id}
+          onClick={() => !user.isCurrentUser && onFollowUser?.(user)}
+          title={!user.isCurrentUser && onFollowUser
+            ? (followingUserId === user.id ? 'Stop following' : `Follow ${user.username}`)
+            : undefined}
           className={cn(
             'flex items-center gap-2 p-2 rounded-md transition-colors',
-            'hover:bg-sidebar-accent'
+            'hover:bg-sidebar-accent',
+            !user.isCurrentUser && onFollowUser && 'cursor-pointer',
+            followingUserId === user.id && 'bg-sidebar-accent'
           )}
+          style={followingUserId === user.id ? { boxShadow: `inset 2px 0 0 ${user.color}` } : undefined}
         >
           <div className="relative">
             <Avatar className="h-6 w-6" style={{ borderColor: user.color }}>
@@ -180,6 +203,9 @@ export function ActiveUsersSidebar({ users, currentUserId }: ActiveUsersSidebarP
               </p>
             )}
           </div>
+          {followingUserId === user.id && (
+            <LocateFixed className="h-3.5 w-3.5 shrink-0" style={{ color: user.color }} />
+          )}
           {user.isTyping && !user.isCurrentUser && (
             <div className="flex gap-0.5" style={{ color: user.color }}>
               <span className="h-1.5 w-1.5 rounded-full bg-current animate-bounce" style={{ animationDelay: '0ms' }} />
@@ -0,0 +1,50 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { ConnectionStatus } from '@/hooks/useRealtimeCode';
+import { Loader2, Wifi, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ConnectionStatusIndicatorProps {
+  status: ConnectionStatus;
+  className?: string;
+}
+
+const STATUS_INFO: Record<ConnectionStatus, { label: string; description: string }> = {
+  connected: {
+    label: 'Live',
+    description: 'Edits are shared with collaborators as you type',
+  },
+  connecting: {
+    label: 'Reconnecting',
+    description: 'Edits are kept and sent once the connection is back',
+  },
+  offline: {
+    label: 'Offline',
+    description: 'You can keep editing, changes are stored on this device and synced when you reconnect',
+  },
+};
+
+export function ConnectionStatusIndicator({ status, className }: ConnectionStatusIndicatorProps) {
+  const info = STATUS_INFO[status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className={cn(
+            'flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-secondary/50 border border-border/50 text-xs font-medium',
+            status === 'connected' && 'text-green-500',
+            status === 'connecting' && 'text-amber-500',
+            status === 'offline' && 'text-destructive',
+            className
+          )}
+        >
+          {status === 'connected' && <Wifi className="h-3.5 w-3.5" />}
+          {status === 'connecting' && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          {status === 'offline' && <WifiOff className="h-3.5 w-3.5" />}
+          <span className="hidden sm:inline">{info.label}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent>{info.description}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+import type { ConsoleEntry, ConsoleLevel } from '@/lib/preview';
+import { cn } from '@/lib/utils';
+
+interface ConsoleOutputProps {
+  entries: ConsoleEntry[];
+  className?: string;
+}
+
+const LEVEL_CLASSES: Record<ConsoleLevel, string> = {
+  log: '',
+  info: 'text-primary',
+  debug: 'text-muted-foreground',
+  warn: 'text-warning',
+  error: 'text-destructive',
+};
+
+// What the preview page logged since it was last rebuilt
+export function ConsoleOutput({ entries, className }: ConsoleOutputProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [entries]);
+
+  return (
+    <div ref={containerRef} className={cn('font-mono overflow-auto', className)}>
+      {entries.length === 0 ? (
+        <span className="text-muted-foreground">Console output of the preview shows up here</span>
+      ) : (
+        entries.map((entry, i) => (
+          <div
+            key={i}
+            className={cn('whitespace-pre-wrap break-words border-b border-border/20 py-0.5', LEVEL_CLASSES[entry.level])}
+          >
+            {entry.text}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
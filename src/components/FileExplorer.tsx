@@ -41,6 +41,7 @@ import {
   Copy,
   Clipboard,
   RefreshCw,
+  Play,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
@@ -51,16 +52,20 @@ export interface ProjectFile {
   name: string;
   path: string;
   content: string | null;
+  content_version: number;
   is_folder: boolean;
   parent_id: string | null;
   created_at: string;
   updated_at: string;
+  // Client only, content restored from edits that have not reached the server yet
+  hasOfflineEdits?: boolean;
 }
 
 interface FileExplorerProps {
   projectId: string;
   files: ProjectFile[];
   selectedFileId: string | null;
+  entryFileId: string | null;
   onFileSelect: (file: ProjectFile) => void;
   canManageFiles: boolean;
   canEdit: boolean;
@@ -170,7 +175,9 @@ interface FileTreeItemProps {
   file: ProjectFile;
   files: ProjectFile[];
   selectedFileId: string | null;
+  entryFileId: string | null;
   onFileSelect: (file: ProjectFile) => void;
+  onSetEntryFile: (file: ProjectFile) => void;
   onCreateFile: (parentId: string | null, isFolder: boolean) => void;
   onDelete: (file: ProjectFile) => void;
   onRename: (file: ProjectFile) => void;
@@ -193,7 +200,9 @@ function FileTreeItem({
   file,
   files,
   selectedFileId,
+  entryFileId,
   onFileSelect,
+  onSetEntryFile,
   onCreateFile,
   onDelete,
   onRename,
@@ -351,7 +360,9 @@ function FileTreeItem({
                 file={child}
                 files={files}
                 selectedFileId={selectedFileId}
+                entryFileId={entryFileId}
                 onFileSelect={onFileSelect}
+                onSetEntryFile={onSetEntryFile}
                 onCreateFile={onCreateFile}
                 onDelete={onDelete}
                 onRename={onRename}
@@ -390,6 +401,9 @@ function FileTreeItem({
         >
           {getFileIcon(file.name, false)}
           <span className="truncate">{file.name}</span>
+          {entryFileId === file.id && (
+            <Play className="h-3 w-3 text-primary shrink-0" aria-label="Entry point" />
+          )}
           {/* Quick delete button on hover */}
           {canManageFiles && (
             <button
@@ -409,6 +423,15 @@ function FileTreeItem({
         <ContextMenuContent>
           {canManageFiles && (
             <>
+              {entryFileId !== file.id && (
+                <>
+                  <ContextMenuItem onClick={() => onSetEntryFile(file)}>
+                    <Play className="h-4 w-4 mr-2" />
+                    Set as Entry Point
+                  </ContextMenuItem>
+                  <ContextMenuSeparator />
+                </>
+              )}
               <ContextMenuItem onClick={() => onDuplicate(file)}>
                 <Copy className="h-4 w-4 mr-2" />
                 Duplicate
@@ -441,6 +464,7 @@ export function FileExplorer({
   projectId,
   files,
   selectedFileId,
+  entryFileId,
   onFileSelect,
   canManageFiles,
   canEdit,
@@ -599,6 +623,25 @@ export function FileExplorer({
     },
   });
 
+  // Choose the file a run starts from
+  const setEntryFile = useMutation({
+    mutationFn: async (file: ProjectFile) => {
+      const { error } = await supabase
+        .from('projects')
+        .update({ entry_file_id: file.id })
+        .eq('id', projectId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, file) => {
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      toast.success(`${file.name} is now the entry point`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to set entry point');
+    },
+  });
+
   // Get all descendants of a folder
   function getAllDescendants(folderId: string, allFiles: ProjectFile[]): ProjectFile[] {
     const children = allFiles.filter(f => f.parent_id === folderId);
@@ -660,6 +703,10 @@ export function FileExplorer({
     duplicateFile.mutate(file);
   }, [duplicateFile]);
 
+  const handleSetEntryFile = useCallback((file: ProjectFile) => {
+    setEntryFile.mutate(file);
+  }, [setEntryFile]);
+
   const handleCopyPath = useCallback((file: ProjectFile) => {
     navigator.clipboard.writeText(file.path);
     toast.success('Path copied to clipboard!');
@@ -742,7 +789,9 @@ export function FileExplorer({
             file={file}
             files={files}
             selectedFileId={selectedFileId}
+            entryFileId={entryFileId}
             onFileSelect={onFileSelect}
+            onSetEntryFile={handleSetEntryFile}
             onCreateFile={handleCreate}
             onDelete={handleDelete}
             onRename={handleRename}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { DiffEditor } from '@monaco-editor/react';
+import { supabase } from '@/integrations/supabase/client';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ProjectFile } from '@/components/FileExplorer';
+import { History, Loader2, RotateCcw, Clock } from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+
+interface FileHistoryPanelProps {
+  file: ProjectFile | null;
+  currentContent: string;
+  language: string;
+  canRestore: boolean;
+  onRestore: (content: string) => void;
+}
+
+interface FileRevision {
+  id: string;
+  content: string;
+  author_id: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: {
+    username: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+export function FileHistoryPanel({
+  file,
+  currentContent,
+  language,
+  canRestore,
+  onRestore,
+}: FileHistoryPanelProps) {
+  const isMobile = useIsMobile();
+  const [selectedRevision, setSelectedRevision] = useState<FileRevision | null>(null);
+
+  // Fetch revisions of the open file, newest first
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ['file-revisions', file?.id],
+    queryFn: async () => {
+      if (!file) return [];
+      const { data, error } = await supabase
+        .from('file_revisions')
+        .select(`
+          *,
+          profiles:author_id (
+            username,
+            avatar_url
+          )
+        `)
+        .eq('file_id', file.id)
+        .order('updated_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as FileRevision[];
+    },
+    enabled: !!file,
+  });
+
+  const handleRestore = () => {
+    if (!selectedRevision) return;
+    onRestore(selectedRevision.content);
+    setSelectedRevision(null);
+  };
+
+  if (!file) {
+    return (
+      <p className="text-xs text-muted-foreground px-2 py-1">
+        Open a file to see its history
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-1">
+        {revisions?.map((revision, index) => (
+          <button
+            key={revision.id}
+            onClick={() => setSelectedRevision(revision)}
+            className="w-full flex items-center gap-2 p-2 rounded-md text-left transition-colors hover:bg-sidebar-accent"
+          >
+            <Avatar className="h-6 w-6">
+              <AvatarImage src={revision.profiles?.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary/20 text-primary text-xs">
+                {revision.profiles?.username?.[0]?.toUpperCase() || <History className="h-3 w-3" />}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">
+                {revision.author_id ? revision.profiles?.username || 'Unknown User' : 'Original version'}
+                {index === 0 && (
+                  <span className="text-xs text-muted-foreground ml-1">(latest)</span>
+                )}
+              </p>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Clock className="h-3 w-3" />
+                {formatDistanceToNow(new Date(revision.updated_at), { addSuffix: true })}
+              </div>
+            </div>
+          </button>
+        ))}
+        {revisions?.length === 0 && (
+          <p className="text-xs text-muted-foreground px-2 py-1">
+            No saved revisions of {file.name} yet
+          </p>
+        )}
+      </div>
+
+      {/* Diff against the current version */}
+      <Dialog open={!!selectedRevision} onOpenChange={(open) => !open && setSelectedRevision(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              {file.name}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedRevision && (
+                <>
+                  Revision from {format(new Date(selectedRevision.updated_at), 'PPpp')} (left)
+                  compared with the current version (right)
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="h-[60vh] rounded-md overflow-hidden border border-border/50">
+            {selectedRevision && (
+              <DiffEditor
+                height="100%"
+                language={language}
+                original={selectedRevision.content}
+                modified={currentContent}
+                theme="vs-dark"
+                options={{
+                  readOnly: true,
+                  renderSideBySide: !isMobile,
+                  fontSize: 13,
+                  fontFamily: 'JetBrains Mono, monospace',
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                }}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRevision(null)}>
+              Close
+            </Button>
+            <Button
+              className="gradient-primary gap-2"
+              onClick={handleRestore}
+              disabled={!canRestore}
+            >
+              <RotateCcw className="h-4 w-4" />
+              Restore this version
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
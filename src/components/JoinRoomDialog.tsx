@@ -15,6 +15,7 @@ import {
 } from '@/components/ui/dialog';
 import { Loader2, Users, Eye, Edit2, Shield } from 'lucide-react';
 import { toast } from 'sonner';
+import { getLockoutMessage } from '@/lib/joinLockout';
 
 interface JoinRoomDialogProps {
   trigger?: React.ReactNode;
@@ -55,73 +56,36 @@ export function JoinRoomDialog({ trigger }: JoinRoomDialogProps) {
     setIsJoining(true);
 
     try {
-      // Find project by room code
-      const { data: project, error: projectError } = await supabase
-        .from('projects')
-        .select('id, owner_id, view_password, edit_password, full_access_password')
-        .eq('room_code', roomCode.toUpperCase())
-        .single();
+      // The server checks the password and adds the collaborator
+      const { data, error } = await supabase
+        .rpc('join_project', { _room_code: roomCode, _password: password });
 
-      if (projectError || !project) {
-        toast.error('Room not found. Please check the room code.');
+      const lockout = getLockoutMessage(error);
+      if (lockout) {
+        toast.error(lockout);
         setIsJoining(false);
         return;
       }
+      if (error) throw error;
 
-      // Check if user is already the owner
-      if (project.owner_id === user.id) {
-        toast.info('This is your own project!');
-        navigate(`/project/${project.id}`);
-        setIsOpen(false);
+      const joined = data?.[0];
+      if (!joined) {
+        toast.error('Room not found or incorrect password');
         setIsJoining(false);
         return;
       }
 
-      // Determine role from password
-      let role: 'view' | 'edit' | 'full_access' | null = null;
-      if (project.full_access_password === password) {
-        role = 'full_access';
-      } else if (project.edit_password === password) {
-        role = 'edit';
-      } else if (project.view_password === password) {
-        role = 'view';
-      }
-
-      if (!role) {
-        toast.error('Incorrect password');
+      // Check if user is already the owner
+      if (!joined.role) {
+        toast.info('This is your own project!');
+        navigate(`/project/${joined.project_id}`);
+        setIsOpen(false);
         setIsJoining(false);
         return;
       }
 
-      // Check if collaborator record exists
-      const { data: existing } = await supabase
-        .from('project_collaborators')
-        .select('id')
-        .eq('project_id', project.id)
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (existing) {
-        // Update existing
-        const { error: updateError } = await supabase
-          .from('project_collaborators')
-          .update({ role })
-          .eq('id', existing.id);
-        if (updateError) throw updateError;
-      } else {
-        // Insert new
-        const { error: insertError } = await supabase
-          .from('project_collaborators')
-          .insert({
-            project_id: project.id,
-            user_id: user.id,
-            role,
-          });
-        if (insertError) throw insertError;
-      }
-
-      toast.success(`Joined with ${roleInfo[role].label} access!`);
-      navigate(`/project/${project.id}`);
+      toast.success(`Joined with ${roleInfo[joined.role].label} access!`);
+      navigate(`/project/${joined.project_id}`);
       setIsOpen(false);
       setRoomCode('');
       setPassword('');
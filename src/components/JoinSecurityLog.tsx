@@ -0,0 +1,117 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ShieldAlert, Check, X, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+
+interface JoinSecurityLogProps {
+  projectId: string;
+  enabled: boolean;
+}
+
+interface JoinAttempt {
+  id: number;
+  succeeded: boolean;
+  role: 'view' | 'edit' | 'full_access' | null;
+  invite_id: string | null;
+  created_at: string;
+  profiles: {
+    username: string | null;
+  } | null;
+}
+
+const roleLabels: Record<string, string> = {
+  view: 'View Only',
+  edit: 'Edit Mode',
+  full_access: 'Full Access',
+};
+
+// Attempts shown, the server keeps 30 days of them
+const LOG_LENGTH = 50;
+
+// Joins and wrong passwords for the project's room, visible to its owner
+export function JoinSecurityLog({ projectId, enabled }: JoinSecurityLogProps) {
+  const { data: attempts, isLoading } = useQuery({
+    queryKey: ['join-attempts', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_join_attempts')
+        .select(`
+          id,
+          succeeded,
+          role,
+          invite_id,
+          created_at,
+          profiles:user_id (
+            username
+          )
+        `)
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(LOG_LENGTH);
+
+      if (error) throw error;
+      return data as JoinAttempt[];
+    },
+    enabled,
+  });
+
+  const dayAgo = Date.now() - 24 * 60 * 60 * 1000;
+  const recentFailures = attempts?.filter(
+    (attempt) => !attempt.succeeded && new Date(attempt.created_at).getTime() > dayAgo
+  ).length ?? 0;
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-sm text-muted-foreground">Security Log</Label>
+        {recentFailures > 0 && (
+          <Badge variant="destructive" className="ml-auto">
+            {recentFailures} failed in 24h
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : !attempts || attempts.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No one has tried to join yet</p>
+      ) : (
+        <ScrollArea className="h-40 pr-3">
+          <div className="space-y-1">
+            {attempts.map((attempt) => (
+              <div key={attempt.id} className="flex items-center gap-2 text-xs py-1">
+                {attempt.succeeded ? (
+                  <Check className="h-3.5 w-3.5 text-emerald-400 shrink-0" />
+                ) : (
+                  <X className="h-3.5 w-3.5 text-destructive shrink-0" />
+                )}
+                <span className={cn('truncate', !attempt.profiles && 'italic text-muted-foreground')}>
+                  {attempt.profiles?.username || 'Signed-out visitor'}
+                </span>
+                <span className="text-muted-foreground truncate">
+                  {attempt.succeeded
+                    ? `joined with ${roleLabels[attempt.role ?? 'view']}${attempt.invite_id ? ' through an invite' : ''}`
+                    : 'used a wrong password'}
+                </span>
+                <span className="ml-auto text-muted-foreground whitespace-nowrap">
+                  {formatDistanceToNow(new Date(attempt.created_at), { addSuffix: true })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        After 5 wrong passwords a user is locked out for a while, after 20 the whole room is. Each further one doubles the wait, up to an hour.
+      </p>
+    </div>
+  );
+}
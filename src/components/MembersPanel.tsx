@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { ActiveUser } from '@/components/ActiveUsersPresence';
+import type { MemberRole, ProjectMember, ProjectOwner } from '@/hooks/useProjectMembers';
+import { Crown, UserMinus, Clock, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow, format } from 'date-fns';
+
+interface MembersPanelProps {
+  projectId: string;
+  owner: ProjectOwner | undefined;
+  members: ProjectMember[];
+  isLoading: boolean;
+  activeUsers: ActiveUser[];
+  currentUserId: string | undefined;
+  // Only the owner changes roles and removes members
+  canManage: boolean;
+}
+
+const roleLabels: Record<MemberRole, { label: string; color: string }> = {
+  view: { label: 'View Only', color: 'text-blue-400' },
+  edit: { label: 'Edit Mode', color: 'text-amber-400' },
+  full_access: { label: 'Full Access', color: 'text-emerald-400' },
+};
+
+// Everyone with access to the project, with their role and activity
+export function MembersPanel({
+  projectId,
+  owner,
+  members,
+  isLoading,
+  activeUsers,
+  currentUserId,
+  canManage,
+}: MembersPanelProps) {
+  const queryClient = useQueryClient();
+  const [removeConfirm, setRemoveConfirm] = useState<ProjectMember | null>(null);
+
+  const isOnline = (userId: string) => activeUsers.some((u) => u.id === userId);
+
+  const changeRole = useMutation({
+    mutationFn: async ({ member, role }: { member: ProjectMember; role: MemberRole }) => {
+      const { error } = await supabase
+        .from('project_collaborators')
+        .update({ role })
+        .eq('id', member.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { member, role }) => {
+      queryClient.invalidateQueries({ queryKey: ['project-members', projectId] });
+      toast.success(`${member.profiles?.username || 'Member'} now has ${roleLabels[role].label}`);
+    },
+    onError: () => {
+      toast.error('Failed to change role');
+    },
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (member: ProjectMember) => {
+      const { error } = await supabase
+        .from('project_collaborators')
+        .delete()
+        .eq('id', member.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, member) => {
+      queryClient.invalidateQueries({ queryKey: ['project-members', projectId] });
+      toast.success(`${member.profiles?.username || 'Member'} was removed from the project`);
+    },
+    onError: () => {
+      toast.error('Failed to remove member');
+    },
+  });
+
+  const renderActivity = (userId: string, lastActiveAt: string | null) => {
+    if (isOnline(userId)) {
+      return (
+        <span className="flex items-center gap-1 text-green-500">
+          <span className="h-1.5 w-1.5 rounded-full bg-green-500" />
+          Online now
+        </span>
+      );
+    }
+    return (
+      <span className="flex items-center gap-1">
+        <Clock className="h-3 w-3" />
+        {lastActiveAt
+          ? `Active ${formatDistanceToNow(new Date(lastActiveAt), { addSuffix: true })}`
+          : 'Not active yet'}
+      </span>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {owner && (
+        <div className="flex items-center gap-2 p-2 rounded-lg">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={owner.profiles?.avatar_url || undefined} />
+            <AvatarFallback className="bg-primary/20 text-primary text-xs">
+              {owner.profiles?.username?.[0]?.toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm truncate">
+              {owner.profiles?.username || 'Unknown User'}
+              {owner.id === currentUserId && <span className="text-muted-foreground font-normal"> (you)</span>}
+            </p>
+            <div className="text-xs text-muted-foreground">
+              {isOnline(owner.id) ? renderActivity(owner.id, null) : `Created ${format(new Date(owner.created_at), 'MMM d, yyyy')}`}
+            </div>
+          </div>
+          <span className="flex items-center gap-1 text-xs font-medium text-primary">
+            <Crown className="h-3.5 w-3.5" />
+            Owner
+          </span>
+        </div>
+      )}
+
+      {members.map((member) => (
+        <div key={member.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-muted/50">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={member.profiles?.avatar_url || undefined} />
+            <AvatarFallback className="bg-primary/20 text-primary text-xs">
+              {member.profiles?.username?.[0]?.toUpperCase() || 'U'}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-sm truncate">
+              {member.profiles?.username || 'Unknown User'}
+              {member.user_id === currentUserId && <span className="text-muted-foreground font-normal"> (you)</span>}
+            </p>
+            <div className="text-xs text-muted-foreground space-y-0.5">
+              {renderActivity(member.user_id, member.last_active_at)}
+              <p>Joined {format(new Date(member.joined_at), 'MMM d, yyyy')}</p>
+            </div>
+          </div>
+          {canManage ? (
+            <div className="flex items-center gap-1 shrink-0">
+              <Select
+                value={member.role}
+                onValueChange={(role) => changeRole.mutate({ member, role: role as MemberRole })}
+                disabled={changeRole.isPending}
+              >
+                <SelectTrigger className={cn('h-7 w-[104px] text-xs', roleLabels[member.role].color)}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(roleLabels).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => setRemoveConfirm(member)}
+                title="Remove from project"
+              >
+                <UserMinus className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ) : (
+            <span className={cn('text-xs font-medium shrink-0', roleLabels[member.role].color)}>
+              {roleLabels[member.role].label}
+            </span>
+          )}
+        </div>
+      ))}
+
+      {members.length === 0 && (
+        <p className="text-xs text-muted-foreground px-2 py-2">
+          No one has joined yet. Share the project to invite people.
+        </p>
+      )}
+
+      <AlertDialog open={!!removeConfirm} onOpenChange={() => setRemoveConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removeConfirm?.profiles?.username || 'this member'}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They lose access to the project right away and are disconnected from the editor.
+              They can only come back with a new invite or password.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeConfirm && removeMember.mutate(removeConfirm)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { AlertCircle, MessageSquareCode, Terminal } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export type OutputTab = 'output' | 'problems' | 'console';
+
+interface OutputTabsProps {
+  tab: OutputTab;
+  onTabChange: (tab: OutputTab) => void;
+  problemCount: number;
+  // The console tab is there while the preview is open
+  showConsole?: boolean;
+  compact?: boolean;
+}
+
+// Switches the bottom panel between run output, the problems list and the preview's console
+export function OutputTabs({ tab, onTabChange, problemCount, showConsole, compact }: OutputTabsProps) {
+  const iconClass = compact ? 'h-3.5 w-3.5' : 'h-4 w-4';
+  const tabClass = (active: boolean) =>
+    cn(
+      'flex items-center gap-1.5 px-1.5 py-0.5 rounded transition-colors',
+      active ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+    );
+
+  return (
+    <div className={cn('flex items-center gap-1', compact ? 'text-xs' : 'text-sm')}>
+      <button type="button" className={tabClass(tab === 'output')} onClick={() => onTabChange('output')}>
+        <Terminal className={iconClass} />
+        <span>Output</span>
+      </button>
+      <button type="button" className={tabClass(tab === 'problems')} onClick={() => onTabChange('problems')}>
+        <AlertCircle className={iconClass} />
+        <span>Problems</span>
+        {problemCount > 0 && (
+          <span className="px-1.5 rounded-full bg-destructive/20 text-destructive text-[10px] leading-4">
+            {problemCount}
+          </span>
+        )}
+      </button>
+      {showConsole && (
+        <button type="button" className={tabClass(tab === 'console')} onClick={() => onTabChange('console')}>
+          <MessageSquareCode className={iconClass} />
+          <span>Console</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  ConsoleEntry,
+  ConsoleLevel,
+  PREVIEW_MESSAGE_SOURCE,
+  PREVIEW_SANDBOX,
+  PreviewFile,
+  buildPreviewDocument,
+} from '@/lib/preview';
+import { ExternalLink, Globe, RotateCw, X } from 'lucide-react';
+
+// Edits are batched before the page reloads
+const REBUILD_DELAY = 300;
+
+interface PreviewPaneProps {
+  files: PreviewFile[];
+  // Page to show when it is an HTML file, e.g. the project's entry file
+  entryPath: string | null;
+  onConsole: (entry: ConsoleEntry) => void;
+  // The page was rebuilt, what it logged before no longer applies
+  onReload: () => void;
+  onClose: () => void;
+}
+
+const POPUP_SHELL = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Preview</title>
+  <style>html, body, iframe { margin: 0; width: 100%; height: 100%; border: 0; display: block; }</style>
+</head>
+<body><iframe sandbox="${PREVIEW_SANDBOX}"></iframe></body>
+</html>`;
+
+// The project's page in a sandboxed iframe, rebuilt as the files change and
+// movable to a window of its own
+export function PreviewPane({ files, entryPath, onConsole, onReload, onClose }: PreviewPaneProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const popupRef = useRef<Window | null>(null);
+  const [srcDoc, setSrcDoc] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isPoppedOut, setIsPoppedOut] = useState(false);
+
+  const onConsoleRef = useRef(onConsole);
+  onConsoleRef.current = onConsole;
+  const onReloadRef = useRef(onReload);
+  onReloadRef.current = onReload;
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSrcDoc(buildPreviewDocument(files, entryPath));
+      onReloadRef.current();
+    }, REBUILD_DELAY);
+    return () => clearTimeout(timer);
+  }, [files, entryPath, reloadCount]);
+
+  // Console output of the page, from the inline frame or the pop-out window
+  const handleMessage = useCallback((event: MessageEvent) => {
+    const frame = popupRef.current && !popupRef.current.closed
+      ? popupRef.current.document.querySelector('iframe')
+      : iframeRef.current;
+    if (!frame || event.source !== frame.contentWindow) return;
+
+    const data = event.data as { source?: string; level?: ConsoleLevel; text?: string };
+    if (data?.source !== PREVIEW_MESSAGE_SOURCE || typeof data.text !== 'string') return;
+    onConsoleRef.current({ level: data.level ?? 'log', text: data.text });
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [handleMessage]);
+
+  // Keep the pop-out window showing the latest build
+  useEffect(() => {
+    const popup = popupRef.current;
+    const frame = popup && !popup.closed ? popup.document.querySelector('iframe') : null;
+    if (frame) frame.srcdoc = srcDoc;
+  }, [srcDoc]);
+
+  const popOut = () => {
+    const popup = window.open('', 'codevibe-preview', 'width=1024,height=768');
+    if (!popup) return;
+
+    popup.document.open();
+    popup.document.write(POPUP_SHELL);
+    popup.document.close();
+    popup.document.querySelector('iframe')!.srcdoc = srcDoc;
+    popup.addEventListener('message', handleMessage);
+    popupRef.current = popup;
+    setIsPoppedOut(true);
+    onReloadRef.current();
+  };
+
+  // Come back to the pane once the window is closed
+  useEffect(() => {
+    if (!isPoppedOut) return;
+    const interval = setInterval(() => {
+      if (popupRef.current?.closed) {
+        popupRef.current = null;
+        setIsPoppedOut(false);
+        onReloadRef.current();
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isPoppedOut]);
+
+  useEffect(() => {
+    return () => popupRef.current?.close();
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-border/30 bg-card/30">
+        <span className="flex items-center gap-1.5 text-sm text-muted-foreground">
+          <Globe className="h-4 w-4" />
+          Preview
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title="Reload"
+            onClick={() => setReloadCount((count) => count + 1)}
+          >
+            <RotateCw className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            title={isPoppedOut ? 'Focus the preview window' : 'Open in a new window'}
+            onClick={() => (isPoppedOut ? popupRef.current?.focus() : popOut())}
+          >
+            <ExternalLink className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" title="Close preview" onClick={onClose}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {isPoppedOut ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-3 text-sm text-muted-foreground">
+          <p>The preview is open in another window</p>
+          <Button variant="outline" size="sm" onClick={() => popupRef.current?.close()}>
+            Bring it back
+          </Button>
+        </div>
+      ) : (
+        <iframe
+          ref={iframeRef}
+          title="Preview"
+          sandbox={PREVIEW_SANDBOX}
+          srcDoc={srcDoc}
+          className="flex-1 w-full bg-white"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import type { Diagnostic } from '@/lib/diagnostics';
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ProblemsListProps {
+  diagnostics: Diagnostic[];
+  onSelect: (diagnostic: Diagnostic) => void;
+  className?: string;
+}
+
+// Compiler messages and uncaught errors of the last run, grouped by file
+export function ProblemsList({ diagnostics, onSelect, className }: ProblemsListProps) {
+  if (diagnostics.length === 0) {
+    return (
+      <div className={cn('overflow-auto', className)}>
+        <span className="text-muted-foreground">No problems found in the last run</span>
+      </div>
+    );
+  }
+
+  const paths = [...new Set(diagnostics.map((d) => d.path))];
+
+  return (
+    <div className={cn('overflow-auto space-y-2', className)}>
+      {paths.map((path) => (
+        <div key={path}>
+          <div className="font-mono text-muted-foreground mb-1">{path}</div>
+          {diagnostics
+            .filter((d) => d.path === path)
+            .map((diagnostic, i) => {
+              const Icon = diagnostic.severity === 'error' ? AlertCircle : AlertTriangle;
+              return (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => onSelect(diagnostic)}
+                  className="w-full flex items-start gap-2 px-2 py-1 rounded-md text-left hover:bg-secondary/50"
+                >
+                  <Icon
+                    className={cn(
+                      'h-3.5 w-3.5 mt-0.5 shrink-0',
+                      diagnostic.severity === 'error' ? 'text-destructive' : 'text-warning'
+                    )}
+                  />
+                  <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">
+                    {diagnostic.message}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground font-mono">
+                    {diagnostic.source} [{diagnostic.line}
+                    {diagnostic.column !== null && `:${diagnostic.column}`}]
+                  </span>
+                </button>
+              );
+            })}
+        </div>
+      ))}
+    </div>
+  );
+}
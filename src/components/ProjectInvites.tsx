@@ -0,0 +1,267 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getInviteLink } from '@/lib/invites';
+import { Ticket, Copy, Check, Ban, Mail, Clock, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ProjectInvitesProps {
+  projectId: string;
+  enabled: boolean;
+}
+
+type InviteRole = 'view' | 'edit' | 'full_access';
+
+interface Invite {
+  id: string;
+  role: InviteRole;
+  email: string | null;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+}
+
+const roleLabels: Record<InviteRole, { label: string; color: string }> = {
+  view: { label: 'View Only', color: 'text-blue-400' },
+  edit: { label: 'Edit Mode', color: 'text-amber-400' },
+  full_access: { label: 'Full Access', color: 'text-emerald-400' },
+};
+
+// Hours an invite stays valid, 0 for no expiry
+const EXPIRY_OPTIONS = [
+  { value: '1', label: 'Expires in 1 hour' },
+  { value: '24', label: 'Expires in 1 day' },
+  { value: '168', label: 'Expires in 7 days' },
+  { value: '720', label: 'Expires in 30 days' },
+  { value: '0', label: 'Never expires' },
+];
+
+// Times an invite can be used, 0 for no limit
+const MAX_USES_OPTIONS = [
+  { value: '1', label: 'Once' },
+  { value: '5', label: '5 uses' },
+  { value: '25', label: '25 uses' },
+  { value: '0', label: 'No limit' },
+];
+
+function isActive(invite: Invite) {
+  return (!invite.expires_at || new Date(invite.expires_at).getTime() > Date.now())
+    && (invite.max_uses === null || invite.use_count < invite.max_uses);
+}
+
+// Invite links of a project: creating, copying and revoking them
+export function ProjectInvites({ projectId, enabled }: ProjectInvitesProps) {
+  const queryClient = useQueryClient();
+  const [role, setRole] = useState<InviteRole>('edit');
+  const [expiry, setExpiry] = useState('168');
+  const [maxUses, setMaxUses] = useState('1');
+  const [email, setEmail] = useState('');
+  // Links are only known right after an invite is created, the server keeps their hashes
+  const [links, setLinks] = useState<Record<string, string>>({});
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { data: invites, isLoading } = useQuery({
+    queryKey: ['project-invites', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_invites')
+        .select('id, role, email, expires_at, max_uses, use_count')
+        .eq('project_id', projectId)
+        .is('revoked_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as Invite[];
+    },
+    enabled,
+  });
+
+  const copyLink = (inviteId: string, link: string) => {
+    navigator.clipboard.writeText(link);
+    setCopiedId(inviteId);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const createInvite = useMutation({
+    mutationFn: async () => {
+      const hours = Number(expiry);
+      const { data, error } = await supabase.rpc('create_project_invite', {
+        _project_id: projectId,
+        _role: role,
+        _expires_at: hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : undefined,
+        _max_uses: Number(maxUses) || undefined,
+        _email: email.trim() || undefined,
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: ({ invite_id, token }) => {
+      const link = getInviteLink(token);
+      setLinks((prev) => ({ ...prev, [invite_id]: link }));
+      copyLink(invite_id, link);
+      setEmail('');
+      queryClient.invalidateQueries({ queryKey: ['project-invites', projectId] });
+      toast.success('Invite link created and copied!');
+    },
+    onError: () => {
+      toast.error('Failed to create invite');
+    },
+  });
+
+  const revokeInvite = useMutation({
+    mutationFn: async (inviteId: string) => {
+      const { error } = await supabase
+        .from('project_invites')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', inviteId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-invites', projectId] });
+      toast.success('Invite revoked');
+    },
+    onError: () => {
+      toast.error('Failed to revoke invite');
+    },
+  });
+
+  const activeInvites = invites?.filter(isActive) ?? [];
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Ticket className="h-4 w-4 text-muted-foreground" />
+        <Label className="text-sm text-muted-foreground">Invite Links</Label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Unlike the passwords above, each invite can expire, be limited to a number of uses or one email address, and be revoked on its own.
+      </p>
+
+      {/* New invite */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <Select value={role} onValueChange={(value) => setRole(value as InviteRole)}>
+          <SelectTrigger className="h-8 text-xs" title="Role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(roleLabels).map(([key, { label }]) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="h-8 text-xs" title="Expires after">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={maxUses} onValueChange={setMaxUses}>
+          <SelectTrigger className="h-8 text-xs" title="Uses">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MAX_USES_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Any email"
+          className="h-8 text-xs"
+          title="Only the account with this email can use the invite"
+        />
+      </div>
+      <Button
+        size="sm"
+        className="w-full gradient-primary"
+        onClick={() => createInvite.mutate()}
+        disabled={createInvite.isPending}
+      >
+        {createInvite.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Create Invite Link
+      </Button>
+
+      {/* Active invites */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : activeInvites.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No active invites</p>
+      ) : (
+        <div className="space-y-2">
+          {activeInvites.map((invite) => {
+            const link = links[invite.id];
+            return (
+              <div
+                key={invite.id}
+                className="flex items-center gap-2 p-2 rounded-lg bg-background/50 border border-border text-xs"
+              >
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className={cn('font-medium', roleLabels[invite.role].color)}>
+                      {roleLabels[invite.role].label}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {invite.max_uses === null
+                        ? `${invite.use_count} uses`
+                        : `${invite.use_count}/${invite.max_uses} used`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 text-muted-foreground">
+                    {invite.email && (
+                      <span className="flex items-center gap-1 truncate">
+                        <Mail className="h-3 w-3 shrink-0" />
+                        {invite.email}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1 whitespace-nowrap">
+                      <Clock className="h-3 w-3" />
+                      {invite.expires_at
+                        ? `Expires ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}`
+                        : 'Never expires'}
+                    </span>
+                  </div>
+                </div>
+                {link && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => copyLink(invite.id, link)}
+                    title="Copy link"
+                  >
+                    {copiedId === invite.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive hover:text-destructive"
+                  onClick={() => revokeInvite.mutate(invite.id)}
+                  disabled={revokeInvite.isPending}
+                  title="Revoke invite"
+                >
+                  <Ban className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { RuntimeVersions, useRuntimes } from '@/hooks/useRuntimes';
+import { LANGUAGES } from '@/lib/languages';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Select value for "whatever the backend uses by default"
+const DEFAULT_VERSION = 'default';
+
+interface ProjectSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: {
+    id: string;
+    runtime_versions: Json;
+  };
+  canEdit: boolean;
+}
+
+// Newest first, comparing each dotted part as a number
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsB[i] || 0) - (partsA[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+// The runtime version each language of the project runs with on the server
+export function ProjectSettingsDialog({ open, onOpenChange, project, canEdit }: ProjectSettingsDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: runtimes, isLoading, isError } = useRuntimes();
+  const [versions, setVersions] = useState<RuntimeVersions>({});
+
+  useEffect(() => {
+    if (open) setVersions({ ...(project.runtime_versions as RuntimeVersions) });
+  }, [open, project.runtime_versions]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from('projects')
+        .update({ runtime_versions: versions })
+        .eq('id', project.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project', project.id] });
+      toast.success('Project settings saved');
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast.error('Failed to save project settings');
+    },
+  });
+
+  const setVersion = (language: string, version: string) => {
+    setVersions((prev) => {
+      const { [language]: _previous, ...rest } = prev;
+      return version === DEFAULT_VERSION ? rest : { ...rest, [language]: version };
+    });
+  };
+
+  const languages = LANGUAGES.filter((lang) => runtimes?.some((r) => r.language === lang.value));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Project settings</DialogTitle>
+          <DialogDescription>
+            Runtime versions used whenever someone runs this project's code on the server.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-destructive py-4">Could not load the available runtimes</p>
+        ) : (
+          <div className="space-y-3 py-2">
+            {languages.map((lang) => {
+              const available = runtimes!
+                .filter((r) => r.language === lang.value)
+                .sort((a, b) => compareVersions(a.version, b.version));
+              const defaultVersion = available.find((r) => r.default)?.version;
+              const chosen = versions[lang.value];
+              // A chosen version the backend dropped stays visible until it is changed
+              const missing = chosen && !available.some((r) => r.version === chosen);
+
+              return (
+                <div key={lang.value} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`runtime-${lang.value}`} className="flex items-center gap-2">
+                    <span>{lang.icon}</span>
+                    {lang.label}
+                  </Label>
+                  <Select
+                    value={chosen ?? DEFAULT_VERSION}
+                    onValueChange={(version) => setVersion(lang.value, version)}
+                    disabled={!canEdit}
+                  >
+                    <SelectTrigger id={`runtime-${lang.value}`} className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_VERSION}>
+                        Default{defaultVersion ? ` (${defaultVersion})` : ''}
+                      </SelectItem>
+                      {missing && (
+                        <SelectItem value={chosen}>{chosen} (unavailable)</SelectItem>
+                      )}
+                      {available.map((r) => (
+                        <SelectItem key={r.version} value={r.version}>
+                          {r.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => save.mutate()} disabled={!canEdit || isLoading || save.isPending}>
+            {save.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+import { useMemo, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { ExecutionResult, RunSession, getStageText } from '@/hooks/useCodeExecution';
+import { StoredRun, toRunSession } from '@/hooks/useCodeRuns';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { getUserColor } from '@/components/ActiveUsersPresence';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Clock, FileCode, GitCompare, Loader2, RotateCw, ScrollText } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { cn, formatDuration } from '@/lib/utils';
+
+interface RunHistoryDrawerProps {
+  // Runs seen live since the page was opened
+  runs: RunSession[];
+  // Runs recorded by execute-code
+  storedRuns: StoredRun[];
+  activeRunId: string | null;
+  onSelectRun: (run: RunSession) => void;
+  onRerun: (run: StoredRun) => void;
+  canRerun: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A run in the list, with its stored record once execute-code has written it
+interface RunEntry {
+  session: RunSession;
+  stored: StoredRun | null;
+}
+
+// How a run ended, for the history list
+function getRunStatus(run: RunSession): { label: string; className: string } {
+  const { result } = run;
+  if (run.isRunning) return { label: 'Running', className: 'text-primary' };
+  if (result.error) return { label: 'Error', className: 'text-destructive' };
+  if (result.stopped) return { label: 'Stopped', className: 'text-muted-foreground' };
+  if (result.compile?.exit && result.compile.exit.code !== 0) {
+    return { label: 'Compile error', className: 'text-destructive' };
+  }
+
+  const exit = result.run?.exit;
+  if (!exit) return { label: 'No result', className: 'text-muted-foreground' };
+  if (exit.signal) return { label: `Killed (${exit.signal})`, className: 'text-destructive' };
+  return {
+    label: `Exit ${exit.code}`,
+    className: exit.code === 0 ? 'text-success' : 'text-destructive',
+  };
+}
+
+// Everything a run printed, as compared in the diff
+function getRunOutputText(result: ExecutionResult): string {
+  return [
+    getStageText(result.compile),
+    getStageText(result.run),
+    result.error ? `Error: ${result.error}\n` : '',
+  ].join('');
+}
+
+function describeRun(run: RunSession): string {
+  return `${run.username}, ${format(new Date(run.startedAt), 'PPpp')}`;
+}
+
+// Runs of everyone in the project, live ones and those recorded earlier, newest first
+export function RunHistoryDrawer({
+  runs,
+  storedRuns,
+  activeRunId,
+  onSelectRun,
+  onRerun,
+  canRerun,
+  open,
+  onOpenChange,
+}: RunHistoryDrawerProps) {
+  const isMobile = useIsMobile();
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+
+  const runningCount = runs.filter((run) => run.isRunning).length;
+
+  const entries = useMemo(() => {
+    const storedById = new Map(storedRuns.map((run) => [run.id, run]));
+    const liveIds = new Set(runs.map((run) => run.id));
+    const merged: RunEntry[] = [
+      ...runs.map((session) => ({ session, stored: storedById.get(session.id) ?? null })),
+      ...storedRuns
+        .filter((run) => !liveIds.has(run.id))
+        .map((run) => ({ session: toRunSession(run), stored: run })),
+    ];
+    return merged.sort((a, b) => b.session.startedAt.localeCompare(a.session.startedAt));
+  }, [runs, storedRuns]);
+
+  // Older of the two on the left
+  const compared = entries
+    .filter((entry) => compareIds.includes(entry.session.id))
+    .map((entry) => entry.session)
+    .reverse();
+
+  // Picking a third run replaces the one picked first
+  const toggleCompare = (runId: string, checked: boolean) => {
+    setCompareIds((prev) =>
+      checked ? [...prev.filter((id) => id !== runId), runId].slice(-2) : prev.filter((id) => id !== runId)
+    );
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetTrigger asChild>
+          <Button variant="ghost" size="sm" className="relative" title="Run history">
+            <ScrollText className="h-4 w-4" />
+            <span className="hidden lg:inline ml-1">Runs</span>
+            {runningCount > 0 && (
+              <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-primary animate-pulse" />
+            )}
+          </Button>
+        </SheetTrigger>
+        <SheetContent side="right" className="w-[320px] sm:w-[380px] p-0 flex flex-col">
+          <SheetHeader className="p-4 border-b border-border/50">
+            <SheetTitle className="flex items-center gap-2">
+              <ScrollText className="h-5 w-5 text-primary" />
+              Run history
+            </SheetTitle>
+            <SheetDescription>
+              Runs by everyone in this project. Rerun one with its exact code and input,
+              or tick two to compare their output.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-auto p-2 space-y-1">
+            {entries.length === 0 && (
+              <p className="text-sm text-muted-foreground px-2 py-1">
+                No runs yet
+              </p>
+            )}
+            {entries.map(({ session: run, stored }) => {
+              const status = getRunStatus(run);
+              const wallTime = run.result.run?.exit?.wallTime ?? run.result.compile?.exit?.wallTime;
+              return (
+                <div
+                  key={run.id}
+                  className={cn(
+                    'flex items-start gap-1 rounded-md transition-colors hover:bg-secondary/50',
+                    run.id === activeRunId && 'bg-secondary/70'
+                  )}
+                >
+                  <button
+                    onClick={() => onSelectRun(run)}
+                    className="flex-1 min-w-0 flex items-start gap-2 p-2 text-left"
+                  >
+                    <span
+                      className="mt-1.5 h-2 w-2 rounded-full shrink-0"
+                      style={{ backgroundColor: getUserColor(run.userId) }}
+                    />
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">{run.username}</span>
+                        <span className={cn('flex items-center gap-1 text-xs shrink-0', status.className)}>
+                          {run.isRunning && <Loader2 className="h-3 w-3 animate-spin" />}
+                          {status.label}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <FileCode className="h-3 w-3 shrink-0" />
+                        <span className="truncate">{run.filePath || run.language}</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Clock className="h-3 w-3 shrink-0" />
+                        {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+                        {wallTime !== undefined && <span>· {formatDuration(wallTime)}</span>}
+                      </div>
+                    </div>
+                  </button>
+                  <div className="flex flex-col items-center gap-1 py-2 pr-2">
+                    <Checkbox
+                      checked={compareIds.includes(run.id)}
+                      onCheckedChange={(checked) => toggleCompare(run.id, checked === true)}
+                      disabled={run.isRunning}
+                      title="Compare output"
+                      aria-label="Compare output"
+                    />
+                    {stored && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => onRerun(stored)}
+                        disabled={!canRerun}
+                        title="Rerun with the same code and input"
+                      >
+                        <RotateCw className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-2 border-t border-border/50">
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full gap-2"
+              onClick={() => setShowCompare(true)}
+              disabled={compared.length !== 2}
+            >
+              <GitCompare className="h-4 w-4" />
+              Compare output
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      {/* Diff of the output of two runs */}
+      <Dialog open={showCompare && compared.length === 2} onOpenChange={setShowCompare}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Compare output
+            </DialogTitle>
+            <DialogDescription>
+              {compared.length === 2 && (
+                <>
+                  Run by {describeRun(compared[0])} (left) compared with the run
+                  by {describeRun(compared[1])} (right)
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="h-[60vh] rounded-md overflow-hidden border border-border/50">
+            {compared.length === 2 && (
+              <DiffEditor
+                height="100%"
+                language="plaintext"
+                original={getRunOutputText(compared[0].result)}
+                modified={getRunOutputText(compared[1].result)}
+                theme="vs-dark"
+                options={{
+                  readOnly: true,
+                  renderSideBySide: !isMobile,
+                  fontSize: 13,
+                  fontFamily: 'JetBrains Mono, monospace',
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                }}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCompare(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
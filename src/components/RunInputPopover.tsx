@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Keyboard, Loader2, Play, Save, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+// What the program receives when it runs, args as typed on a command line
+export interface RunInput {
+  stdin: string;
+  args: string;
+}
+
+interface RunInputSet extends RunInput {
+  id: string;
+  name: string;
+}
+
+interface RunInputPopoverProps {
+  projectId: string;
+  userId: string | undefined;
+  input: RunInput;
+  onInputChange: (input: RunInput) => void;
+  onRun: (input: RunInput) => void;
+  canSave: boolean;
+  canRun: boolean;
+  isRunning: boolean;
+}
+
+export function RunInputPopover({
+  projectId,
+  userId,
+  input,
+  onInputChange,
+  onRun,
+  canSave,
+  canRun,
+  isRunning,
+}: RunInputPopoverProps) {
+  const queryClient = useQueryClient();
+  const [setName, setSetName] = useState('');
+  const hasInput = !!input.stdin || !!input.args.trim();
+
+  // Fetch saved input sets of the project
+  const { data: inputSets, isLoading } = useQuery({
+    queryKey: ['run-input-sets', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('run_input_sets')
+        .select('id, name, stdin, args')
+        .eq('project_id', projectId)
+        .order('name');
+
+      if (error) throw error;
+      return data as RunInputSet[];
+    },
+  });
+
+  // Save the current input, replacing a set with the same name
+  const saveInputSet = useMutation({
+    mutationFn: async (name: string) => {
+      const { error } = await supabase
+        .from('run_input_sets')
+        .upsert(
+          { project_id: projectId, name, stdin: input.stdin, args: input.args, created_by: userId },
+          { onConflict: 'project_id,name' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: (_, name) => {
+      queryClient.invalidateQueries({ queryKey: ['run-input-sets', projectId] });
+      setSetName('');
+      toast.success(`Saved input "${name}"`);
+    },
+    onError: () => {
+      toast.error('Failed to save input');
+    },
+  });
+
+  const deleteInputSet = useMutation({
+    mutationFn: async (inputSet: RunInputSet) => {
+      const { error } = await supabase
+        .from('run_input_sets')
+        .delete()
+        .eq('id', inputSet.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['run-input-sets', projectId] });
+    },
+    onError: () => {
+      toast.error('Failed to delete input');
+    },
+  });
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = setName.trim();
+    if (name) {
+      saveInputSet.mutate(name);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative">
+          <Keyboard className="h-4 w-4" />
+          <span className="hidden sm:inline ml-1">Input</span>
+          {hasInput && (
+            <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-primary" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 sm:w-96 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="run-args" className="text-xs">Arguments</Label>
+          <Input
+            id="run-args"
+            value={input.args}
+            onChange={(e) => onInputChange({ ...input, args: e.target.value })}
+            placeholder={'--verbose "two words"'}
+            className="font-mono text-xs"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="run-stdin" className="text-xs">Standard input</Label>
+          <Textarea
+            id="run-stdin"
+            value={input.stdin}
+            onChange={(e) => onInputChange({ ...input, stdin: e.target.value })}
+            placeholder="Lines your program reads from stdin"
+            className="font-mono text-xs min-h-[120px]"
+          />
+        </div>
+
+        {canSave && (
+          <form onSubmit={handleSave} className="flex gap-2">
+            <Input
+              value={setName}
+              onChange={(e) => setSetName(e.target.value)}
+              placeholder="Name this input, e.g. Sample 1"
+              className="h-8 text-xs"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              variant="secondary"
+              className="h-8"
+              disabled={!setName.trim() || saveInputSet.isPending}
+            >
+              {saveInputSet.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Save className="h-3.5 w-3.5" />
+              )}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Saved inputs</p>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : inputSets?.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-1">No saved inputs yet</p>
+          ) : (
+            <div className="max-h-40 overflow-auto space-y-1">
+              {inputSets?.map((inputSet) => (
+                <div
+                  key={inputSet.id}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md hover:bg-secondary/50"
+                >
+                  <span className="flex-1 truncate text-sm">{inputSet.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Load"
+                    onClick={() => onInputChange({ stdin: inputSet.stdin, args: inputSet.args })}
+                  >
+                    <Upload className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Run with this input"
+                    disabled={isRunning || !canRun}
+                    onClick={() => onRun({ stdin: inputSet.stdin, args: inputSet.args })}
+                  >
+                    <Play className="h-3.5 w-3.5" />
+                  </Button>
+                  {canSave && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 hover:text-destructive"
+                      title="Delete"
+                      onClick={() => deleteInputSet.mutate(inputSet)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
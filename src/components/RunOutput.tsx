@@ -0,0 +1,140 @@
+import { useEffect, useRef } from 'react';
+import { ExecutionResult, StageExit, StageOutput } from '@/hooks/useCodeExecution';
+import { cn, formatDuration } from '@/lib/utils';
+
+interface RunOutputProps {
+  result: ExecutionResult | null;
+  isRunning: boolean;
+  placeholder: string;
+  className?: string;
+}
+
+function formatMemory(bytes: number): string {
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(0)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function describeExit(exit: StageExit, what: string): string {
+  return exit.signal
+    ? `${what} killed by ${exit.signal}`
+    : `${what} exited with code ${exit.code}`;
+}
+
+// stdout and stderr of a stage, stderr set apart
+function StageChunks({ stage }: { stage: StageOutput }) {
+  if (stage.chunks.length === 0) return null;
+  return (
+    <div className="whitespace-pre-wrap break-words">
+      {stage.chunks.map((chunk, i) => (
+        <span key={i} className={cn(chunk.stream === 'stderr' && 'text-destructive')}>
+          {chunk.text}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function ExitStatus({ exit, what }: { exit: StageExit; what: string }) {
+  return (
+    <div className="mt-2 pt-2 border-t border-border/30 flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      <span className={exit.code === 0 ? 'text-success' : 'text-destructive'}>
+        {describeExit(exit, what)}
+      </span>
+      <span title="Wall time">
+        {exit.wallTimeEstimated && '~'}
+        {formatDuration(exit.wallTime)}
+      </span>
+      {exit.memory !== null && (
+        <span title="Peak memory">{formatMemory(exit.memory)}</span>
+      )}
+    </div>
+  );
+}
+
+function TruncatedNotice() {
+  return <div className="text-warning">… output truncated</div>;
+}
+
+// Compile and run stages of the last run, each with its output and exit status
+export function RunOutput({ result, isRunning, placeholder, className }: RunOutputProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+
+  // Follow new output unless the user scrolled up to read
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container && stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [result]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (container) {
+      stickToBottomRef.current =
+        container.scrollHeight - container.scrollTop - container.clientHeight < 16;
+    }
+  };
+
+  const compile = result?.compile;
+  const run = result?.run;
+  const compileFailed = !!compile?.exit && compile.exit.code !== 0;
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      className={cn('font-mono overflow-auto', className)}
+    >
+      {!result ? (
+        <span className="text-muted-foreground">{placeholder}</span>
+      ) : (
+        <>
+          {isRunning && !compile && !run && (
+            <div className="text-muted-foreground">
+              ⏳ Executing code...
+              {result.buffered && ' Output appears once the program has finished.'}
+            </div>
+          )}
+
+          {compile && (
+            <div className={cn(run && 'mb-2')}>
+              {!compile.exit ? (
+                <div className="text-muted-foreground">🔨 Compiling...</div>
+              ) : compileFailed ? (
+                <div className="text-destructive">❌ Compilation Error</div>
+              ) : (
+                <div className="text-muted-foreground">
+                  ✓ Compiled in {compile.exit.wallTimeEstimated && '~'}
+                  {formatDuration(compile.exit.wallTime)}
+                </div>
+              )}
+              <StageChunks stage={compile} />
+              {compile.exit?.truncated && <TruncatedNotice />}
+              {compileFailed && <ExitStatus exit={compile.exit!} what="Compiler" />}
+            </div>
+          )}
+
+          {run && (
+            <div>
+              <StageChunks stage={run} />
+              {run.exit && run.chunks.length === 0 && run.exit.code === 0 && (
+                <div className="text-muted-foreground">✓ Code executed successfully (no output)</div>
+              )}
+              {run.exit?.truncated && <TruncatedNotice />}
+              {run.exit && <ExitStatus exit={run.exit} what="Process" />}
+            </div>
+          )}
+
+          {result.error && (
+            <div className="text-destructive">❌ Error: {result.error}</div>
+          )}
+          {result.stopped && (
+            <div className="text-muted-foreground">⏹ Stopped</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { DiffEditor } from '@monaco-editor/react';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { SaveConflict } from '@/hooks/useProjectFiles';
+import { mergeThreeWay } from '@/lib/threeWayMerge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, GitMerge, User, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface SaveConflictDialogProps {
+  conflict: SaveConflict | null;
+  fileName: string;
+  language: string;
+  onResolve: (content: string) => void;
+}
+
+export function SaveConflictDialog({ conflict, fileName, language, onResolve }: SaveConflictDialogProps) {
+  const isMobile = useIsMobile();
+
+  const handleMerge = () => {
+    if (!conflict) return;
+    const { merged, conflicts } = mergeThreeWay(conflict.base, conflict.mine, conflict.theirs);
+    onResolve(merged);
+    if (conflicts > 0) {
+      toast.warning(`${conflicts} conflicting ${conflicts === 1 ? 'change was' : 'changes were'} marked in ${fileName}`);
+    } else {
+      toast.success('Changes merged');
+    }
+  };
+
+  // A resolution has to be picked, saves of this file are held until then
+  return (
+    <Dialog open={!!conflict}>
+      <DialogContent className="max-w-5xl [&>button]:hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {fileName} was changed by someone else
+          </DialogTitle>
+          <DialogDescription>
+            A newer version was saved while you were editing. Their version is on the left, yours on the right.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="h-[55vh] rounded-md overflow-hidden border border-border/50">
+          {conflict && (
+            <DiffEditor
+              height="100%"
+              language={language}
+              original={conflict.theirs}
+              modified={conflict.mine}
+              theme="vs-dark"
+              options={{
+                readOnly: true,
+                renderSideBySide: !isMobile,
+                fontSize: 13,
+                fontFamily: 'JetBrains Mono, monospace',
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+              }}
+            />
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="gap-2" onClick={() => conflict && onResolve(conflict.theirs)}>
+            <Users className="h-4 w-4" />
+            Use theirs
+          </Button>
+          <Button variant="outline" className="gap-2" onClick={() => conflict && onResolve(conflict.mine)}>
+            <User className="h-4 w-4" />
+            Keep mine
+          </Button>
+          <Button className="gradient-primary gap-2" onClick={handleMerge}>
+            <GitMerge className="h-4 w-4" />
+            Merge both
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { FileSaveStatus } from '@/hooks/useProjectFiles';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+interface SaveStatusIndicatorProps {
+  status: FileSaveStatus | undefined;
+}
+
+// Save state of a file tab, saved files show nothing
+export function SaveStatusIndicator({ status }: SaveStatusIndicatorProps) {
+  if (status === 'unsaved') {
+    return (
+      <span title="Unsaved changes" className="h-2 w-2 rounded-full bg-muted-foreground shrink-0" />
+    );
+  }
+
+  if (status === 'saving') {
+    return (
+      <span title="Saving...">
+        <Loader2 className="h-3 w-3 animate-spin text-muted-foreground shrink-0" />
+      </span>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <span title="Saving failed, retrying">
+        <AlertCircle className="h-3 w-3 text-destructive shrink-0" />
+      </span>
+    );
+  }
+
+  return null;
+}
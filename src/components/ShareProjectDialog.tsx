@@ -13,6 +13,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { ProjectInvites } from '@/components/ProjectInvites';
+import { JoinSecurityLog } from '@/components/JoinSecurityLog';
 import {
   Copy,
   Check,
@@ -36,10 +38,9 @@ interface ShareProjectDialogProps {
     id: string;
     name: string;
     room_code: string | null;
-    view_password?: string | null;
-    edit_password?: string | null;
-    full_access_password?: string | null;
   };
+  // Passwords are only readable by the owner, others see the room code
+  isOwner: boolean;
 }
 
 type AccessLevel = 'view' | 'edit' | 'full_access';
@@ -68,43 +69,43 @@ const accessLevels: { key: AccessLevel; label: string; description: string; icon
   },
 ];
 
-export function ShareProjectDialog({ open, onOpenChange, project }: ShareProjectDialogProps) {
+export function ShareProjectDialog({ open, onOpenChange, project, isOwner }: ShareProjectDialogProps) {
   const queryClient = useQueryClient();
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<AccessLevel>('view');
 
-  // Fetch full project data with passwords
-  const { data: fullProject, isLoading } = useQuery({
+  // Passwords are kept hashed, so each one can only be shown right after it is generated
+  const [revealed, setRevealed] = useState<Partial<Record<AccessLevel, string>>>({});
+
+  // Whether passwords exist, none until the project is first shared
+  const { data: hasPasswords, isLoading } = useQuery({
     queryKey: ['project-share', project.id],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('projects')
-        .select('id, room_code, view_password, edit_password, full_access_password')
-        .eq('id', project.id)
-        .single();
+        .from('project_passwords')
+        .select('project_id')
+        .eq('project_id', project.id)
+        .maybeSingle();
       if (error) throw error;
-      return data;
+      return !!data;
     },
-    enabled: open,
+    enabled: open && isOwner,
   });
 
+  // Generate new passwords on the server, for one level or all of them
+  const resetPasswords = async (level?: AccessLevel) => {
+    const { data, error } = await supabase
+      .rpc('reset_project_passwords', { _project_id: project.id, _role: level });
+    if (error) throw error;
+    setRevealed((prev) => ({
+      ...prev,
+      ...Object.fromEntries(data.map((row) => [row.role, row.password])),
+    }));
+  };
+
   // Generate passwords mutation
   const generatePasswords = useMutation({
-    mutationFn: async () => {
-      const passwords = {
-        view_password: generateRandomPassword(),
-        edit_password: generateRandomPassword(),
-        full_access_password: generateRandomPassword(),
-      };
-      
-      const { error } = await supabase
-        .from('projects')
-        .update(passwords)
-        .eq('id', project.id);
-      
-      if (error) throw error;
-      return passwords;
-    },
+    mutationFn: () => resetPasswords(),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['project-share', project.id] });
       toast.success('New passwords generated!');
@@ -117,35 +118,17 @@ export function ShareProjectDialog({ open, onOpenChange, project }: ShareProject
   // Regenerate single password
   const regeneratePassword = useMutation({
     mutationFn: async (level: AccessLevel) => {
-      const newPassword = generateRandomPassword();
-      const updateData = { [`${level}_password`]: newPassword };
-      
-      const { error } = await supabase
-        .from('projects')
-        .update(updateData)
-        .eq('id', project.id);
-      
-      if (error) throw error;
-      return { level, password: newPassword };
+      await resetPasswords(level);
+      return level;
     },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['project-share', project.id] });
-      toast.success(`${accessLevels.find(l => l.key === data.level)?.label} password regenerated`);
+    onSuccess: (level) => {
+      toast.success(`${accessLevels.find(l => l.key === level)?.label} password regenerated`);
     },
     onError: () => {
       toast.error('Failed to regenerate password');
     },
   });
 
-  const generateRandomPassword = () => {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    let result = '';
-    for (let i = 0; i < 8; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
-  };
-
   const copyToClipboard = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
     setCopiedField(field);
@@ -154,25 +137,25 @@ export function ShareProjectDialog({ open, onOpenChange, project }: ShareProject
   };
 
   const getShareLink = (level: AccessLevel) => {
-    const password = fullProject?.[`${level}_password`];
-    if (!fullProject?.room_code || !password) return null;
-    return `${window.location.origin}/join/${fullProject.room_code}/${password}`;
+    const password = revealed[level];
+    if (!project.room_code || !password) return null;
+    return `${window.location.origin}/join/${project.room_code}/${password}`;
   };
 
   const getPassword = (level: AccessLevel) => {
-    return fullProject?.[`${level}_password`] || null;
+    return revealed[level] || null;
   };
 
   // Auto-generate passwords if none exist
   useEffect(() => {
-    if (fullProject && !fullProject.view_password && !fullProject.edit_password && !fullProject.full_access_password) {
+    if (hasPasswords === false) {
       generatePasswords.mutate();
     }
-  }, [fullProject]);
+  }, [hasPasswords]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Users className="h-5 w-5 text-primary" />
@@ -195,13 +178,13 @@ export function ShareProjectDialog({ open, onOpenChange, project }: ShareProject
                 <div>
                   <Label className="text-xs text-muted-foreground uppercase tracking-wider">Room Code</Label>
                   <p className="font-mono text-2xl tracking-[0.3em] text-primary font-bold mt-1">
-                    {fullProject?.room_code}
+                    {project.room_code}
                   </p>
                 </div>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => copyToClipboard(fullProject?.room_code || '', 'room_code')}
+                  onClick={() => copyToClipboard(project.room_code || '', 'room_code')}
                 >
                   {copiedField === 'room_code' ? (
                     <Check className="h-4 w-4" />
@@ -212,131 +195,151 @@ export function ShareProjectDialog({ open, onOpenChange, project }: ShareProject
               </div>
             </div>
 
-            {/* Access Level Tabs */}
-            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as AccessLevel)}>
-              <TabsList className="grid grid-cols-3 w-full">
-                {accessLevels.map((level) => (
-                  <TabsTrigger
-                    key={level.key}
-                    value={level.key}
-                    className="flex items-center gap-2 data-[state=active]:text-primary"
-                  >
-                    {level.icon}
-                    <span className="hidden sm:inline">{level.label}</span>
-                  </TabsTrigger>
-                ))}
-              </TabsList>
-
-              {accessLevels.map((level) => (
-                <TabsContent key={level.key} value={level.key} className="mt-4 space-y-4">
-                  <div className={cn(
-                    "p-4 rounded-lg border-2 border-dashed",
-                    level.key === 'view' && "border-blue-500/30 bg-blue-500/5",
-                    level.key === 'edit' && "border-amber-500/30 bg-amber-500/5",
-                    level.key === 'full_access' && "border-emerald-500/30 bg-emerald-500/5"
-                  )}>
-                    <div className="flex items-start gap-3">
-                      <div className={cn("p-2 rounded-lg", level.color, "bg-current/10")}>
+            {isOwner ? (
+              <>
+                {/* Access Level Tabs */}
+                <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as AccessLevel)}>
+                  <TabsList className="grid grid-cols-3 w-full">
+                    {accessLevels.map((level) => (
+                      <TabsTrigger
+                        key={level.key}
+                        value={level.key}
+                        className="flex items-center gap-2 data-[state=active]:text-primary"
+                      >
                         {level.icon}
+                        <span className="hidden sm:inline">{level.label}</span>
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+
+                  {accessLevels.map((level) => (
+                    <TabsContent key={level.key} value={level.key} className="mt-4 space-y-4">
+                      <div className={cn(
+                        "p-4 rounded-lg border-2 border-dashed",
+                        level.key === 'view' && "border-blue-500/30 bg-blue-500/5",
+                        level.key === 'edit' && "border-amber-500/30 bg-amber-500/5",
+                        level.key === 'full_access' && "border-emerald-500/30 bg-emerald-500/5"
+                      )}>
+                        <div className="flex items-start gap-3">
+                          <div className={cn("p-2 rounded-lg", level.color, "bg-current/10")}>
+                            {level.icon}
+                          </div>
+                          <div className="flex-1">
+                            <h4 className="font-semibold">{level.label}</h4>
+                            <p className="text-sm text-muted-foreground mt-0.5">{level.description}</p>
+                          </div>
+                        </div>
                       </div>
-                      <div className="flex-1">
-                        <h4 className="font-semibold">{level.label}</h4>
-                        <p className="text-sm text-muted-foreground mt-0.5">{level.description}</p>
-                      </div>
-                    </div>
-                  </div>
 
-                  {/* Password */}
-                  <div className="space-y-2">
-                    <Label className="flex items-center gap-2">
-                      <Key className="h-3.5 w-3.5" />
-                      Password for {level.label}
-                    </Label>
-                    <div className="flex gap-2">
-                      <Input
-                        value={getPassword(level.key) || ''}
-                        readOnly
-                        className="font-mono text-lg tracking-widest"
-                      />
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => copyToClipboard(getPassword(level.key) || '', `${level.key}_password`)}
-                      >
-                        {copiedField === `${level.key}_password` ? (
-                          <Check className="h-4 w-4" />
-                        ) : (
-                          <Copy className="h-4 w-4" />
+                      {/* Password */}
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <Key className="h-3.5 w-3.5" />
+                          Password for {level.label}
+                        </Label>
+                        <div className="flex gap-2">
+                          <Input
+                            value={getPassword(level.key) || ''}
+                            readOnly
+                            className="font-mono text-lg tracking-widest placeholder:text-sm placeholder:tracking-normal placeholder:font-sans"
+                            placeholder={generatePasswords.isPending ? 'Generating...' : 'Hidden'}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => copyToClipboard(getPassword(level.key) || '', `${level.key}_password`)}
+                            disabled={!getPassword(level.key)}
+                          >
+                            {copiedField === `${level.key}_password` ? (
+                              <Check className="h-4 w-4" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => regeneratePassword.mutate(level.key)}
+                            disabled={regeneratePassword.isPending}
+                            title="Generate a new password, old links stop working"
+                          >
+                            <RefreshCw className={cn(
+                              "h-4 w-4",
+                              regeneratePassword.isPending && "animate-spin"
+                            )} />
+                          </Button>
+                        </div>
+                        {!getPassword(level.key) && !generatePasswords.isPending && (
+                          <p className="text-xs text-muted-foreground">
+                            Passwords are stored hashed and only shown once. Generate a new one to share this level again.
+                          </p>
                         )}
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => regeneratePassword.mutate(level.key)}
-                        disabled={regeneratePassword.isPending}
-                      >
-                        <RefreshCw className={cn(
-                          "h-4 w-4",
-                          regeneratePassword.isPending && "animate-spin"
-                        )} />
-                      </Button>
-                    </div>
-                  </div>
+                      </div>
 
-                  {/* Shareable Link */}
-                  <div className="space-y-2">
-                    <Label className="flex items-center gap-2">
-                      <Link2 className="h-3.5 w-3.5" />
-                      Shareable Link
-                    </Label>
-                    <div className="flex gap-2">
-                      <Input
-                        value={getShareLink(level.key) || ''}
-                        readOnly
-                        className="text-sm"
-                        placeholder="Generating link..."
-                      />
+                      {/* Shareable Link */}
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <Link2 className="h-3.5 w-3.5" />
+                          Shareable Link
+                        </Label>
+                        <div className="flex gap-2">
+                          <Input
+                            value={getShareLink(level.key) || ''}
+                            readOnly
+                            className="text-sm"
+                            placeholder={generatePasswords.isPending ? 'Generating link...' : 'Hidden'}
+                          />
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => copyToClipboard(getShareLink(level.key) || '', `${level.key}_link`)}
+                            disabled={!getShareLink(level.key)}
+                          >
+                            {copiedField === `${level.key}_link` ? (
+                              <Check className="h-4 w-4" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Anyone with this link can join with <span className={level.color}>{level.label}</span> permissions
+                        </p>
+                      </div>
+                    </TabsContent>
+                  ))}
+                </Tabs>
+
+                {/* Quick Share Buttons */}
+                <div className="border-t pt-4">
+                  <Label className="text-sm text-muted-foreground mb-3 block">Quick Copy</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {accessLevels.map((level) => (
                       <Button
+                        key={level.key}
                         variant="outline"
-                        size="icon"
-                        onClick={() => copyToClipboard(getShareLink(level.key) || '', `${level.key}_link`)}
+                        size="sm"
+                        className={cn("gap-2", level.color)}
+                        onClick={() => copyToClipboard(getShareLink(level.key) || '', `quick_${level.key}`)}
                         disabled={!getShareLink(level.key)}
                       >
-                        {copiedField === `${level.key}_link` ? (
-                          <Check className="h-4 w-4" />
-                        ) : (
-                          <Copy className="h-4 w-4" />
-                        )}
+                        {level.icon}
+                        Copy {level.label} Link
+                        {copiedField === `quick_${level.key}` && <Check className="h-3 w-3" />}
                       </Button>
-                    </div>
-                    <p className="text-xs text-muted-foreground">
-                      Anyone with this link can join with <span className={level.color}>{level.label}</span> permissions
-                    </p>
+                    ))}
                   </div>
-                </TabsContent>
-              ))}
-            </Tabs>
+                </div>
 
-            {/* Quick Share Buttons */}
-            <div className="border-t pt-4">
-              <Label className="text-sm text-muted-foreground mb-3 block">Quick Copy</Label>
-              <div className="flex flex-wrap gap-2">
-                {accessLevels.map((level) => (
-                  <Button
-                    key={level.key}
-                    variant="outline"
-                    size="sm"
-                    className={cn("gap-2", level.color)}
-                    onClick={() => copyToClipboard(getShareLink(level.key) || '', `quick_${level.key}`)}
-                    disabled={!getShareLink(level.key)}
-                  >
-                    {level.icon}
-                    Copy {level.label} Link
-                    {copiedField === `quick_${level.key}` && <Check className="h-3 w-3" />}
-                  </Button>
-                ))}
-              </div>
-            </div>
+                <ProjectInvites projectId={project.id} enabled={open} />
+
+                <JoinSecurityLog projectId={project.id} enabled={open} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Only the project owner can see the passwords and links for each access level. Ask them for a link to share.
+              </p>
+            )}
           </div>
         )}
       </DialogContent>
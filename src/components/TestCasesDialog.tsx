@@ -0,0 +1,450 @@
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { DiffEditor } from '@monaco-editor/react';
+import { supabase } from '@/integrations/supabase/client';
+import { TestInput, TestResult, TestStatus, useTestRunner } from '@/hooks/useTestRunner';
+import { COMPARISON_MODES, ComparisonMode, TestCase } from '@/lib/testCases';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  FlaskConical,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  Square,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatDuration } from '@/lib/utils';
+
+type TestCaseDraft = Omit<TestCase, 'id' | 'position'> & { id?: string };
+
+interface TestCasesDialogProps {
+  projectId: string;
+  userId: string | undefined;
+  canEdit: boolean;
+  // The execute-code request for the project's current code with the given input
+  getRunBody: (input: TestInput) => Record<string, unknown>;
+}
+
+const EMPTY_DRAFT: TestCaseDraft = {
+  name: '',
+  stdin: '',
+  args: '',
+  expected_stdout: '',
+  comparison: 'trimmed',
+  tolerance: 1e-6,
+};
+
+const STATUS_DISPLAY: Record<TestStatus, { label: string; icon: typeof Circle; className: string }> = {
+  pending: { label: 'Pending', icon: Circle, className: 'text-muted-foreground' },
+  running: { label: 'Running', icon: Loader2, className: 'text-primary' },
+  passed: { label: 'Passed', icon: CheckCircle2, className: 'text-success' },
+  failed: { label: 'Failed', icon: XCircle, className: 'text-destructive' },
+  error: { label: 'Error', icon: AlertCircle, className: 'text-warning' },
+};
+
+function TestStatusLabel({ result }: { result: TestResult | undefined }) {
+  if (!result) return <span className="text-muted-foreground">—</span>;
+  const { label, icon: Icon, className } = STATUS_DISPLAY[result.status];
+  return (
+    <span className={cn('flex items-center gap-1.5', className)}>
+      <Icon className={cn('h-4 w-4', result.status === 'running' && 'animate-spin')} />
+      {label}
+    </span>
+  );
+}
+
+// Expected and actual output of a failed test, with stderr and the reason
+function TestFailure({ testCase, result }: { testCase: TestCase; result: TestResult }) {
+  return (
+    <div className="space-y-2 py-2">
+      {result.message && <p className="text-sm text-destructive">{result.message}</p>}
+      {result.status === 'failed' && (
+        <>
+          <p className="text-xs text-muted-foreground">Expected (left) and actual output (right)</p>
+          <div className="h-48 rounded-md overflow-hidden border border-border/50">
+            <DiffEditor
+              height="100%"
+              language="plaintext"
+              original={testCase.expected_stdout}
+              modified={result.stdout}
+              theme="vs-dark"
+              options={{
+                readOnly: true,
+                fontSize: 12,
+                fontFamily: 'JetBrains Mono, monospace',
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+              }}
+            />
+          </div>
+        </>
+      )}
+      {result.stderr && (
+        <pre className="max-h-32 overflow-auto rounded-md bg-secondary/30 p-2 text-xs font-mono text-destructive whitespace-pre-wrap">
+          {result.stderr}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function TestCaseForm({
+  draft,
+  onChange,
+  onSave,
+  onCancel,
+  isSaving,
+}: {
+  draft: TestCaseDraft;
+  onChange: (draft: TestCaseDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}) {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.name.trim()) onSave();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-md border border-border/50 p-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="test-name" className="text-xs">Name</Label>
+          <Input
+            id="test-name"
+            value={draft.name}
+            onChange={(e) => onChange({ ...draft, name: e.target.value })}
+            placeholder="e.g. Empty input"
+            className="h-8 text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="test-args" className="text-xs">Arguments</Label>
+          <Input
+            id="test-args"
+            value={draft.args}
+            onChange={(e) => onChange({ ...draft, args: e.target.value })}
+            placeholder={'--verbose "two words"'}
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Comparison</Label>
+          <Select
+            value={draft.comparison}
+            onValueChange={(value) => onChange({ ...draft, comparison: value as ComparisonMode })}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARISON_MODES.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-[11px] text-muted-foreground">
+            {COMPARISON_MODES.find((mode) => mode.value === draft.comparison)?.description}
+          </p>
+        </div>
+        {draft.comparison === 'numeric' && (
+          <div className="space-y-1">
+            <Label htmlFor="test-tolerance" className="text-xs">Tolerance</Label>
+            <Input
+              id="test-tolerance"
+              type="number"
+              min={0}
+              step="any"
+              value={draft.tolerance}
+              onChange={(e) => onChange({ ...draft, tolerance: Math.max(0, Number(e.target.value) || 0) })}
+              className="h-8 font-mono text-xs"
+            />
+          </div>
+        )}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="test-stdin" className="text-xs">Standard input</Label>
+          <Textarea
+            id="test-stdin"
+            value={draft.stdin}
+            onChange={(e) => onChange({ ...draft, stdin: e.target.value })}
+            className="font-mono text-xs min-h-[100px]"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="test-expected" className="text-xs">
+            {draft.comparison === 'regex' ? 'Expected output pattern' : 'Expected output'}
+          </Label>
+          <Textarea
+            id="test-expected"
+            value={draft.expected_stdout}
+            onChange={(e) => onChange({ ...draft, expected_stdout: e.target.value })}
+            className="font-mono text-xs min-h-[100px]"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!draft.name.trim() || isSaving}>
+          {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+          Save test
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// Test cases shared by everyone in the project, and a pass/fail matrix of the last test run
+export function TestCasesDialog({ projectId, userId, canEdit, getRunBody }: TestCasesDialogProps) {
+  const queryClient = useQueryClient();
+  const { results, isRunning, runTests, cancel } = useTestRunner(projectId);
+  const [draft, setDraft] = useState<TestCaseDraft | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Fetch test cases of the project in their order
+  const { data: testCases = [], isLoading } = useQuery({
+    queryKey: ['test-cases', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('project_test_cases')
+        .select('id, name, stdin, args, expected_stdout, comparison, tolerance, position')
+        .eq('project_id', projectId)
+        .order('position')
+        .order('name');
+
+      if (error) throw error;
+      return data as TestCase[];
+    },
+  });
+
+  const saveTestCase = useMutation({
+    mutationFn: async (draft: TestCaseDraft) => {
+      const fields = {
+        name: draft.name,
+        stdin: draft.stdin,
+        args: draft.args,
+        expected_stdout: draft.expected_stdout,
+        comparison: draft.comparison,
+        tolerance: draft.tolerance,
+      };
+      const { error } = draft.id
+        ? await supabase.from('project_test_cases').update(fields).eq('id', draft.id)
+        : await supabase.from('project_test_cases').insert({
+            ...fields,
+            project_id: projectId,
+            position: Math.max(0, ...testCases.map((t) => t.position + 1)),
+            created_by: userId,
+          });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['test-cases', projectId] });
+      setDraft(null);
+    },
+    onError: (error: { code?: string }) => {
+      toast.error(error.code === '23505' ? 'A test with this name already exists' : 'Failed to save test');
+    },
+  });
+
+  const deleteTestCase = useMutation({
+    mutationFn: async (testCase: TestCase) => {
+      const { error } = await supabase
+        .from('project_test_cases')
+        .delete()
+        .eq('id', testCase.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['test-cases', projectId] });
+    },
+    onError: () => {
+      toast.error('Failed to delete test');
+    },
+  });
+
+  const finished = testCases.filter((t) => results[t.id] && !['pending', 'running'].includes(results[t.id].status));
+  const passed = finished.filter((t) => results[t.id].status === 'passed');
+
+  const handleRunTests = () => {
+    setExpandedId(null);
+    runTests(testCases, getRunBody);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Test cases">
+          <FlaskConical className="h-4 w-4" />
+          <span className="hidden lg:inline ml-1">Tests</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-primary" />
+            Test cases
+          </DialogTitle>
+          <DialogDescription>
+            Each test runs the project with its input and compares stdout with the expected output
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            {finished.length > 0 && `${passed.length} of ${finished.length} passed`}
+          </span>
+          <div className="flex gap-2">
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={() => setDraft(EMPTY_DRAFT)} disabled={!!draft}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add test
+              </Button>
+            )}
+            {isRunning ? (
+              <Button size="sm" variant="destructive" onClick={cancel}>
+                <Square className="h-4 w-4 mr-1" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                className="gradient-primary"
+                onClick={handleRunTests}
+                disabled={!canEdit || testCases.length === 0}
+                title={!canEdit ? 'Viewers cannot run code' : undefined}
+              >
+                <Play className="h-4 w-4 mr-1" />
+                Run Tests
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto space-y-3">
+          {draft && (
+            <TestCaseForm
+              draft={draft}
+              onChange={setDraft}
+              onSave={() => saveTestCase.mutate({ ...draft, name: draft.name.trim() })}
+              onCancel={() => setDraft(null)}
+              isSaving={saveTestCase.isPending}
+            />
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : testCases.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No tests yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Test</TableHead>
+                  <TableHead>Comparison</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Exit</TableHead>
+                  <TableHead>Time</TableHead>
+                  {canEdit && <TableHead className="w-20" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {testCases.map((testCase) => {
+                  const result = results[testCase.id];
+                  const canExpand = !!result && (result.status === 'failed' || result.status === 'error');
+                  return (
+                    <Fragment key={testCase.id}>
+                      <TableRow
+                        className={cn(canExpand && 'cursor-pointer')}
+                        onClick={() => canExpand && setExpandedId(expandedId === testCase.id ? null : testCase.id)}
+                      >
+                        <TableCell className="font-medium">{testCase.name}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {COMPARISON_MODES.find((mode) => mode.value === testCase.comparison)?.label}
+                        </TableCell>
+                        <TableCell>
+                          <TestStatusLabel result={result} />
+                        </TableCell>
+                        <TableCell className="font-mono text-muted-foreground">
+                          {result?.exitCode ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {result?.wallTime != null ? formatDuration(result.wallTime) : '—'}
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6"
+                                title="Edit"
+                                onClick={() => setDraft(testCase)}
+                              >
+                                <Pencil className="h-3.5 w-3.5" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 hover:text-destructive"
+                                title="Delete"
+                                onClick={() => deleteTestCase.mutate(testCase)}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                      {canExpand && expandedId === testCase.id && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={canEdit ? 6 : 5}>
+                            <TestFailure testCase={testCase} result={result} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
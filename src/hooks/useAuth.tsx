@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { clearOfflineStore } from '@/lib/offlineStore';
 
 interface AuthContextType {
   user: User | null;
@@ -66,6 +67,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    // Private files and unsaved edits must not outlive the session on this device
+    await clearOfflineStore().catch((err) => console.error('[Offline] Failed to clear the offline copy:', err));
   };
 
   return (
@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { BrowserRunEvent, runInBrowser } from '@/lib/browserRunner';
+import type { Diagnostic } from '@/lib/diagnostics';
+import { RunLimit, RunLimitError, readRunError } from '@/lib/runLimits';
+
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/execute-code`;
+const PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+// Runs kept in the history, newest first
+const MAX_RUNS = 50;
+// Output is shared with collaborators in batches
+const BROADCAST_INTERVAL = 100;
+
+export type ExecutionStage = 'compile' | 'run';
+export type OutputStream = 'stdout' | 'stderr';
+
+// A piece of program output, consecutive output of one stream is merged
+export interface OutputChunk {
+  stream: OutputStream;
+  text: string;
+}
+
+// How a stage ended
+export interface StageExit {
+  code: number | null;
+  signal: string | null;
+  // Milliseconds, measured in the browser when the backend does not report it
+  wallTime: number;
+  wallTimeEstimated: boolean;
+  // Peak memory in bytes, when the backend reports it
+  memory: number | null;
+  // Output beyond the server's limit was dropped
+  truncated: boolean;
+}
+
+export interface StageOutput {
+  // stdout and stderr in the order they arrived
+  chunks: OutputChunk[];
+  // null while the stage runs
+  exit: StageExit | null;
+}
+
+export interface ExecutionResult {
+  // Only for compiled languages
+  compile: StageOutput | null;
+  // Missing until the program starts, and when compilation failed
+  run: StageOutput | null;
+  // Compiler messages and uncaught errors located in project files
+  diagnostics: Diagnostic[];
+  // The run could not be started or the backend failed
+  error: string | null;
+  stopped: boolean;
+  // The backend cannot stream, output arrives once the program has finished
+  buffered: boolean;
+}
+
+// Who ran what
+export interface RunInfo {
+  id: string;
+  userId: string;
+  username: string;
+  // Entry file, null for single-file projects
+  filePath: string | null;
+  language: string;
+  startedAt: string;
+}
+
+export interface RunSession extends RunInfo {
+  result: ExecutionResult;
+  isRunning: boolean;
+  finishedAt: string | null;
+}
+
+// Progress of a run, applied to its result here and on every collaborator's screen
+export type RunEvent =
+  | { type: 'start'; stage: ExecutionStage }
+  | { type: 'stdout' | 'stderr'; stage: ExecutionStage; data: string }
+  | { type: 'exit'; stage: ExecutionStage; exit: StageExit }
+  | { type: 'diagnostics'; diagnostics: Diagnostic[] }
+  | { type: 'buffered' }
+  | { type: 'error'; error: string };
+
+// Messages on the project's realtime channel
+export type RunBroadcast =
+  | { type: 'run_started'; run: RunInfo }
+  | { type: 'run_output'; runId: string; events: RunEvent[] }
+  | { type: 'run_finished'; runId: string; finishedAt: string; stopped: boolean };
+
+// Events of the execute-code stream, browser runs send the same except for
+// buffered, which only backends that cannot stream send
+type StreamEvent = BrowserRunEvent | { type: 'buffered' };
+
+/** Run a request body on execute-code and hand out its server-sent events as they arrive. */
+async function streamFromServer(
+  body: Record<string, unknown>,
+  onEvent: (event: StreamEvent) => void,
+  signal: AbortSignal,
+) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: PUBLISHABLE_KEY,
+      Authorization: `Bearer ${session?.access_token ?? PUBLISHABLE_KEY}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await readRunError(response);
+  }
+
+  // Server-sent events, each message carries one JSON event
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop()!;
+    for (const message of messages) {
+      const data = message
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+}
+
+const EMPTY_RESULT: ExecutionResult = {
+  compile: null,
+  run: null,
+  diagnostics: [],
+  error: null,
+  stopped: false,
+  buffered: false,
+};
+
+/** Everything a stage wrote to one stream, or to both in arrival order. */
+export function getStageText(stage: StageOutput | null, stream?: OutputStream): string {
+  return (stage?.chunks ?? [])
+    .filter((chunk) => !stream || chunk.stream === stream)
+    .map((chunk) => chunk.text)
+    .join('');
+}
+
+function appendChunk(stage: StageOutput | null, stream: OutputStream, text: string): StageOutput {
+  const chunks = stage?.chunks ?? [];
+  const last = chunks[chunks.length - 1];
+  return {
+    exit: stage?.exit ?? null,
+    chunks: last?.stream === stream
+      ? [...chunks.slice(0, -1), { stream, text: last.text + text }]
+      : [...chunks, { stream, text }],
+  };
+}
+
+function applyRunEvent(result: ExecutionResult, event: RunEvent): ExecutionResult {
+  switch (event.type) {
+    case 'start':
+      return { ...result, [event.stage]: { chunks: [], exit: null } };
+    case 'stdout':
+    case 'stderr':
+      return { ...result, [event.stage]: appendChunk(result[event.stage], event.type, event.data) };
+    case 'exit':
+      return { ...result, [event.stage]: { chunks: result[event.stage]?.chunks ?? [], exit: event.exit } };
+    case 'diagnostics':
+      return { ...result, diagnostics: event.diagnostics };
+    case 'buffered':
+      return { ...result, buffered: true };
+    case 'error':
+      return { ...result, error: event.error };
+  }
+}
+
+interface UseCodeExecutionOptions {
+  // Shares our runs with collaborators
+  broadcast?: (message: RunBroadcast) => void;
+  // Called when our run or one of a collaborator ends
+  onRunFinished?: (runId: string) => void;
+  // Called when execute-code refused our run because of a rate limit or quota
+  onLimitReached?: (limit: RunLimit) => void;
+}
+
+/**
+ * Run code through the execute-code edge function, or in a worker of the
+ * browser for projects set to run locally, and collect its output as it
+ * streams in. Stopping aborts the request or the worker, which kills the program.
+ * Runs are shared through broadcast and runs of others are fed in through
+ * receiveRunEvent, so everyone sees the same output and history. The run id
+ * is sent along so execute-code records the run under the same id.
+ */
+export function useCodeExecution({ broadcast, onRunFinished, onLimitReached }: UseCodeExecutionOptions = {}) {
+  const { user } = useAuth();
+  const [runs, setRuns] = useState<RunSession[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [ownRunId, setOwnRunId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingEventsRef = useRef(new Map<string, RunEvent[]>());
+  const broadcastTimerRef = useRef<NodeJS.Timeout>();
+
+  const broadcastRef = useRef(broadcast);
+  broadcastRef.current = broadcast;
+  const onRunFinishedRef = useRef(onRunFinished);
+  onRunFinishedRef.current = onRunFinished;
+  const onLimitReachedRef = useRef(onLimitReached);
+  onLimitReachedRef.current = onLimitReached;
+
+  const addRun = useCallback((run: RunSession) => {
+    setRuns((prev) => [run, ...prev.filter((r) => r.id !== run.id)].slice(0, MAX_RUNS));
+    setActiveRunId(run.id);
+  }, []);
+
+  const updateRun = useCallback((runId: string, update: (run: RunSession) => RunSession) => {
+    setRuns((prev) => prev.map((run) => (run.id === runId ? update(run) : run)));
+  }, []);
+
+  const flushBroadcast = useCallback(() => {
+    clearTimeout(broadcastTimerRef.current);
+    broadcastTimerRef.current = undefined;
+    pendingEventsRef.current.forEach((events, runId) => {
+      broadcastRef.current?.({ type: 'run_output', runId, events });
+    });
+    pendingEventsRef.current.clear();
+  }, []);
+
+  // Apply an event of our own run and queue it for collaborators
+  const emit = useCallback((runId: string, event: RunEvent) => {
+    updateRun(runId, (run) => ({ ...run, result: applyRunEvent(run.result, event) }));
+
+    const pending = pendingEventsRef.current.get(runId) || [];
+    pending.push(event);
+    pendingEventsRef.current.set(runId, pending);
+    if (!broadcastTimerRef.current) {
+      broadcastTimerRef.current = setTimeout(flushBroadcast, BROADCAST_INTERVAL);
+    }
+  }, [updateRun, flushBroadcast]);
+
+  const run = useCallback(async (
+    body: Record<string, unknown>,
+    { filePath, language, local = false }: { filePath: string | null; language: string; local?: boolean },
+  ) => {
+    abortRef.current?.abort();
+    const abort = new AbortController();
+    abortRef.current = abort;
+
+    const info: RunInfo = {
+      id: crypto.randomUUID(),
+      userId: user?.id ?? '',
+      username: user?.email?.split('@')[0] || 'Anonymous',
+      filePath,
+      language,
+      startedAt: new Date().toISOString(),
+    };
+    addRun({ ...info, result: EMPTY_RESULT, isRunning: true, finishedAt: null });
+    setOwnRunId(info.id);
+    broadcastRef.current?.({ type: 'run_started', run: info });
+
+    let stageStartedAt = performance.now();
+    const handleEvent = (event: StreamEvent) => {
+      switch (event.type) {
+        case 'start':
+          stageStartedAt = performance.now();
+          emit(info.id, event);
+          break;
+        case 'exit':
+          emit(info.id, {
+            type: 'exit',
+            stage: event.stage,
+            exit: {
+              code: event.code,
+              signal: event.signal,
+              wallTime: event.wallTime ?? Math.round(performance.now() - stageStartedAt),
+              wallTimeEstimated: event.wallTime === null,
+              memory: event.memory,
+              truncated: !!event.truncated,
+            },
+          });
+          break;
+        case 'done':
+          break;
+        default:
+          emit(info.id, event);
+      }
+    };
+
+    try {
+      if (local) {
+        await runInBrowser(body, handleEvent, abort.signal);
+      } else {
+        await streamFromServer({ ...body, runId: info.id }, handleEvent, abort.signal);
+      }
+    } catch (err) {
+      if (!abort.signal.aborted) {
+        emit(info.id, { type: 'error', error: err instanceof Error ? err.message : String(err) });
+      }
+      if (err instanceof RunLimitError) {
+        onLimitReachedRef.current?.(err.limit);
+      }
+    } finally {
+      const stopped = abort.signal.aborted;
+      const finishedAt = new Date().toISOString();
+      flushBroadcast();
+      updateRun(info.id, (run) => ({
+        ...run,
+        isRunning: false,
+        finishedAt,
+        result: { ...run.result, stopped },
+      }));
+      broadcastRef.current?.({ type: 'run_finished', runId: info.id, finishedAt, stopped });
+      onRunFinishedRef.current?.(info.id);
+
+      if (abortRef.current === abort) {
+        abortRef.current = null;
+      }
+      setOwnRunId((current) => (current === info.id ? null : current));
+    }
+  }, [user, addRun, updateRun, emit, flushBroadcast]);
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Runs of collaborators, as sent by their broadcast
+  const receiveRunEvent = useCallback((message: RunBroadcast) => {
+    switch (message.type) {
+      case 'run_started':
+        addRun({ ...message.run, result: EMPTY_RESULT, isRunning: true, finishedAt: null });
+        break;
+      case 'run_output':
+        updateRun(message.runId, (run) => ({
+          ...run,
+          result: message.events.reduce(applyRunEvent, run.result),
+        }));
+        break;
+      case 'run_finished':
+        updateRun(message.runId, (run) => ({
+          ...run,
+          isRunning: false,
+          finishedAt: message.finishedAt,
+          result: { ...run.result, stopped: message.stopped },
+        }));
+        onRunFinishedRef.current?.(message.runId);
+        break;
+    }
+  }, [addRun, updateRun]);
+
+  // Show a run from outside this session, like one of the stored history
+  const showRun = useCallback((session: RunSession) => {
+    setRuns((prev) =>
+      prev.some((run) => run.id === session.id) ? prev : [session, ...prev].slice(0, MAX_RUNS)
+    );
+    setActiveRunId(session.id);
+  }, []);
+
+  // Clearing only hides the output, the run stays in the history
+  const clear = useCallback(() => {
+    setActiveRunId(null);
+  }, []);
+
+  // Don't leave a program running after leaving the project
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      clearTimeout(broadcastTimerRef.current);
+    };
+  }, []);
+
+  return {
+    runs,
+    activeRun: runs.find((r) => r.id === activeRunId) ?? null,
+    isRunning: ownRunId !== null,
+    run,
+    stop,
+    clear,
+    selectRun: setActiveRunId,
+    showRun,
+    receiveRunEvent,
+  };
+}
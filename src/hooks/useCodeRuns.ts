@@ -0,0 +1,211 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { Diagnostic } from '@/lib/diagnostics';
+import type { ExecutionResult, OutputChunk, RunSession, StageOutput } from '@/hooks/useCodeExecution';
+
+// Runs listed in the Runs panel
+const MAX_STORED_RUNS = 50;
+
+// A stage as execute-code reports it
+export interface StageReport {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+  signal: string | null;
+  wallTime: number | null;
+  memory: number | null;
+  truncated: boolean;
+}
+
+export interface ExecutionReport {
+  compile: StageReport | null;
+  run: StageReport | null;
+  diagnostics: Diagnostic[];
+}
+
+export type StoredRunStatus = 'success' | 'compile_error' | 'runtime_error' | 'error' | 'stopped';
+
+// A row of code_runs, as recorded by execute-code
+export interface StoredRun {
+  id: string;
+  author_id: string | null;
+  language: string;
+  entry_path: string | null;
+  snapshot_hash: string;
+  stdin: string;
+  args: string[];
+  result: ExecutionReport | null;
+  error: string | null;
+  status: StoredRunStatus;
+  started_at: string;
+  created_at: string;
+  profiles?: {
+    username: string | null;
+  } | null;
+}
+
+export interface SnapshotFile {
+  path: string;
+  content: string;
+}
+
+const RUN_STATUSES: StoredRunStatus[] = ['success', 'compile_error', 'runtime_error', 'error', 'stopped'];
+
+type JsonObject = { [key: string]: Json | undefined };
+
+function isJsonObject(value: Json | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const stringOr = <T>(value: Json | undefined, fallback: T) => (typeof value === 'string' ? value : fallback);
+const numberOrNull = (value: Json | undefined) => (typeof value === 'number' ? value : null);
+
+// The jsonb columns are written by execute-code, read them field by field
+// so rows from older versions of it still show what they have
+function parseStage(value: Json | undefined): StageReport | null {
+  if (!isJsonObject(value)) return null;
+  return {
+    stdout: stringOr(value.stdout, ''),
+    stderr: stringOr(value.stderr, ''),
+    code: numberOrNull(value.code),
+    signal: stringOr(value.signal, null),
+    wallTime: numberOrNull(value.wallTime),
+    memory: numberOrNull(value.memory),
+    truncated: value.truncated === true,
+  };
+}
+
+function parseDiagnostic(value: Json): Diagnostic[] {
+  if (!isJsonObject(value) || typeof value.path !== 'string' || typeof value.line !== 'number') return [];
+  return [{
+    path: value.path,
+    line: value.line,
+    column: numberOrNull(value.column),
+    severity: value.severity === 'warning' ? 'warning' : 'error',
+    message: stringOr(value.message, ''),
+    source: stringOr(value.source, ''),
+  }];
+}
+
+function parseReport(value: Json | null): ExecutionReport | null {
+  if (!isJsonObject(value)) return null;
+  return {
+    compile: parseStage(value.compile),
+    run: parseStage(value.run),
+    diagnostics: Array.isArray(value.diagnostics) ? value.diagnostics.flatMap(parseDiagnostic) : [],
+  };
+}
+
+function parseSnapshotFiles(value: Json): SnapshotFile[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((file) =>
+    isJsonObject(file) && typeof file.path === 'string' && typeof file.content === 'string'
+      ? [{ path: file.path, content: file.content }]
+      : []
+  );
+}
+
+type CodeRunRow = Tables<'code_runs'> & { profiles: { username: string | null } | null };
+
+function toStoredRun(row: CodeRunRow): StoredRun {
+  return {
+    id: row.id,
+    author_id: row.author_id,
+    language: row.language,
+    entry_path: row.entry_path,
+    snapshot_hash: row.snapshot_hash,
+    stdin: row.stdin,
+    args: row.args,
+    result: parseReport(row.result),
+    error: row.error,
+    status: RUN_STATUSES.find((status) => status === row.status) ?? 'error',
+    started_at: row.started_at,
+    created_at: row.created_at,
+    profiles: row.profiles,
+  };
+}
+
+// Stored output has lost the order of stdout and stderr, stderr comes last
+function toStageOutput(stage: StageReport | null): StageOutput | null {
+  if (!stage) return null;
+  const chunks: OutputChunk[] = [];
+  if (stage.stdout) chunks.push({ stream: 'stdout', text: stage.stdout });
+  if (stage.stderr) chunks.push({ stream: 'stderr', text: stage.stderr });
+  return {
+    chunks,
+    exit: {
+      code: stage.code,
+      signal: stage.signal,
+      wallTime: stage.wallTime ?? 0,
+      wallTimeEstimated: stage.wallTime === null,
+      memory: stage.memory,
+      truncated: stage.truncated,
+    },
+  };
+}
+
+/** A stored run in the shape of a live one, to show it in the output panel. */
+export function toRunSession(run: StoredRun): RunSession {
+  const result: ExecutionResult = {
+    compile: toStageOutput(run.result?.compile ?? null),
+    run: toStageOutput(run.result?.run ?? null),
+    diagnostics: run.result?.diagnostics ?? [],
+    error: run.error,
+    stopped: run.status === 'stopped',
+    buffered: false,
+  };
+  return {
+    id: run.id,
+    userId: run.author_id ?? '',
+    username: run.profiles?.username || 'Unknown User',
+    filePath: run.entry_path,
+    language: run.language,
+    startedAt: run.started_at,
+    result,
+    isRunning: false,
+    finishedAt: run.created_at,
+  };
+}
+
+/**
+ * Runs of the project recorded by execute-code, newest first, and the files
+ * each of them ran so it can be repeated.
+ */
+export function useCodeRuns(projectId: string | undefined) {
+  const { data: runs = [], isLoading } = useQuery({
+    queryKey: ['code-runs', projectId],
+    queryFn: async (): Promise<StoredRun[]> => {
+      const { data, error } = await supabase
+        .from('code_runs')
+        .select(`
+          *,
+          profiles:author_id (
+            username
+          )
+        `)
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+        .limit(MAX_STORED_RUNS);
+
+      if (error) throw error;
+      return data.map(toStoredRun);
+    },
+    enabled: !!projectId,
+  });
+
+  const loadFiles = useCallback(async (run: StoredRun): Promise<SnapshotFile[]> => {
+    const { data, error } = await supabase
+      .from('code_run_snapshots')
+      .select('files')
+      .eq('project_id', projectId!)
+      .eq('hash', run.snapshot_hash)
+      .single();
+
+    if (error) throw error;
+    return parseSnapshotFiles(data.files);
+  }, [projectId]);
+
+  return { runs, isLoading, loadFiles };
+}
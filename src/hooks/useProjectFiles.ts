@@ -1,15 +1,84 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
 import { ProjectFile } from '@/components/FileExplorer';
-import { useCallback, useRef, useEffect } from 'react';
+import { mergeThreeWay } from '@/lib/threeWayMerge';
+import {
+  PendingSave,
+  cacheProjectFiles,
+  deletePendingSave,
+  getCachedProjectFiles,
+  getPendingSaves,
+  putPendingSave,
+} from '@/lib/offlineStore';
+import { useCallback, useRef, useEffect, useState } from 'react';
 
 interface UseProjectFilesOptions {
   projectId: string | undefined;
+  // Encoded state vector of a file's shared document, when it holds exactly
+  // this content. Sent along with a save so peers know which edits it includes.
+  getStateVector?: (fileId: string, content: string) => string | undefined;
 }
 
-export function useProjectFiles({ projectId }: UseProjectFilesOptions) {
+// A save rejected because someone else saved a newer version first
+export interface SaveConflict {
+  fileId: string;
+  base: string;
+  mine: string;
+  theirs: string;
+  theirsVersion: number;
+}
+
+interface KnownVersion {
+  version: number;
+  content: string;
+}
+
+// A version this client saved, with the shared document state it was saved from
+export interface SavedVersion {
+  fileId: string;
+  version: number;
+  content: string;
+  stateVector: string | undefined;
+}
+
+export type FileSaveStatus = 'unsaved' | 'saving' | 'saved' | 'failed';
+
+// Save queue entry of one file, content is the latest edit still to be persisted
+interface QueuedSave {
+  content: string;
+  dirty: boolean;
+  inFlight: boolean;
+  attempts: number;
+  timer?: NodeJS.Timeout;
+}
+
+const SAVE_DELAY = 1000;
+// Edits of other users are saved by their author, ours only covers authors that left early
+const REMOTE_SAVE_DELAY = 5000;
+const RETRY_BASE_DELAY = 2000;
+// Saves on top of newer versions that already hold our edits, before backing off
+const MAX_MERGED_SAVES = 3;
+const MAX_RETRY_DELAY = 30000;
+
+export function useProjectFiles({ projectId, getStateVector }: UseProjectFilesOptions) {
   const queryClient = useQueryClient();
-  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  const { user } = useAuth();
+  // The offline copy of files and edits belongs to whoever is signed in
+  const userId = user?.id;
+  const queueRef = useRef(new Map<string, QueuedSave>());
+  const flushFileRef = useRef<(fileId: string) => void>(() => {});
+  const flushAllRef = useRef<() => void>(() => {});
+  const [saveStatus, setSaveStatus] = useState<Record<string, FileSaveStatus>>({});
+  // Last version of each file this client has seen, saves are checked against it
+  const knownVersionsRef = useRef(new Map<string, KnownVersion>());
+  // Saves left over from an earlier session, replayed once their file is loaded
+  const restoredSavesRef = useRef(new Map<string, PendingSave>());
+  const conflictRef = useRef<SaveConflict | null>(null);
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [lastSave, setLastSave] = useState<SavedVersion | null>(null);
+  const getStateVectorRef = useRef(getStateVector);
+  getStateVectorRef.current = getStateVector;
 
   // Fetch all files for the project
   const {
@@ -17,57 +86,314 @@ export function useProjectFiles({ projectId }: UseProjectFilesOptions) {
     isLoading,
     error,
   } = useQuery({
-    queryKey: ['project-files', projectId],
+    queryKey: ['project-files', projectId, userId],
     queryFn: async () => {
-      if (!projectId) return [];
+      if (!projectId || !userId) return [];
       const { data, error } = await supabase
         .from('project_files')
         .select('*')
         .eq('project_id', projectId)
         .order('name');
 
-      if (error) throw error;
-      return data as ProjectFile[];
+      let projectFiles: ProjectFile[];
+      if (error) {
+        // Keep working from the offline copy while the server is unreachable
+        const cached = await getCachedProjectFiles(userId, projectId).catch(() => []);
+        if (cached.length === 0) throw error;
+        projectFiles = cached;
+      } else {
+        projectFiles = data as ProjectFile[];
+        cacheProjectFiles(userId, projectId, projectFiles).catch((err) => {
+          console.error('[Offline] Failed to cache files:', err);
+        });
+      }
+
+      // Show edits that never reached the server instead of the saved content
+      const pendingSaves = await getPendingSaves(userId, projectId).catch(() => []);
+      pendingSaves.forEach((save) => restoredSavesRef.current.set(save.fileId, save));
+      return projectFiles.map((file) => {
+        const pending = pendingSaves.find((save) => save.fileId === file.id);
+        if (!pending || pending.content === file.content) return file;
+        return { ...file, content: pending.content, hasOfflineEdits: true };
+      });
     },
-    enabled: !!projectId,
+    enabled: !!projectId && !!userId,
   });
 
-  // Save file content mutation
-  const saveFileMutation = useMutation({
-    mutationFn: async ({ fileId, content }: { fileId: string; content: string }) => {
-      const { error } = await supabase
-        .from('project_files')
-        .update({ content })
-        .eq('id', fileId);
+  const showConflict = useCallback((next: SaveConflict | null) => {
+    conflictRef.current = next;
+    setConflict(next);
+  }, []);
+
+  const setFileStatus = useCallback((fileId: string, status: FileSaveStatus) => {
+    setSaveStatus((prev) => (prev[fileId] === status ? prev : { ...prev, [fileId]: status }));
+  }, []);
+
+  // Save file content, rejected by the server if our version is stale.
+  // Resolves to the new version, or null when the save is held for a conflict.
+  const saveToServer = useCallback(
+    async (fileId: string, content: string, mergedSaves = 0): Promise<number | null> => {
+      const known = knownVersionsRef.current.get(fileId);
+      if (!known) throw new Error('File has not been loaded');
+
+      const { data, error } = await supabase.rpc('save_file_content', {
+        _file_id: fileId,
+        _content: content,
+        _expected_version: known.version,
+      });
 
       if (error) throw error;
+      const result = data[0];
+
+      if (result.saved) {
+        knownVersionsRef.current.set(fileId, { version: result.current_version, content });
+        return result.current_version;
+      }
+
+      // Their changes may already be part of ours, e.g. merged through the shared document
+      const theirs = result.current_content || '';
+      const { merged, conflicts } = mergeThreeWay(known.content, content, theirs);
+      if (conflicts === 0 && merged === content) {
+        knownVersionsRef.current.set(fileId, { version: result.current_version, content: theirs });
+        if (theirs === content) return result.current_version;
+        // Others keep saving in between, the retry backoff gives them room
+        if (mergedSaves >= MAX_MERGED_SAVES) throw new Error('File keeps changing while saving');
+        return saveToServer(fileId, content, mergedSaves + 1);
+      }
+
+      showConflict({
+        fileId,
+        base: known.content,
+        mine: content,
+        theirs,
+        theirsVersion: result.current_version,
+      });
+      return null;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['project-files', projectId] });
+    [showConflict]
+  );
+
+  const scheduleFlush = useCallback((fileId: string, delay: number) => {
+    const entry = queueRef.current.get(fileId);
+    if (!entry) return;
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      entry.timer = undefined;
+      flushFileRef.current(fileId);
+    }, delay);
+  }, []);
+
+  // Save the latest content of a file right away
+  const flushFile = useCallback(
+    async (fileId: string) => {
+      const entry = queueRef.current.get(fileId);
+      if (!entry?.dirty) return;
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = undefined;
+      }
+      // Picked up again once the running save finishes
+      if (entry.inFlight) return;
+      // Held until the user picks a resolution
+      if (conflictRef.current?.fileId === fileId) return;
+
+      const content = entry.content;
+      // Taken now, later edits are not part of this save
+      const stateVector = getStateVectorRef.current?.(fileId, content);
+      const known = knownVersionsRef.current.get(fileId);
+      if (projectId && userId && known) {
+        putPendingSave({
+          userId,
+          fileId,
+          projectId,
+          content,
+          baseVersion: known.version,
+          baseContent: known.content,
+          queuedAt: new Date().toISOString(),
+        }).catch((err) => console.error('[Offline] Failed to store pending save:', err));
+      }
+
+      // Kept locally until the browser is back online
+      if (!navigator.onLine) {
+        setFileStatus(fileId, 'unsaved');
+        return;
+      }
+
+      entry.dirty = false;
+      entry.inFlight = true;
+      setFileStatus(fileId, 'saving');
+
+      try {
+        const version = await saveToServer(fileId, content);
+        entry.attempts = 0;
+        if (version === null) {
+          entry.dirty = true;
+        } else {
+          await deletePendingSave(userId, fileId, content).catch(() => {});
+          queryClient.invalidateQueries({ queryKey: ['project-files', projectId] });
+          queryClient.invalidateQueries({ queryKey: ['file-revisions', fileId] });
+          setLastSave({ fileId, version, content, stateVector });
+        }
+      } catch (err) {
+        console.error('[Save] Failed to save file:', err);
+        entry.dirty = true;
+        entry.attempts++;
+        entry.inFlight = false;
+        setFileStatus(fileId, 'failed');
+        scheduleFlush(fileId, Math.min(RETRY_BASE_DELAY * 2 ** (entry.attempts - 1), MAX_RETRY_DELAY));
+        return;
+      }
+
+      entry.inFlight = false;
+      setFileStatus(fileId, entry.dirty ? 'unsaved' : 'saved');
+
+      // Edits made while the save was running
+      if (entry.dirty && !entry.timer && conflictRef.current?.fileId !== fileId) {
+        flushFile(fileId);
+      }
     },
-  });
+    [projectId, userId, queryClient, saveToServer, scheduleFlush, setFileStatus]
+  );
+  flushFileRef.current = flushFile;
 
-  // Debounced save function
+  // Save every file with pending edits right away
+  const flushAll = useCallback(() => {
+    queueRef.current.forEach((_, fileId) => flushFile(fileId));
+  }, [flushFile]);
+
+  // Queue the content of a file for saving, each file is debounced on its own
   const saveFileContent = useCallback(
-    (fileId: string, content: string) => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
+    (fileId: string, content: string, { remote = false }: { remote?: boolean } = {}) => {
+      let entry = queueRef.current.get(fileId);
+      if (!entry) {
+        entry = { content, dirty: true, inFlight: false, attempts: 0 };
+        queueRef.current.set(fileId, entry);
+      }
+      entry.content = content;
+      entry.dirty = true;
+      setFileStatus(fileId, entry.inFlight ? 'saving' : 'unsaved');
+
+      // Hold saves of a conflicting file until the user picks a resolution
+      if (conflictRef.current?.fileId === fileId) {
+        showConflict({ ...conflictRef.current, mine: content });
+        return;
       }
-      saveTimeoutRef.current = setTimeout(() => {
-        saveFileMutation.mutate({ fileId, content });
-      }, 1000);
+
+      // Retries keep their backoff, the new content goes out with the next attempt
+      if (entry.attempts > 0 && entry.timer) return;
+
+      scheduleFlush(fileId, remote ? REMOTE_SAVE_DELAY : SAVE_DELAY);
     },
-    [saveFileMutation]
+    [scheduleFlush, setFileStatus, showConflict]
   );
 
-  // Clean up timeout
+  // Remember the version of each file the first time it is loaded
   useEffect(() => {
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
+    files.forEach((file) => {
+      if (file.is_folder || knownVersionsRef.current.has(file.id)) return;
+
+      // Edits that never reached the server are saved on top of the version they started from
+      const restored = restoredSavesRef.current.get(file.id);
+      if (restored && file.hasOfflineEdits) {
+        knownVersionsRef.current.set(file.id, {
+          version: restored.baseVersion,
+          content: restored.baseContent,
+        });
+        saveFileContent(file.id, restored.content);
+        return;
+      }
+      if (restored) {
+        deletePendingSave(userId, file.id, restored.content).catch(() => {});
+      }
+
+      knownVersionsRef.current.set(file.id, {
+        version: file.content_version,
+        content: file.content || '',
+      });
+    });
+  }, [files, userId, saveFileContent]);
+
+  // Save the chosen resolution on top of the version that caused the conflict
+  const resolveConflict = useCallback(
+    (content: string) => {
+      const current = conflictRef.current;
+      if (!current) return;
+
+      knownVersionsRef.current.set(current.fileId, {
+        version: current.theirsVersion,
+        content: current.theirs,
+      });
+      showConflict(null);
+
+      const entry = queueRef.current.get(current.fileId);
+      if (!entry) return;
+      entry.content = content;
+      entry.dirty = content !== current.theirs;
+      if (entry.dirty) {
+        flushFile(current.fileId);
+      } else {
+        deletePendingSave(userId, current.fileId).catch(() => {});
+        setFileStatus(current.fileId, 'saved');
+      }
+    },
+    [userId, flushFile, setFileStatus, showConflict]
+  );
+
+  // Another user saved a version our document already includes
+  const acknowledgeVersion = useCallback(
+    (fileId: string, version: number, content: string) => {
+      const known = knownVersionsRef.current.get(fileId);
+      if (!known || known.version < version) {
+        knownVersionsRef.current.set(fileId, { version, content });
+      }
+
+      // Their save already covers what we had queued
+      const entry = queueRef.current.get(fileId);
+      if (entry?.dirty && !entry.inFlight && entry.content === content) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+          entry.timer = undefined;
+        }
+        entry.dirty = false;
+        entry.attempts = 0;
+        deletePendingSave(userId, fileId, content).catch(() => {});
+        setFileStatus(fileId, 'saved');
+      }
+    },
+    [userId, setFileStatus]
+  );
+
+  // Save pending edits before the page goes away or into the background, and once back online
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      flushAll();
+      const pending = [...queueRef.current.values()].some((entry) => entry.dirty || entry.inFlight);
+      if (pending) {
+        e.preventDefault();
+        e.returnValue = '';
       }
     };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flushAll();
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('online', flushAll);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('online', flushAll);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [flushAll]);
+
+  // Leaving the project saves what is still queued instead of dropping it
+  useEffect(() => {
+    return () => flushAllRef.current();
   }, []);
+  flushAllRef.current = flushAll;
 
   // Get language from file extension
   const getLanguageFromFile = useCallback((fileName: string): string => {
@@ -101,7 +427,14 @@ export function useProjectFiles({ projectId }: UseProjectFilesOptions) {
     isLoading,
     error,
     saveFileContent,
-    isSaving: saveFileMutation.isPending,
+    flushFile,
+    flushAll,
+    saveStatus,
+    isSaving: Object.values(saveStatus).includes('saving'),
+    lastSave,
+    conflict,
+    resolveConflict,
+    acknowledgeVersion,
     getLanguageFromFile,
   };
 }
@@ -0,0 +1,106 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// How often an open project counts as activity of its member
+const ACTIVITY_INTERVAL = 5 * 60 * 1000;
+
+export type MemberRole = Tables<'project_collaborators'>['role'];
+
+// Sent over the project's channel by the database when the owner changes a
+// member's role or removes them
+export type MemberChange =
+  | { type: 'member_removed'; userId: string }
+  | { type: 'member_role_changed'; userId: string; role: MemberRole };
+
+type MemberProfile = Pick<Tables<'profiles'>, 'username' | 'avatar_url'>;
+
+// A row of project_collaborators with the member's profile
+export interface ProjectMember
+  extends Pick<Tables<'project_collaborators'>, 'id' | 'user_id' | 'role' | 'joined_at' | 'last_active_at'> {
+  profiles: MemberProfile | null;
+}
+
+export interface ProjectOwner {
+  id: string;
+  created_at: string;
+  profiles: MemberProfile | null;
+}
+
+interface UseProjectMembersOptions {
+  projectId: string | undefined;
+  // Members of the project, the owner is not one
+  isMember: boolean;
+  enabled: boolean;
+}
+
+export function useProjectMembers({ projectId, isMember, enabled }: UseProjectMembersOptions) {
+  const { data: owner, isLoading: ownerLoading } = useQuery({
+    queryKey: ['project-owner', projectId],
+    queryFn: async (): Promise<ProjectOwner> => {
+      const { data, error } = await supabase
+        .from('projects')
+        .select(`
+          owner_id,
+          created_at,
+          profiles:owner_id (
+            username,
+            avatar_url
+          )
+        `)
+        .eq('id', projectId!)
+        .single();
+
+      if (error) throw error;
+      return {
+        id: data.owner_id,
+        created_at: data.created_at,
+        profiles: data.profiles,
+      };
+    },
+    enabled: !!projectId && enabled,
+  });
+
+  const { data: members, isLoading: membersLoading } = useQuery({
+    queryKey: ['project-members', projectId],
+    queryFn: async (): Promise<ProjectMember[]> => {
+      const { data, error } = await supabase
+        .from('project_collaborators')
+        .select(`
+          id,
+          user_id,
+          role,
+          joined_at,
+          last_active_at,
+          profiles:user_id (
+            username,
+            avatar_url
+          )
+        `)
+        .eq('project_id', projectId!)
+        .order('joined_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!projectId && enabled,
+  });
+
+  // Record our activity while the project is open
+  useEffect(() => {
+    if (!projectId || !isMember) return;
+
+    const record = () => {
+      supabase.rpc('record_project_activity', { _project_id: projectId }).then(({ error }) => {
+        if (error) console.error('[Members] Failed to record activity:', error);
+      });
+    };
+
+    record();
+    const interval = setInterval(record, ACTIVITY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [projectId, isMember]);
+
+  return { owner, members: members ?? [], isLoading: ownerLoading || membersLoading };
+}
@@ -1,53 +1,316 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
+import * as Y from 'yjs';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { ActiveUser, UserViewport, getUserColor } from '@/components/ActiveUsersPresence';
+import {
+  MonacoBinding,
+  MonacoEditor,
+  REMOTE_ORIGIN,
+  createFileDoc,
+  decodeUpdate,
+  encodeUpdate,
+  getSeedId,
+  getSharedText,
+} from '@/lib/collaborativeDoc';
+import { RemoteCursorRenderer } from '@/lib/remoteCursors';
+import type { RunBroadcast } from '@/hooks/useCodeExecution';
+import type { MemberChange } from '@/hooks/useProjectMembers';
+import type { SavedVersion } from '@/hooks/useProjectFiles';
 
-interface ActiveUser {
+interface CollaborativeFile {
   id: string;
+  name: string;
+  content: string | null;
+  updated_at: string;
+  hasOfflineEdits?: boolean;
+}
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'offline';
+
+interface FileDocState {
+  doc: Y.Doc;
+  // Still only holds the persisted seed, no local or remote edits yet
+  pristine: boolean;
+  seedId: number;
+  seededAt: string;
+}
+
+// Cursor of another user, anchored to the text so it survives concurrent edits
+interface CursorState {
+  userId: string;
   username: string;
-  avatar_url?: string;
-  isTyping?: boolean;
-  currentFile?: string;
+  fileId: string;
+  anchor: unknown;
+  head: unknown;
 }
 
 interface UseRealtimeCodeOptions {
   projectId: string | undefined;
-  currentFileId: string | null;
-  currentFileName: string | null;
-  initialCode: string;
+  currentFile: CollaborativeFile | null;
+  editor: MonacoEditor | null;
   onCodeChange: (code: string) => void;
+  // Another user saved a version of the file that our document already includes
+  onRemoteSave?: (fileId: string, version: number, content: string) => void;
+  // Another user started, continued or finished a code run
+  onRunEvent?: (message: RunBroadcast) => void;
+  // Someone's role was changed or they were removed. The event could come
+  // from anyone on the channel, check the database before acting on it.
+  onMemberChange?: (change: MemberChange) => void;
 }
 
-export function useRealtimeCode({ 
-  projectId, 
-  currentFileId,
-  currentFileName,
-  initialCode, 
-  onCodeChange 
+export function useRealtimeCode({
+  projectId,
+  currentFile,
+  editor,
+  onCodeChange,
+  onRemoteSave,
+  onRunEvent,
+  onMemberChange,
 }: UseRealtimeCodeOptions) {
   const { user } = useAuth();
   const channelRef = useRef<RealtimeChannel | null>(null);
   const [activeUsers, setActiveUsers] = useState<ActiveUser[]>([]);
-  const isLocalChangeRef = useRef(false);
-  const lastBroadcastRef = useRef<string>('');
+  const docsRef = useRef(new Map<string, FileDocState>());
+  const bindingRef = useRef<MonacoBinding | null>(null);
+  const cursorsRef = useRef(new Map<string, CursorState>());
+  const cursorRendererRef = useRef<RemoteCursorRenderer | null>(null);
+  const cursorTimeoutRef = useRef<NodeJS.Timeout>();
+  const viewportTimeoutRef = useRef<NodeJS.Timeout>();
+  const viewportRef = useRef<UserViewport | null>(null);
+  const isTypingRef = useRef(false);
+  const [docEpoch, setDocEpoch] = useState(0);
+  // Bumped to leave the channel and join it again
+  const [channelEpoch, setChannelEpoch] = useState(0);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const isConnectedRef = useRef(false);
+  // Local updates made while disconnected, sent once the channel is back
+  const unsyncedUpdatesRef = useRef(new Map<string, Uint8Array[]>());
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  const changeListenersRef = useRef(new Set<(fileId: string) => void>());
+
+  const userRef = useRef(user);
+  userRef.current = user;
+  const currentFileRef = useRef(currentFile);
+  currentFileRef.current = currentFile;
+  const onCodeChangeRef = useRef(onCodeChange);
+  onCodeChangeRef.current = onCodeChange;
+  const onRemoteSaveRef = useRef(onRemoteSave);
+  onRemoteSaveRef.current = onRemoteSave;
+  const onRunEventRef = useRef(onRunEvent);
+  onRunEventRef.current = onRunEvent;
+  const onMemberChangeRef = useRef(onMemberChange);
+  onMemberChangeRef.current = onMemberChange;
+
+  const userId = user?.id;
+  const currentFileId = currentFile?.id || null;
+  const currentFileName = currentFile?.name || null;
+
+  const trackPresence = useCallback((isTyping: boolean) => {
+    const user = userRef.current;
+    isTypingRef.current = isTyping;
+    if (!channelRef.current || !user) return;
+
+    channelRef.current.track({
+      id: user.id,
+      username: user.email?.split('@')[0] || 'Anonymous',
+      avatar_url: user.user_metadata?.avatar_url,
+      isTyping,
+      currentFile: currentFileRef.current?.name || undefined,
+      currentFileId: currentFileRef.current?.id || undefined,
+      viewport: viewportRef.current || undefined,
+    });
+  }, []);
+
+  const requestSync = useCallback((fileId: string) => {
+    if (!channelRef.current || !userId) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'doc_sync_request',
+      payload: { fileId, userId },
+    });
+  }, [userId]);
+
+  // Register a document and forward its local updates to other users
+  const registerDoc = useCallback((fileId: string, state: FileDocState) => {
+    state.doc.on('update', (update: Uint8Array, origin: unknown) => {
+      changeListenersRef.current.forEach((listener) => listener(fileId));
+      if (origin === REMOTE_ORIGIN) return;
+      state.pristine = false;
+
+      if (!isConnectedRef.current) {
+        const unsynced = unsyncedUpdatesRef.current.get(fileId) || [];
+        unsynced.push(update);
+        unsyncedUpdatesRef.current.set(fileId, unsynced);
+        return;
+      }
+
+      if (!channelRef.current || !userId) return;
+      channelRef.current.send({
+        type: 'broadcast',
+        event: 'doc_update',
+        payload: { fileId, userId, update: encodeUpdate(update) },
+      });
+    });
+    docsRef.current.set(fileId, state);
+  }, [userId]);
+
+  // Get the shared document of a file, seeding it from the saved content
+  const ensureDoc = useCallback((file: CollaborativeFile) => {
+    let state = docsRef.current.get(file.id);
+    if (!state) {
+      const content = file.content || '';
+      state = {
+        doc: createFileDoc(content),
+        // Edits kept offline must never be replaced by a peer's document
+        pristine: !file.hasOfflineEdits,
+        seedId: getSeedId(content),
+        seededAt: file.updated_at,
+      };
+      registerDoc(file.id, state);
+      requestSync(file.id);
+    }
+    return state;
+  }, [registerDoc, requestSync]);
+
+  // Draw the cursors of users looking at the open file
+  const renderCursors = useCallback(() => {
+    const renderer = cursorRendererRef.current;
+    const fileId = currentFileRef.current?.id;
+    const state = fileId ? docsRef.current.get(fileId) : undefined;
+    if (!renderer) return;
+    if (!state) {
+      renderer.render([]);
+      return;
+    }
+
+    const toOffset = (json: unknown) => {
+      const absolute = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(json),
+        state.doc,
+      );
+      return absolute ? absolute.index : null;
+    };
+
+    const cursors = [...cursorsRef.current.values()]
+      .filter((cursor) => cursor.fileId === fileId)
+      .flatMap((cursor) => {
+        const anchor = toOffset(cursor.anchor);
+        const head = toOffset(cursor.head);
+        if (anchor === null || head === null) return [];
+        return [{
+          userId: cursor.userId,
+          username: cursor.username,
+          color: getUserColor(cursor.userId),
+          anchor,
+          head,
+        }];
+      });
+    renderer.render(cursors);
+  }, []);
+
+  // Share our caret and selection as positions relative to the shared text
+  const broadcastCursor = useCallback(() => {
+    const user = userRef.current;
+    const fileId = currentFileRef.current?.id;
+    const state = fileId ? docsRef.current.get(fileId) : undefined;
+    const model = editor?.getModel();
+    const selection = editor?.getSelection();
+    if (!channelRef.current || !user || !state || !model || !selection) return;
+
+    const ytext = getSharedText(state.doc);
+    const toRelative = (lineNumber: number, column: number) => Y.relativePositionToJSON(
+      Y.createRelativePositionFromTypeIndex(ytext, model.getOffsetAt({ lineNumber, column })),
+    );
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'cursor_update',
+      payload: {
+        userId: user.id,
+        username: user.email?.split('@')[0] || 'Anonymous',
+        fileId,
+        anchor: toRelative(selection.selectionStartLineNumber, selection.selectionStartColumn),
+        head: toRelative(selection.positionLineNumber, selection.positionColumn),
+      },
+    });
+  }, [editor]);
+
+  const broadcastCursorRef = useRef(broadcastCursor);
+  broadcastCursorRef.current = broadcastCursor;
+
+  // Documents belong to a single project
+  useEffect(() => {
+    const docs = docsRef.current;
+    const unsyncedUpdates = unsyncedUpdatesRef.current;
+    return () => {
+      docs.forEach((state) => state.doc.destroy());
+      docs.clear();
+      unsyncedUpdates.clear();
+    };
+  }, [projectId]);
+
+  // The browser knows about lost connectivity before the socket times out
+  useEffect(() => {
+    const handleOffline = () => {
+      isConnectedRef.current = false;
+      setConnectionStatus('offline');
+    };
+    const handleOnline = () => {
+      setConnectionStatus((status) => (status === 'offline' ? 'connecting' : status));
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
 
-  // Subscribe to realtime code changes via broadcast
+  // Subscribe to document updates via broadcast
   useEffect(() => {
-    if (!projectId || !user) return;
+    if (!projectId || !userId) return;
 
+    const docs = docsRef.current;
+    // Private, so only people with access to the project can join
     const channel = supabase.channel(`code:${projectId}`, {
       config: {
+        private: true,
         broadcast: { self: false },
-        presence: { key: user.id },
+        presence: { key: userId },
       },
     });
 
-    interface CodePayload {
-      code: string;
+    interface DocUpdatePayload {
+      fileId: string;
+      userId: string;
+      update: string;
+    }
+
+    interface DocSyncRequestPayload {
+      fileId: string;
       userId: string;
-      fileId: string | null;
+    }
+
+    interface DocSyncResponsePayload {
+      fileId: string;
+      userId: string;
+      toUserId: string;
+      update: string;
+      pristine: boolean;
+      seedId: number;
+      seededAt: string;
+    }
+
+    interface FileSavedPayload {
+      fileId: string;
+      userId: string;
+      version: number;
+      content: string;
+      stateVector: string;
     }
 
     interface PresencePayload {
@@ -56,22 +319,121 @@ export function useRealtimeCode({
       avatar_url?: string;
       isTyping?: boolean;
       currentFile?: string;
+      currentFileId?: string;
+      viewport?: UserViewport;
     }
 
-    // Listen for code broadcasts from other users
-    channel.on('broadcast', { event: 'code_update' }, (payload) => {
-      const data = payload.payload as CodePayload;
-      // Only update if same file and from different user
-      if (data.userId !== user.id && data.fileId === currentFileId) {
-        console.log('[Realtime] Received code update from:', data.userId);
-        isLocalChangeRef.current = true;
-        onCodeChange(data.code);
-        setTimeout(() => {
-          isLocalChangeRef.current = false;
-        }, 50);
+    // Merge incremental updates from other users
+    channel.on('broadcast', { event: 'doc_update' }, (payload) => {
+      const data = payload.payload as DocUpdatePayload;
+      const state = docs.get(data.fileId);
+      if (!state || data.userId === userId) return;
+
+      Y.applyUpdate(state.doc, decodeUpdate(data.update), REMOTE_ORIGIN);
+
+      // Missing history means we joined from a different base, fetch full state
+      if (state.doc.store.pendingStructs) {
+        requestSync(data.fileId);
       }
     });
 
+    // Answer peers opening a file with our full document state
+    channel.on('broadcast', { event: 'doc_sync_request' }, (payload) => {
+      const data = payload.payload as DocSyncRequestPayload;
+      const state = docs.get(data.fileId);
+      if (!state || data.userId === userId) return;
+
+      channel.send({
+        type: 'broadcast',
+        event: 'doc_sync_response',
+        payload: {
+          fileId: data.fileId,
+          userId,
+          toUserId: data.userId,
+          update: encodeUpdate(Y.encodeStateAsUpdate(state.doc)),
+          pristine: state.pristine,
+          seedId: state.seedId,
+          seededAt: state.seededAt,
+        },
+      });
+    });
+
+    channel.on('broadcast', { event: 'doc_sync_response' }, (payload) => {
+      const data = payload.payload as DocSyncResponsePayload;
+      const state = docs.get(data.fileId);
+      if (!state || data.toUserId !== userId) return;
+
+      const update = decodeUpdate(data.update);
+
+      if (data.seedId === state.seedId) {
+        Y.applyUpdate(state.doc, update, REMOTE_ORIGIN);
+        return;
+      }
+
+      // Both sides were seeded from different saves. Merging would duplicate
+      // the text, so the untouched side adopts the other document instead.
+      if (!state.pristine) return;
+      const remoteIsNewer = !data.pristine
+        || data.seededAt > state.seededAt
+        || (data.seededAt === state.seededAt && data.userId > userId);
+      if (!remoteIsNewer) return;
+
+      const doc = new Y.Doc();
+      Y.applyUpdate(doc, update, REMOTE_ORIGIN);
+      state.doc.destroy();
+      registerDoc(data.fileId, {
+        doc,
+        pristine: false,
+        seedId: data.seedId,
+        seededAt: data.seededAt,
+      });
+      setDocEpoch((epoch) => epoch + 1);
+    });
+
+    // Adopt a peer's saved version if our document has seen everything in it
+    channel.on('broadcast', { event: 'file_saved' }, (payload) => {
+      const data = payload.payload as FileSavedPayload;
+      const state = docs.get(data.fileId);
+      if (!state || data.userId === userId) return;
+
+      const ours = Y.decodeStateVector(Y.encodeStateVector(state.doc));
+      const saved = Y.decodeStateVector(decodeUpdate(data.stateVector));
+      const includesSave = [...saved].every(([client, clock]) => (ours.get(client) ?? 0) >= clock);
+      if (includesSave) {
+        onRemoteSaveRef.current?.(data.fileId, data.version, data.content);
+      }
+    });
+
+    // Runs of other users, so everyone sees the same output
+    const runEvents: RunBroadcast['type'][] = ['run_started', 'run_output', 'run_finished'];
+    runEvents.forEach((event) => {
+      channel.on('broadcast', { event }, (payload) => {
+        onRunEventRef.current?.(payload.payload as RunBroadcast);
+      });
+    });
+
+    // Membership changes, sent by the database when the owner changes a role
+    // or removes someone. Anyone on the channel could send these too, so the
+    // receiver checks its own access before acting on them.
+    const memberEvents: MemberChange['type'][] = ['member_removed', 'member_role_changed'];
+    memberEvents.forEach((event) => {
+      channel.on('broadcast', { event }, (payload) => {
+        const change = payload.payload as MemberChange;
+        // Realtime checks the channel's policies when joining, not for every
+        // message, so join again to be held to our current access
+        if (change.userId === userId) setChannelEpoch((epoch) => epoch + 1);
+        onMemberChangeRef.current?.(change);
+      });
+    });
+
+    channel.on('broadcast', { event: 'cursor_update' }, (payload) => {
+      const data = payload.payload as CursorState;
+      if (data.userId === userId) return;
+
+      cursorsRef.current.set(data.userId, data);
+      renderCursors();
+    });
+
     // Handle presence for showing active users
     channel
       .on('presence', { event: 'sync' }, () => {
@@ -81,21 +443,38 @@ export function useRealtimeCode({
       })
       .on('presence', { event: 'join' }, ({ newPresences }) => {
         console.log('[Presence] User joined:', newPresences);
+        // Let newcomers see where we are without waiting for us to move
+        broadcastCursorRef.current();
       })
       .on('presence', { event: 'leave' }, ({ leftPresences }) => {
         console.log('[Presence] User left:', leftPresences);
+        leftPresences.forEach((presence) => cursorsRef.current.delete(presence.id));
+        renderCursors();
       });
 
-    channel.subscribe(async (status) => {
+    channel.subscribe((status) => {
       if (status === 'SUBSCRIBED') {
-        await channel.track({
-          id: user.id,
-          username: user.email?.split('@')[0] || 'Anonymous',
-          avatar_url: user.user_metadata?.avatar_url,
-          isTyping: false,
-          currentFile: currentFileName || undefined,
-        });
+        isConnectedRef.current = true;
+        setConnectionStatus('connected');
+        trackPresence(false);
         console.log('[Realtime] Subscribed to channel:', `code:${projectId}`);
+
+        // Replay edits made while disconnected, peers merge them into their documents
+        unsyncedUpdatesRef.current.forEach((updates, fileId) => {
+          channel.send({
+            type: 'broadcast',
+            event: 'doc_update',
+            payload: { fileId, userId, update: encodeUpdate(Y.mergeUpdates(updates)) },
+          });
+        });
+        unsyncedUpdatesRef.current.clear();
+
+        // Catch up on anything missed while (re)connecting
+        docs.forEach((_, fileId) => requestSync(fileId));
+      } else {
+        console.log('[Realtime] Channel status:', status);
+        isConnectedRef.current = false;
+        setConnectionStatus(navigator.onLine ? 'connecting' : 'offline');
       }
     });
 
@@ -103,76 +482,189 @@ export function useRealtimeCode({
 
     return () => {
       console.log('[Realtime] Unsubscribing from channel');
+      isConnectedRef.current = false;
       supabase.removeChannel(channel);
       channelRef.current = null;
     };
-  }, [projectId, user, currentFileId, currentFileName, onCodeChange]);
+  }, [projectId, userId, channelEpoch, registerDoc, requestSync, trackPresence, renderCursors]);
 
   // Update presence when file changes
   useEffect(() => {
-    if (!channelRef.current || !user) return;
-    
-    channelRef.current.track({
-      id: user.id,
-      username: user.email?.split('@')[0] || 'Anonymous',
-      avatar_url: user.user_metadata?.avatar_url,
-      isTyping: false,
-      currentFile: currentFileName || undefined,
-    });
-  }, [currentFileName, user]);
+    trackPresence(false);
+  }, [currentFileName, trackPresence]);
+
+  // Remote cursors are drawn into whichever editor is mounted
+  useEffect(() => {
+    if (!editor) return;
 
-  // Broadcast code changes to other users
-  const broadcastCode = useCallback((code: string) => {
-    if (!channelRef.current || !user || isLocalChangeRef.current) return;
-    
-    // Avoid broadcasting the same code twice
-    if (code === lastBroadcastRef.current) return;
-    lastBroadcastRef.current = code;
+    const renderer = new RemoteCursorRenderer(editor);
+    cursorRendererRef.current = renderer;
+    renderCursors();
 
-    // Set typing indicator
-    channelRef.current.track({
-      id: user.id,
-      username: user.email?.split('@')[0] || 'Anonymous',
-      avatar_url: user.user_metadata?.avatar_url,
-      isTyping: true,
-      currentFile: currentFileName || undefined,
+    // Throttle cursor broadcasts while selecting or typing
+    const selectionListener = editor.onDidChangeCursorSelection(() => {
+      if (cursorTimeoutRef.current) return;
+      cursorTimeoutRef.current = setTimeout(() => {
+        cursorTimeoutRef.current = undefined;
+        broadcastCursorRef.current();
+      }, 50);
     });
 
-    // Clear typing after delay
-    if (typingTimeoutRef.current) {
-      clearTimeout(typingTimeoutRef.current);
-    }
-    typingTimeoutRef.current = setTimeout(() => {
-      if (channelRef.current && user) {
-        channelRef.current.track({
-          id: user.id,
-          username: user.email?.split('@')[0] || 'Anonymous',
-          avatar_url: user.user_metadata?.avatar_url,
-          isTyping: false,
-          currentFile: currentFileName || undefined,
-        });
-      }
-    }, 1500);
+    // Publish the visible lines so others can follow along
+    const updateViewport = () => {
+      const [range] = editor.getVisibleRanges();
+      if (!range) return;
+      viewportRef.current = { startLine: range.startLineNumber, endLine: range.endLineNumber };
 
-    channelRef.current.send({
-      type: 'broadcast',
-      event: 'code_update',
-      payload: { code, userId: user.id, fileId: currentFileId },
+      if (viewportTimeoutRef.current) return;
+      viewportTimeoutRef.current = setTimeout(() => {
+        viewportTimeoutRef.current = undefined;
+        trackPresence(isTypingRef.current);
+      }, 200);
+    };
+    const scrollListener = editor.onDidScrollChange(updateViewport);
+    updateViewport();
+
+    return () => {
+      selectionListener.dispose();
+      scrollListener.dispose();
+      renderer.dispose();
+      cursorRendererRef.current = null;
+    };
+  }, [editor, renderCursors, trackPresence]);
+
+  // Bind the editor model to the shared document of the open file
+  useEffect(() => {
+    const model = editor?.getModel();
+    const file = currentFileRef.current;
+    if (!model || !file || !projectId || !userId) return;
+
+    const state = ensureDoc(file);
+    const ytext = getSharedText(state.doc);
+    const handleTextChange = () => {
+      onCodeChangeRef.current(ytext.toString());
+      // Remote cursors follow the text they are anchored to
+      renderCursors();
+    };
+
+    const binding = new MonacoBinding(ytext, model, () => {
+      // Set typing indicator and clear it after a delay
+      trackPresence(true);
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+      }
+      typingTimeoutRef.current = setTimeout(() => trackPresence(false), 1500);
     });
-  }, [user, currentFileId, currentFileName]);
+    ytext.observe(handleTextChange);
+    bindingRef.current = binding;
+    handleTextChange();
+    broadcastCursorRef.current();
 
-  // Cleanup typing timeout
+    return () => {
+      ytext.unobserve(handleTextChange);
+      binding.destroy();
+      bindingRef.current = null;
+    };
+  }, [editor, currentFileId, docEpoch, projectId, userId, ensureDoc, trackPresence, renderCursors]);
+
+  // Cleanup typing, cursor and viewport timeouts
   useEffect(() => {
     return () => {
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
       }
+      if (cursorTimeoutRef.current) {
+        clearTimeout(cursorTimeoutRef.current);
+      }
+      if (viewportTimeoutRef.current) {
+        clearTimeout(viewportTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  // True while an edit from another user is being applied to the editor
+  const isRemoteChange = useCallback(() => {
+    return bindingRef.current?.isApplyingRemote ?? false;
+  }, []);
+
+  // Replace a file's text for everyone, e.g. when restoring a revision
+  const replaceFileContent = useCallback((file: CollaborativeFile, content: string) => {
+    const { doc } = ensureDoc(file);
+    const ytext = getSharedText(doc);
+    doc.transact(() => {
+      ytext.delete(0, ytext.length);
+      ytext.insert(0, content);
+    });
+  }, [ensureDoc]);
+
+  // Latest text of a file that has a shared document, including edits not saved yet
+  const getFileContent = useCallback((fileId: string) => {
+    const state = docsRef.current.get(fileId);
+    return state ? getSharedText(state.doc).toString() : undefined;
+  }, []);
+
+  // Keep a file's shared document live without opening it, so getFileContent
+  // follows everyone's edits to it
+  const trackFile = useCallback((file: CollaborativeFile) => {
+    ensureDoc(file);
+  }, [ensureDoc]);
+
+  // Be told about every local or remote change to a shared document
+  const subscribeToChanges = useCallback((listener: (fileId: string) => void) => {
+    const listeners = changeListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
     };
   }, []);
 
+  // State vector of a file's shared document, if it holds exactly this content
+  const getStateVector = useCallback((fileId: string, content: string) => {
+    const state = docsRef.current.get(fileId);
+    if (!state || getSharedText(state.doc).toString() !== content) return undefined;
+    return encodeUpdate(Y.encodeStateVector(state.doc));
+  }, []);
+
+  // Tell others which version we saved, so their next save is not seen as stale.
+  // The state vector is the one the content was saved from, peers whose
+  // document includes it know the saved content is part of theirs.
+  const announceSave = useCallback((save: SavedVersion) => {
+    if (!channelRef.current || !userId || !save.stateVector) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'file_saved',
+      payload: {
+        fileId: save.fileId,
+        userId,
+        version: save.version,
+        content: save.content,
+        stateVector: save.stateVector,
+      },
+    });
+  }, [userId]);
+
+  // Share the progress of our own code run with everyone in the project
+  const broadcastRun = useCallback((message: RunBroadcast) => {
+    if (!channelRef.current) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: message.type,
+      payload: message,
+    });
+  }, []);
+
   return {
     activeUsers,
-    broadcastCode,
-    isRemoteChange: isLocalChangeRef.current,
+    connectionStatus,
+    isRemoteChange,
+    replaceFileContent,
+    getFileContent,
+    trackFile,
+    subscribeToChanges,
+    getStateVector,
+    announceSave,
+    broadcastRun,
   };
 }
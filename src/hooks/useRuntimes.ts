@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+// A version of a language the execution backend can run
+export interface Runtime {
+  language: string;
+  version: string;
+  // Used by projects that have not chosen a version
+  default: boolean;
+}
+
+// Versions chosen in a project's settings, by language
+export type RuntimeVersions = Record<string, string>;
+
+/** Runtimes of the execution backend, fetched once per session since they rarely change. */
+export function useRuntimes() {
+  return useQuery({
+    queryKey: ['runtimes'],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('execute-code/runtimes', { method: 'GET' });
+      if (error) throw error;
+      return data.runtimes as Runtime[];
+    },
+    staleTime: Infinity,
+  });
+}
+
+/** The version a language runs with: the project's choice, else the backend's default. */
+export function getActiveVersion(
+  runtimes: Runtime[] | undefined,
+  chosen: RuntimeVersions,
+  language: string,
+): string | null {
+  return chosen[language] ?? runtimes?.find((r) => r.language === language && r.default)?.version ?? null;
+}
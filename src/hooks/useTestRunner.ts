@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { ExecutionReport } from '@/hooks/useCodeRuns';
+import { parseArgs } from '@/lib/commandLine';
+import { RunLimitError, readRunError } from '@/lib/runLimits';
+import { TestCase, compareOutput } from '@/lib/testCases';
+
+export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error';
+
+export interface TestResult {
+  status: TestStatus;
+  // What the program printed, compared with the expected output
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  wallTime: number | null;
+  // Why the test failed or could not run
+  message: string | null;
+}
+
+// What a test runs with, the rest of the request is the project's code
+export interface TestInput {
+  stdin: string;
+  args: string[];
+}
+
+const PENDING: TestResult = {
+  status: 'pending',
+  stdout: '',
+  stderr: '',
+  exitCode: null,
+  wallTime: null,
+  message: null,
+};
+
+function checkReport(testCase: TestCase, report: ExecutionReport): TestResult {
+  const { compile, run } = report;
+  if (compile && compile.code !== 0) {
+    return {
+      ...PENDING,
+      status: 'error',
+      stderr: compile.stdout + compile.stderr,
+      exitCode: compile.code,
+      message: 'Compilation failed',
+    };
+  }
+  if (!run) {
+    return { ...PENDING, status: 'error', message: 'The program did not run' };
+  }
+
+  const result = {
+    ...PENDING,
+    stdout: run.stdout,
+    stderr: run.stderr,
+    exitCode: run.code,
+    wallTime: run.wallTime,
+  };
+  if (run.signal || run.code !== 0) {
+    return {
+      ...result,
+      status: 'failed',
+      message: run.signal ? `Killed by ${run.signal}` : `Exited with code ${run.code}`,
+    };
+  }
+
+  const comparison = compareOutput(run.stdout, testCase.expected_stdout, testCase.comparison, testCase.tolerance);
+  return { ...result, status: comparison.passed ? 'passed' : 'failed', message: comparison.message };
+}
+
+/**
+ * Run test cases one after another through execute-code and check each
+ * program's stdout. A compilation error or a reached run limit fails the
+ * remaining tests without running them, since they would all hit it again.
+ * Test runs count against the limits but stay out of the run history.
+ */
+export function useTestRunner(projectId: string) {
+  const [results, setResults] = useState<Record<string, TestResult>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const setResult = (id: string, result: TestResult) => {
+    setResults((prev) => ({ ...prev, [id]: result }));
+  };
+
+  const runTests = useCallback(async (
+    testCases: TestCase[],
+    getBody: (input: TestInput) => Record<string, unknown>,
+  ) => {
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setResults(Object.fromEntries(testCases.map((testCase) => [testCase.id, PENDING])));
+
+    let repeatedFailure: TestResult | null = null;
+    try {
+      for (const testCase of testCases) {
+        if (cancelledRef.current) break;
+        if (repeatedFailure) {
+          setResult(testCase.id, repeatedFailure);
+          continue;
+        }
+
+        setResult(testCase.id, { ...PENDING, status: 'running' });
+        let result: TestResult;
+        try {
+          const { data, error } = await supabase.functions.invoke('execute-code', {
+            body: {
+              ...getBody({ stdin: testCase.stdin, args: parseArgs(testCase.args) }),
+              projectId,
+              record: false,
+            },
+          });
+
+          if (error instanceof FunctionsHttpError) {
+            const failure = await readRunError(error.context);
+            result = { ...PENDING, status: 'error', message: failure.message };
+            if (failure instanceof RunLimitError) repeatedFailure = result;
+          } else if (error) {
+            result = { ...PENDING, status: 'error', message: error.message };
+          } else if (data.error) {
+            result = { ...PENDING, status: 'error', message: data.error };
+          } else {
+            const report: ExecutionReport = data.result;
+            result = checkReport(testCase, report);
+            if (report.compile && report.compile.code !== 0) repeatedFailure = result;
+          }
+        } catch (err) {
+          result = { ...PENDING, status: 'error', message: err instanceof Error ? err.message : String(err) };
+        }
+        setResult(testCase.id, result);
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  }, [projectId]);
+
+  // Tests not started yet stay pending
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+    };
+  }, []);
+
+  return { results, isRunning, runTests, cancel };
+}
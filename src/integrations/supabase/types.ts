@@ -69,6 +69,214 @@ export type Database = {
           },
         ]
       }
+      code_run_snapshots: {
+        Row: {
+          created_at: string
+          files: Json
+          hash: string
+          project_id: string
+        }
+        Insert: {
+          created_at?: string
+          files: Json
+          hash: string
+          project_id: string
+        }
+        Update: {
+          created_at?: string
+          files?: Json
+          hash?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_run_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      code_runs: {
+        Row: {
+          args: string[]
+          author_id: string | null
+          created_at: string
+          entry_path: string | null
+          error: string | null
+          id: string
+          language: string
+          project_id: string
+          result: Json | null
+          snapshot_hash: string
+          started_at: string
+          status: string
+          stdin: string
+        }
+        Insert: {
+          args?: string[]
+          author_id?: string | null
+          created_at?: string
+          entry_path?: string | null
+          error?: string | null
+          id?: string
+          language: string
+          project_id: string
+          result?: Json | null
+          snapshot_hash: string
+          started_at?: string
+          status: string
+          stdin?: string
+        }
+        Update: {
+          args?: string[]
+          author_id?: string | null
+          created_at?: string
+          entry_path?: string | null
+          error?: string | null
+          id?: string
+          language?: string
+          project_id?: string
+          result?: Json | null
+          snapshot_hash?: string
+          started_at?: string
+          status?: string
+          stdin?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "code_runs_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "code_runs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "code_runs_project_id_snapshot_hash_fkey"
+            columns: ["project_id", "snapshot_hash"]
+            isOneToOne: false
+            referencedRelation: "code_run_snapshots"
+            referencedColumns: ["project_id", "hash"]
+          },
+        ]
+      }
+      execution_limits: {
+        Row: {
+          per_day: number
+          per_minute: number
+          scope: string
+          updated_at: string
+        }
+        Insert: {
+          per_day: number
+          per_minute: number
+          scope: string
+          updated_at?: string
+        }
+        Update: {
+          per_day?: number
+          per_minute?: number
+          scope?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      execution_usage: {
+        Row: {
+          created_at: string
+          id: number
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "execution_usage_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "execution_usage_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_revisions: {
+        Row: {
+          author_id: string | null
+          content: string
+          created_at: string
+          file_id: string
+          id: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          file_id: string
+          id?: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          author_id?: string | null
+          content?: string
+          created_at?: string
+          file_id?: string
+          id?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_revisions_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "project_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -97,6 +305,7 @@ export type Database = {
         Row: {
           id: string
           joined_at: string
+          last_active_at: string | null
           project_id: string
           role: Database["public"]["Enums"]["collaborator_role"]
           user_id: string
@@ -104,6 +313,7 @@ export type Database = {
         Insert: {
           id?: string
           joined_at?: string
+          last_active_at?: string | null
           project_id: string
           role?: Database["public"]["Enums"]["collaborator_role"]
           user_id: string
@@ -111,6 +321,7 @@ export type Database = {
         Update: {
           id?: string
           joined_at?: string
+          last_active_at?: string | null
           project_id?: string
           role?: Database["public"]["Enums"]["collaborator_role"]
           user_id?: string
@@ -135,6 +346,7 @@ export type Database = {
       project_files: {
         Row: {
           content: string | null
+          content_version: number
           created_at: string
           id: string
           is_folder: boolean
@@ -146,6 +358,7 @@ export type Database = {
         }
         Insert: {
           content?: string | null
+          content_version?: number
           created_at?: string
           id?: string
           is_folder?: boolean
@@ -157,6 +370,7 @@ export type Database = {
         }
         Update: {
           content?: string | null
+          content_version?: number
           created_at?: string
           id?: string
           is_folder?: boolean
@@ -183,53 +397,294 @@ export type Database = {
           },
         ]
       }
+      project_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          email: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          project_id: string
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["collaborator_role"]
+          token_hash: string
+          use_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          project_id: string
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["collaborator_role"]
+          token_hash: string
+          use_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          project_id?: string
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["collaborator_role"]
+          token_hash?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_invites_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_join_attempts: {
+        Row: {
+          created_at: string
+          id: number
+          invite_id: string | null
+          project_id: string | null
+          role: Database["public"]["Enums"]["collaborator_role"] | null
+          room_code: string
+          succeeded: boolean
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          invite_id?: string | null
+          project_id?: string | null
+          role?: Database["public"]["Enums"]["collaborator_role"] | null
+          room_code: string
+          succeeded: boolean
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          invite_id?: string | null
+          project_id?: string | null
+          role?: Database["public"]["Enums"]["collaborator_role"] | null
+          room_code?: string
+          succeeded?: boolean
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_join_attempts_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "project_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_join_attempts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_join_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_passwords: {
+        Row: {
+          edit_password_hash: string | null
+          full_access_password_hash: string | null
+          project_id: string
+          updated_at: string
+          view_password_hash: string | null
+        }
+        Insert: {
+          edit_password_hash?: string | null
+          full_access_password_hash?: string | null
+          project_id: string
+          updated_at?: string
+          view_password_hash?: string | null
+        }
+        Update: {
+          edit_password_hash?: string | null
+          full_access_password_hash?: string | null
+          project_id?: string
+          updated_at?: string
+          view_password_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_passwords_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_removed_members: {
+        Row: {
+          project_id: string
+          removed_at: string
+          user_id: string
+        }
+        Insert: {
+          project_id: string
+          removed_at?: string
+          user_id: string
+        }
+        Update: {
+          project_id?: string
+          removed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_removed_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_removed_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_test_cases: {
+        Row: {
+          args: string
+          comparison: string
+          created_at: string
+          created_by: string | null
+          expected_stdout: string
+          id: string
+          name: string
+          position: number
+          project_id: string
+          stdin: string
+          tolerance: number
+          updated_at: string
+        }
+        Insert: {
+          args?: string
+          comparison?: string
+          created_at?: string
+          created_by?: string | null
+          expected_stdout?: string
+          id?: string
+          name: string
+          position?: number
+          project_id: string
+          stdin?: string
+          tolerance?: number
+          updated_at?: string
+        }
+        Update: {
+          args?: string
+          comparison?: string
+          created_at?: string
+          created_by?: string | null
+          expected_stdout?: string
+          id?: string
+          name?: string
+          position?: number
+          project_id?: string
+          stdin?: string
+          tolerance?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_test_cases_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_test_cases_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           code: string | null
           created_at: string
-          edit_password: string | null
-          full_access_password: string | null
+          entry_file_id: string | null
+          execution_mode: string
           id: string
           is_public: boolean
           language: string
           name: string
           owner_id: string
           room_code: string | null
-          room_password: string | null
+          runtime_versions: Json
           updated_at: string
-          view_password: string | null
         }
         Insert: {
           code?: string | null
           created_at?: string
-          edit_password?: string | null
-          full_access_password?: string | null
+          entry_file_id?: string | null
+          execution_mode?: string
           id?: string
           is_public?: boolean
           language?: string
           name: string
           owner_id: string
           room_code?: string | null
-          room_password?: string | null
+          runtime_versions?: Json
           updated_at?: string
-          view_password?: string | null
         }
         Update: {
           code?: string | null
           created_at?: string
-          edit_password?: string | null
-          full_access_password?: string | null
+          entry_file_id?: string | null
+          execution_mode?: string
           id?: string
           is_public?: boolean
           language?: string
           name?: string
           owner_id?: string
           room_code?: string | null
-          room_password?: string | null
+          runtime_versions?: Json
           updated_at?: string
-          view_password?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "projects_entry_file_id_fkey"
+            columns: ["entry_file_id"]
+            isOneToOne: false
+            referencedRelation: "project_files"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "projects_owner_id_fkey"
             columns: ["owner_id"]
@@ -239,25 +694,169 @@ export type Database = {
           },
         ]
       }
+      run_input_sets: {
+        Row: {
+          args: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          project_id: string
+          stdin: string
+          updated_at: string
+        }
+        Insert: {
+          args?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          project_id: string
+          stdin?: string
+          updated_at?: string
+        }
+        Update: {
+          args?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          project_id?: string
+          stdin?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "run_input_sets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "run_input_sets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_invite: {
+        Args: { _token: string }
+        Returns: {
+          project_id: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+          status: string
+        }[]
+      }
+      can_use_project_channel: { Args: { _topic: string }; Returns: boolean }
+      check_room_password: {
+        Args: { _password: string; _room_code: string }
+        Returns: {
+          is_owner: boolean
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+        }[]
+      }
+      consume_execution_quota: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: Json
+      }
+      create_project_invite: {
+        Args: {
+          _email?: string
+          _expires_at?: string
+          _max_uses?: number
+          _project_id: string
+          _role: Database["public"]["Enums"]["collaborator_role"]
+        }
+        Returns: {
+          invite_id: string
+          token: string
+        }[]
+      }
       generate_room_code: { Args: never; Returns: string }
+      generate_room_password: { Args: never; Returns: string }
       get_collaborator_role: {
         Args: { _project_id: string; _user_id: string }
         Returns: Database["public"]["Enums"]["collaborator_role"]
       }
+      get_invite: {
+        Args: { _token: string }
+        Returns: {
+          email_restricted: boolean
+          expires_at: string
+          is_owner: boolean
+          max_uses: number
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+          status: string
+        }[]
+      }
+      get_invite_status: {
+        Args: { _invite: Database["public"]["Tables"]["project_invites"]["Row"] }
+        Returns: string
+      }
       get_role_from_password: {
         Args: { _password: string; _project_id: string }
         Returns: Database["public"]["Enums"]["collaborator_role"]
       }
+      get_room_access: {
+        Args: { _password: string; _room_code: string }
+        Returns: {
+          is_owner: boolean
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+        }[]
+      }
+      hash_invite_token: { Args: { _token: string }; Returns: string }
       is_project_owner: {
         Args: { _project_id: string; _user_id: string }
         Returns: boolean
       }
       is_project_public: { Args: { _project_id: string }; Returns: boolean }
+      join_locked_until: {
+        Args: { _failures: number; _latest: string; _threshold: number }
+        Returns: string
+      }
+      join_project: {
+        Args: { _password: string; _room_code: string }
+        Returns: {
+          project_id: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+        }[]
+      }
+      record_project_activity: {
+        Args: { _project_id: string }
+        Returns: undefined
+      }
+      reset_project_passwords: {
+        Args: {
+          _project_id: string
+          _role?: Database["public"]["Enums"]["collaborator_role"]
+        }
+        Returns: {
+          password: string
+          role: Database["public"]["Enums"]["collaborator_role"]
+        }[]
+      }
+      save_file_content: {
+        Args: { _content: string; _expected_version: number; _file_id: string }
+        Returns: {
+          current_content: string
+          current_version: number
+          saved: boolean
+        }[]
+      }
     }
     Enums: {
       collaborator_role: "view" | "edit" | "full_access"
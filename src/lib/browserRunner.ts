@@ -0,0 +1,168 @@
+import type { Diagnostic } from '@/lib/diagnostics';
+import typescriptUrl from 'typescript/lib/typescript.js?url';
+
+// Where a project's JavaScript and TypeScript runs, set per project
+export type ExecutionMode = 'server' | 'local';
+
+// Languages the browser can run itself
+export const BROWSER_LANGUAGES = ['javascript', 'typescript'];
+
+// The project's own compiler, shipped as an asset of the app so local runs
+// work offline and on self-hosted installs. The worker loads it on demand.
+const TYPESCRIPT_URL = typescriptUrl;
+
+// Characters of stdout and of stderr kept per stage, as on the server
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// Loading the compiler and transpiling may take a while on a slow connection
+const PREPARE_TIMEOUT = 30000;
+// Limits of the run stage: time until the program is killed, and how long it
+// may keep the worker busy without yielding
+const RUN_TIMEOUT = 15000;
+const CPU_TIMEOUT = 5000;
+// How often the worker reports that it is responsive, and how often that is checked.
+// Output does not count, a loop that only prints still hogs the CPU.
+const HEARTBEAT_INTERVAL = 100;
+const WATCHDOG_INTERVAL = 250;
+
+// Single-file code runs as the language's default file name
+const DEFAULT_FILENAMES: Record<string, string> = {
+  javascript: 'main.js',
+  typescript: 'main.ts',
+};
+
+export type BrowserStage = 'compile' | 'run';
+
+// What the worker is asked to run, and with which limits
+export interface BrowserRunRequest {
+  files: { path: string; content: string }[];
+  entry: string;
+  stdin: string;
+  args: string[];
+  typescriptUrl: string;
+  maxOutputLength: number;
+  heartbeatInterval: number;
+}
+
+// Events of a browser run, shaped like those of the execute-code stream
+export type BrowserRunEvent =
+  | { type: 'start'; stage: BrowserStage }
+  | { type: 'stdout' | 'stderr'; stage: BrowserStage; data: string }
+  | {
+      type: 'exit';
+      stage: BrowserStage;
+      code: number | null;
+      signal: string | null;
+      wallTime: number | null;
+      memory: number | null;
+      truncated: boolean;
+    }
+  | { type: 'diagnostics'; diagnostics: Diagnostic[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+// What the worker posts: run events, plus heartbeats for the watchdog
+export type WorkerMessage = BrowserRunEvent | { type: 'heartbeat' };
+
+/** Whether code of this language runs in the browser for a project set to local execution. */
+export function canRunInBrowser(language: string | undefined, mode: ExecutionMode | undefined): boolean {
+  return mode === 'local' && !!language && BROWSER_LANGUAGES.includes(language);
+}
+
+/**
+ * Run an execute-code request body in a Web Worker instead of on the server.
+ * The worker is killed when it runs too long, when it keeps the thread busy
+ * past the CPU limit, and when the signal aborts. Resolves once the run ended.
+ */
+export function runInBrowser(
+  body: Record<string, unknown>,
+  onEvent: (event: BrowserRunEvent) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  const language = String(body.language ?? '');
+  const singleFile = DEFAULT_FILENAMES[language] ?? 'main.js';
+  const request: BrowserRunRequest = {
+    files: (body.files as BrowserRunRequest['files']) ?? [{ path: singleFile, content: String(body.code ?? '') }],
+    entry: (body.entry as string) ?? singleFile,
+    stdin: String(body.stdin ?? ''),
+    args: (body.args as string[]) ?? [],
+    typescriptUrl: TYPESCRIPT_URL,
+    maxOutputLength: MAX_OUTPUT_LENGTH,
+    heartbeatInterval: HEARTBEAT_INTERVAL,
+  };
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('../workers/codeRunner.worker.ts', import.meta.url));
+    let stage: BrowserStage | null = null;
+    let stageStartedAt = performance.now();
+    let runStartedAt: number | null = null;
+    let lastHeartbeat = performance.now();
+    const startedAt = performance.now();
+
+    const finish = () => {
+      clearInterval(watchdog);
+      signal.removeEventListener('abort', finish);
+      worker.terminate();
+      resolve();
+    };
+
+    // Report the program as killed in the stage it was in
+    const kill = (reason: string, killSignal: string) => {
+      if (stage) {
+        onEvent({ type: 'stderr', stage, data: `\n${reason}\n` });
+        onEvent({
+          type: 'exit',
+          stage,
+          code: null,
+          signal: killSignal,
+          wallTime: Math.round(performance.now() - stageStartedAt),
+          memory: null,
+          truncated: false,
+        });
+      } else {
+        onEvent({ type: 'error', error: reason });
+      }
+      finish();
+    };
+
+    const watchdog = setInterval(() => {
+      const now = performance.now();
+      if (runStartedAt === null) {
+        if (now - startedAt > PREPARE_TIMEOUT) kill('Preparing the program took too long', 'SIGKILL');
+      } else if (now - runStartedAt > RUN_TIMEOUT) {
+        kill(`Killed: the program ran for more than ${RUN_TIMEOUT / 1000} s`, 'SIGKILL');
+      } else if (now - lastHeartbeat > CPU_TIMEOUT) {
+        kill(`Killed: the program kept the CPU busy for more than ${CPU_TIMEOUT / 1000} s`, 'SIGXCPU');
+      }
+    }, WATCHDOG_INTERVAL);
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'heartbeat':
+          lastHeartbeat = performance.now();
+          return;
+        case 'start':
+          stage = message.stage;
+          stageStartedAt = performance.now();
+          if (message.stage === 'run') runStartedAt = lastHeartbeat = stageStartedAt;
+          break;
+        case 'done':
+        case 'error':
+          onEvent(message);
+          finish();
+          return;
+      }
+      onEvent(message);
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      onEvent({ type: 'error', error: event.message || 'The browser could not start the program' });
+      finish();
+    };
+
+    signal.addEventListener('abort', finish);
+    worker.postMessage(request);
+  });
+}
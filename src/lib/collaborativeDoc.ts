@@ -0,0 +1,152 @@
+import * as Y from 'yjs';
+import type { OnMount } from '@monaco-editor/react';
+
+export type MonacoEditor = Parameters<OnMount>[0];
+export type MonacoModel = NonNullable<ReturnType<MonacoEditor['getModel']>>;
+
+// Transaction origin used for updates received over the realtime channel
+export const REMOTE_ORIGIN = 'remote';
+
+// Every file document keeps its text under this key
+const TEXT_KEY = 'content';
+
+export function getSharedText(doc: Y.Doc): Y.Text {
+  return doc.getText(TEXT_KEY);
+}
+
+// Derive a stable 32-bit client id from the seed content
+export function getSeedId(content: string): number {
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    hash = content.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a document seeded with the persisted file content. The seed is
+ * written under a client id derived from the content, so peers that seed
+ * from the same text produce identical operations that merge cleanly.
+ */
+export function createFileDoc(content: string): Y.Doc {
+  const doc = new Y.Doc();
+  if (content) {
+    const clientID = doc.clientID;
+    doc.clientID = getSeedId(content);
+    getSharedText(doc).insert(0, content);
+    doc.clientID = clientID;
+  }
+  return doc;
+}
+
+export function encodeUpdate(update: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < update.length; i++) {
+    binary += String.fromCharCode(update[i]);
+  }
+  return btoa(binary);
+}
+
+export function decodeUpdate(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const update = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    update[i] = binary.charCodeAt(i);
+  }
+  return update;
+}
+
+/**
+ * Two-way binding between a shared Y.Text and a Monaco text model.
+ * Local edits are applied to the shared text, remote edits are applied
+ * to the model without being echoed back.
+ */
+export class MonacoBinding {
+  private applyingRemote = false;
+  private readonly contentListener: { dispose: () => void };
+
+  constructor(
+    private readonly ytext: Y.Text,
+    private readonly model: MonacoModel,
+    private readonly onLocalChange?: () => void,
+  ) {
+    // Bring the model in line with the shared text before listening
+    const text = ytext.toString();
+    if (model.getValue() !== text) {
+      this.applyRemote(() => {
+        model.applyEdits([{ range: model.getFullModelRange(), text }]);
+      });
+    }
+
+    ytext.observe(this.handleTextChange);
+    this.contentListener = model.onDidChangeContent((event) => {
+      if (this.applyingRemote) return;
+
+      ytext.doc?.transact(() => {
+        // Apply from the end of the document so earlier offsets stay valid
+        [...event.changes]
+          .sort((a, b) => b.rangeOffset - a.rangeOffset)
+          .forEach((change) => {
+            ytext.delete(change.rangeOffset, change.rangeLength);
+            ytext.insert(change.rangeOffset, change.text);
+          });
+      }, this);
+      this.onLocalChange?.();
+    });
+  }
+
+  get isApplyingRemote() {
+    return this.applyingRemote;
+  }
+
+  private applyRemote(apply: () => void) {
+    this.applyingRemote = true;
+    try {
+      apply();
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private handleTextChange = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === this) return;
+
+    this.applyRemote(() => {
+      let index = 0;
+      event.delta.forEach((op) => {
+        if (op.retain !== undefined) {
+          index += op.retain;
+        } else if (typeof op.insert === 'string') {
+          const pos = this.model.getPositionAt(index);
+          this.model.applyEdits([{
+            range: {
+              startLineNumber: pos.lineNumber,
+              startColumn: pos.column,
+              endLineNumber: pos.lineNumber,
+              endColumn: pos.column,
+            },
+            text: op.insert,
+          }]);
+          index += op.insert.length;
+        } else if (op.delete !== undefined) {
+          const start = this.model.getPositionAt(index);
+          const end = this.model.getPositionAt(index + op.delete);
+          this.model.applyEdits([{
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column,
+            },
+            text: '',
+          }]);
+        }
+      });
+    });
+  };
+
+  destroy() {
+    this.ytext.unobserve(this.handleTextChange);
+    this.contentListener.dispose();
+  }
+}
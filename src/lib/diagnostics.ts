@@ -0,0 +1,76 @@
+import type { MonacoEditor } from '@/lib/collaborativeDoc';
+
+type DecorationsCollection = ReturnType<MonacoEditor['createDecorationsCollection']>;
+type Decoration = Parameters<DecorationsCollection['set']>[0][number];
+
+// A compiler message or uncaught error from a run, as located by the
+// execute-code edge function. Lines and columns are 1-based.
+export interface Diagnostic {
+  path: string;
+  line: number;
+  column: number | null;
+  severity: 'error' | 'warning';
+  message: string;
+  source: string;
+}
+
+// Mirrors monaco.editor.OverviewRulerLane.Right
+const OVERVIEW_RULER_RIGHT = 4;
+// Mirrors monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+const NEVER_GROWS = 1;
+
+const SEVERITY_COLORS: Record<Diagnostic['severity'], string> = {
+  error: '#ef4444',
+  warning: '#f59e0b',
+};
+
+/**
+ * Draws diagnostics of the open file into a Monaco editor: squiggles under
+ * the reported word, or the whole line without a column, and a gutter icon.
+ * The editor drops them when it switches to another file.
+ */
+export class DiagnosticRenderer {
+  private readonly decorations: DecorationsCollection;
+
+  constructor(private readonly editor: MonacoEditor) {
+    this.decorations = editor.createDecorationsCollection();
+  }
+
+  render(diagnostics: Diagnostic[]) {
+    const model = this.editor.getModel();
+    if (!model) return;
+
+    const decorations: Decoration[] = [];
+    diagnostics.forEach((diagnostic) => {
+      if (diagnostic.line < 1 || diagnostic.line > model.getLineCount()) return;
+
+      const lineNumber = diagnostic.line;
+      let startColumn = model.getLineFirstNonWhitespaceColumn(lineNumber) || 1;
+      let endColumn = model.getLineMaxColumn(lineNumber);
+      if (diagnostic.column !== null) {
+        const column = Math.min(diagnostic.column, endColumn);
+        const word = model.getWordAtPosition({ lineNumber, column });
+        startColumn = word?.startColumn ?? column;
+        endColumn = word?.endColumn ?? Math.min(column + 1, model.getLineMaxColumn(lineNumber));
+      }
+
+      decorations.push({
+        range: { startLineNumber: lineNumber, startColumn, endLineNumber: lineNumber, endColumn },
+        options: {
+          className: `squiggly-${diagnostic.severity}`,
+          hoverMessage: { value: `**${diagnostic.source}**: ${diagnostic.message}` },
+          glyphMarginClassName: `diagnostic-glyph-${diagnostic.severity}`,
+          glyphMarginHoverMessage: { value: diagnostic.message },
+          overviewRuler: { color: SEVERITY_COLORS[diagnostic.severity], position: OVERVIEW_RULER_RIGHT },
+          stickiness: NEVER_GROWS,
+        },
+      });
+    });
+
+    this.decorations.set(decorations);
+  }
+
+  dispose() {
+    this.decorations.clear();
+  }
+}
@@ -0,0 +1,35 @@
+import { formatDistanceToNow } from 'date-fns';
+
+// Whether the caller can use an invite, as get_invite and accept_invite report it
+export type InviteStatus = 'valid' | 'revoked' | 'expired' | 'used_up' | 'wrong_email';
+
+interface InviteLimits {
+  expires_at: string | null;
+  max_uses: number | null;
+}
+
+export function getInviteLink(token: string): string {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+/** Why an invite cannot be used, for the person who opened it. Null when it can. */
+export function describeInviteStatus(status: string, invite: InviteLimits): string | null {
+  switch (status as InviteStatus) {
+    case 'valid':
+      return null;
+    case 'revoked':
+      return 'The project owner revoked this invite. Ask them for a new one.';
+    case 'expired':
+      return invite.expires_at
+        ? `This invite expired ${formatDistanceToNow(new Date(invite.expires_at), { addSuffix: true })}. Ask the project owner for a new one.`
+        : 'This invite has expired. Ask the project owner for a new one.';
+    case 'used_up':
+      return invite.max_uses === 1
+        ? 'This invite could only be used once and has already been used. Ask the project owner for a new one.'
+        : `This invite could be used ${invite.max_uses} times and has been used up. Ask the project owner for a new one.`;
+    case 'wrong_email':
+      return 'This invite is for a different email address. Sign in with the account it was sent to.';
+    default:
+      return 'This invite cannot be used.';
+  }
+}
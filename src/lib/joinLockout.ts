@@ -0,0 +1,10 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// SQLSTATE the join functions raise while too many wrong passwords lock the
+// caller or the room out, answered with HTTP 429
+const LOCKED_OUT = 'PT429';
+
+/** What to tell a user refused for too many wrong passwords, null for other errors. */
+export function getLockoutMessage(error: PostgrestError | null): string | null {
+  return error?.code === LOCKED_OUT ? error.message : null;
+}
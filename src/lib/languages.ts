@@ -0,0 +1,15 @@
+// Languages a project can be created with
+export const LANGUAGES = [
+  { value: 'javascript', label: 'JavaScript', icon: '🟨' },
+  { value: 'typescript', label: 'TypeScript', icon: '🔷' },
+  { value: 'python', label: 'Python', icon: '🐍' },
+  { value: 'cpp', label: 'C++', icon: '⚡' },
+  { value: 'c', label: 'C', icon: '🔧' },
+  { value: 'java', label: 'Java', icon: '☕' },
+  { value: 'html', label: 'HTML', icon: '🌐' },
+  { value: 'css', label: 'CSS', icon: '🎨' },
+];
+
+export function getLanguageInfo(lang: string) {
+  return LANGUAGES.find(l => l.value === lang) || { label: lang, icon: '📄' };
+}
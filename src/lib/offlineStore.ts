@@ -0,0 +1,117 @@
+import type { ProjectFile } from '@/components/FileExplorer';
+
+const DB_NAME = 'codevibe-offline';
+const DB_VERSION = 2;
+const FILES_STORE = 'files';
+const PENDING_SAVES_STORE = 'pending_saves';
+
+// Content that has not reached the server yet, with the version it was based on
+export interface PendingSave {
+  userId: string;
+  fileId: string;
+  projectId: string;
+  content: string;
+  baseVersion: number;
+  baseContent: string;
+  queuedAt: string;
+}
+
+// A cached file, stored for the user who fetched it
+type CachedFile = ProjectFile & { user_id: string };
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 did not record whose data it held, so none of it is kept
+        for (const name of Array.from(db.objectStoreNames)) {
+          db.deleteObjectStore(name);
+        }
+        db.createObjectStore(FILES_STORE, { keyPath: ['user_id', 'id'] })
+          .createIndex('user_project', ['user_id', 'project_id']);
+        db.createObjectStore(PENDING_SAVES_STORE, { keyPath: ['userId', 'fileId'] })
+          .createIndex('user_project', ['userId', 'projectId']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Replace the user's cached copy of a project's files with the ones just fetched
+export async function cacheProjectFiles(userId: string, projectId: string, files: ProjectFile[]) {
+  const db = await openDatabase();
+  const transaction = db.transaction(FILES_STORE, 'readwrite');
+  const store = transaction.objectStore(FILES_STORE);
+  const keys = await requestResult(store.index('user_project').getAllKeys([userId, projectId]));
+  keys.forEach((key) => store.delete(key));
+  files.forEach((file) => store.put({ ...file, user_id: userId } satisfies CachedFile));
+  await transactionDone(transaction);
+}
+
+export async function getCachedProjectFiles(userId: string, projectId: string): Promise<ProjectFile[]> {
+  const db = await openDatabase();
+  const store = db.transaction(FILES_STORE).objectStore(FILES_STORE);
+  const cached: CachedFile[] = await requestResult(store.index('user_project').getAll([userId, projectId]));
+  return cached
+    .map(({ user_id, ...file }) => file)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function putPendingSave(save: PendingSave) {
+  const db = await openDatabase();
+  const transaction = db.transaction(PENDING_SAVES_STORE, 'readwrite');
+  transaction.objectStore(PENDING_SAVES_STORE).put(save);
+  await transactionDone(transaction);
+}
+
+// Drop a pending save once the server has it, unless it was replaced by newer content meanwhile.
+// Without content the pending save is dropped whatever it holds.
+export async function deletePendingSave(userId: string, fileId: string, content?: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction(PENDING_SAVES_STORE, 'readwrite');
+  const store = transaction.objectStore(PENDING_SAVES_STORE);
+  const save = await requestResult<PendingSave | undefined>(store.get([userId, fileId]));
+  if (save && (content === undefined || save.content === content)) {
+    store.delete([userId, fileId]);
+  }
+  await transactionDone(transaction);
+}
+
+export async function getPendingSaves(userId: string, projectId: string): Promise<PendingSave[]> {
+  const db = await openDatabase();
+  const store = db.transaction(PENDING_SAVES_STORE).objectStore(PENDING_SAVES_STORE);
+  return requestResult(store.index('user_project').getAll([userId, projectId]));
+}
+
+// Forget every cached file and pending save, so nothing stays on the device after signing out
+export async function clearOfflineStore() {
+  const db = await openDatabase();
+  const transaction = db.transaction([FILES_STORE, PENDING_SAVES_STORE], 'readwrite');
+  transaction.objectStore(FILES_STORE).clear();
+  transaction.objectStore(PENDING_SAVES_STORE).clear();
+  await transactionDone(transaction);
+}
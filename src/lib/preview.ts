@@ -0,0 +1,145 @@
+// A project file as the preview sees it
+export interface PreviewFile {
+  path: string;
+  content: string;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  text: string;
+}
+
+// Marks messages posted by the console bridge inside the preview
+export const PREVIEW_MESSAGE_SOURCE = 'codevibe-preview';
+
+// Pages run in an opaque origin: scripts, forms and alerts work, but nothing
+// can reach the editor's cookies, storage or DOM
+export const PREVIEW_SANDBOX = 'allow-scripts allow-forms allow-modals allow-popups';
+
+// Forwards console calls and uncaught errors of the page to the editor
+const CONSOLE_BRIDGE = `(() => {
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const send = (level, args) => {
+    parent.postMessage({ source: '${PREVIEW_MESSAGE_SOURCE}', level, text: Array.from(args, format).join(' ') }, '*');
+  };
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = console[level];
+    console[level] = (...args) => {
+      send(level, args);
+      original.apply(console, args);
+    };
+  }
+  window.addEventListener('error', (event) => {
+    send('error', [event.message + (event.lineno ? ' (line ' + event.lineno + ')' : '')]);
+  });
+  window.addEventListener('unhandledrejection', (event) => {
+    send('error', ['Uncaught (in promise) ' + format(event.reason)]);
+  });
+})();`;
+
+// Shown for projects without an HTML file, their CSS and JS are still applied
+const FALLBACK_PAGE = `<!DOCTYPE html>
+<html>
+<head><title>Preview</title></head>
+<body><p>Add an <code>index.html</code> to preview your page.</p></body>
+</html>`;
+
+/** Resolve a link of an HTML file to a project path, null for external URLs. */
+function resolvePath(fromPath: string, href: string): string | null {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(href)) return null;
+
+  const parts = href.startsWith('/') ? [] : fromPath.split('/').slice(0, -1);
+  for (const part of href.split(/[?#]/)[0].split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+// The page to show: the preferred file when it is HTML, else the top-most index.html, else any HTML file
+function findPage(files: PreviewFile[], preferredPath: string | null): PreviewFile | null {
+  const pages = files.filter((f) => /\.html?$/i.test(f.path));
+  const byDepth = (a: PreviewFile, b: PreviewFile) => a.path.split('/').length - b.path.split('/').length;
+  return (
+    pages.find((f) => f.path === preferredPath) ||
+    pages.filter((f) => /(^|\/)index\.html?$/i.test(f.path)).sort(byDepth)[0] ||
+    pages.sort(byDepth)[0] ||
+    null
+  );
+}
+
+// Closing tags inside inlined code would end the element early
+function escapeInline(content: string, tag: 'script' | 'style'): string {
+  return content.replace(new RegExp(`</${tag}`, 'gi'), `<\\/${tag}`);
+}
+
+/**
+ * Assemble a self-contained page from the project's files: stylesheets and
+ * scripts linked from the HTML are inlined from the project, and a console
+ * bridge is injected first so the editor sees what the page logs.
+ */
+export function buildPreviewDocument(files: PreviewFile[], preferredPath: string | null): string {
+  const byPath = new Map(files.map((f) => [f.path.replace(/^\/+/, ''), f]));
+  const page = findPage(files, preferredPath);
+  const doc = new DOMParser().parseFromString(page ? page.content : FALLBACK_PAGE, 'text/html');
+
+  if (page) {
+    doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]').forEach((link) => {
+      const path = resolvePath(page.path, link.getAttribute('href')!);
+      const file = path !== null ? byPath.get(path) : undefined;
+      if (!file) return;
+
+      const style = doc.createElement('style');
+      style.textContent = escapeInline(file.content, 'style');
+      if (link.media) style.media = link.media;
+      link.replaceWith(style);
+    });
+
+    doc.querySelectorAll<HTMLScriptElement>('script[src]').forEach((script) => {
+      const path = resolvePath(page.path, script.getAttribute('src')!);
+      const file = path !== null ? byPath.get(path) : undefined;
+      if (!file) return;
+
+      const inline = doc.createElement('script');
+      for (const attribute of Array.from(script.attributes)) {
+        if (attribute.name !== 'src') inline.setAttribute(attribute.name, attribute.value);
+      }
+      inline.textContent = escapeInline(file.content, 'script');
+      script.replaceWith(inline);
+    });
+  } else {
+    for (const file of files) {
+      if (/\.css$/i.test(file.path)) {
+        const style = doc.createElement('style');
+        style.textContent = escapeInline(file.content, 'style');
+        doc.head.appendChild(style);
+      } else if (/\.js$/i.test(file.path)) {
+        const script = doc.createElement('script');
+        script.textContent = escapeInline(file.content, 'script');
+        doc.body.appendChild(script);
+      }
+    }
+  }
+
+  const bridge = doc.createElement('script');
+  bridge.textContent = CONSOLE_BRIDGE;
+  doc.head.prepend(bridge);
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
+
+/** Whether a project has something the preview can show. */
+export function hasPreviewablePage(paths: string[]): boolean {
+  return paths.some((path) => /\.html?$/i.test(path));
+}
@@ -0,0 +1,154 @@
+import type { MonacoEditor } from '@/lib/collaborativeDoc';
+
+type ContentWidget = Parameters<MonacoEditor['addContentWidget']>[0];
+type DecorationsCollection = ReturnType<MonacoEditor['createDecorationsCollection']>;
+type Decoration = Parameters<DecorationsCollection['set']>[0][number];
+
+export interface RemoteCursor {
+  userId: string;
+  username: string;
+  color: string;
+  // Document offsets, the caret is drawn at head
+  anchor: number;
+  head: number;
+}
+
+// Mirrors monaco.editor.ContentWidgetPositionPreference.ABOVE / BELOW
+const WIDGET_ABOVE = 1;
+const WIDGET_BELOW = 2;
+// Mirrors monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+const NEVER_GROWS = 1;
+
+const injectedColors = new Set<string>();
+
+// Monaco decorations are styled through class names, so each color gets its own rules
+function getColorClass(color: string): string {
+  const key = color.replace('#', '');
+  if (!injectedColors.has(key)) {
+    const style = document.createElement('style');
+    style.textContent = `
+      .remote-selection-${key} { background-color: ${color}40; }
+      .remote-caret-${key} {
+        position: absolute;
+        height: 100%;
+        border-left: 2px solid ${color};
+        margin-left: -1px;
+      }
+    `;
+    document.head.appendChild(style);
+    injectedColors.add(key);
+  }
+  return key;
+}
+
+interface CursorLabel {
+  widget: ContentWidget;
+  node: HTMLDivElement;
+  position: { lineNumber: number; column: number };
+}
+
+/**
+ * Draws carets, selection highlights and name labels of other users
+ * into a Monaco editor.
+ */
+export class RemoteCursorRenderer {
+  private readonly decorations: DecorationsCollection;
+  private readonly labels = new Map<string, CursorLabel>();
+
+  constructor(private readonly editor: MonacoEditor) {
+    this.decorations = editor.createDecorationsCollection();
+  }
+
+  render(cursors: RemoteCursor[]) {
+    const model = this.editor.getModel();
+    if (!model) return;
+
+    const maxOffset = model.getValueLength();
+    const decorations: Decoration[] = [];
+
+    cursors.forEach((cursor) => {
+      const colorClass = getColorClass(cursor.color);
+      const head = model.getPositionAt(Math.min(cursor.head, maxOffset));
+      const anchor = model.getPositionAt(Math.min(cursor.anchor, maxOffset));
+      const [start, end] = cursor.anchor <= cursor.head ? [anchor, head] : [head, anchor];
+
+      if (cursor.anchor !== cursor.head) {
+        decorations.push({
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          options: {
+            className: `remote-selection-${colorClass}`,
+            hoverMessage: { value: cursor.username },
+            stickiness: NEVER_GROWS,
+          },
+        });
+      }
+
+      decorations.push({
+        range: {
+          startLineNumber: head.lineNumber,
+          startColumn: head.column,
+          endLineNumber: head.lineNumber,
+          endColumn: head.column,
+        },
+        options: {
+          beforeContentClassName: `remote-caret-${colorClass}`,
+          stickiness: NEVER_GROWS,
+        },
+      });
+
+      this.renderLabel(cursor, { lineNumber: head.lineNumber, column: head.column });
+    });
+
+    this.decorations.set(decorations);
+
+    // Drop labels of users that left or moved to another file
+    const visible = new Set(cursors.map((c) => c.userId));
+    this.labels.forEach((label, userId) => {
+      if (!visible.has(userId)) {
+        this.editor.removeContentWidget(label.widget);
+        this.labels.delete(userId);
+      }
+    });
+  }
+
+  private renderLabel(cursor: RemoteCursor, position: CursorLabel['position']) {
+    const existing = this.labels.get(cursor.userId);
+    if (existing) {
+      existing.position = position;
+      existing.node.textContent = cursor.username;
+      this.editor.layoutContentWidget(existing.widget);
+      return;
+    }
+
+    const node = document.createElement('div');
+    node.textContent = cursor.username;
+    node.style.backgroundColor = cursor.color;
+    node.className = 'px-1 rounded-sm text-[10px] leading-4 font-medium text-white whitespace-nowrap pointer-events-none';
+
+    const label: CursorLabel = {
+      node,
+      position,
+      widget: {
+        getId: () => `remote-cursor-${cursor.userId}`,
+        getDomNode: () => node,
+        getPosition: () => ({
+          position: label.position,
+          preference: [WIDGET_ABOVE, WIDGET_BELOW],
+        }),
+      },
+    };
+    this.labels.set(cursor.userId, label);
+    this.editor.addContentWidget(label.widget);
+  }
+
+  dispose() {
+    this.decorations.clear();
+    this.labels.forEach((label) => this.editor.removeContentWidget(label.widget));
+    this.labels.clear();
+  }
+}
@@ -0,0 +1,43 @@
+// A limit execute-code refused a run for, sent with its 429 response
+export interface RunLimit {
+  scope: 'user' | 'project';
+  window: 'minute' | 'day';
+  limit: number;
+  // Seconds until another run may start
+  retryAfter: number;
+}
+
+export class RunLimitError extends Error {
+  constructor(readonly limit: RunLimit) {
+    super(describeRunLimit(limit));
+  }
+}
+
+function formatWait(seconds: number): string {
+  const [amount, unit] = seconds < 60
+    ? [seconds, 'second']
+    : seconds < 3600
+      ? [Math.ceil(seconds / 60), 'minute']
+      : [Math.ceil(seconds / 3600), 'hour'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+/** What a user reads when a limit stops their run. */
+export function describeRunLimit({ scope, window, limit, retryAfter }: RunLimit): string {
+  const who = scope === 'user' ? "You've reached your" : 'This project has reached its';
+  return `${who} limit of ${limit} runs per ${window}. Try again in ${formatWait(retryAfter)}.`;
+}
+
+/** The error of a failed execute-code response, a RunLimitError when a limit was reached. */
+export async function readRunError(response: Response): Promise<Error> {
+  const data = await response.json().catch(() => null);
+  if (response.status === 429 && data?.code === 'rate_limited') {
+    return new RunLimitError({
+      scope: data.scope,
+      window: data.window,
+      limit: data.limit,
+      retryAfter: data.retryAfter,
+    });
+  }
+  return new Error(data?.error || `Request failed with status ${response.status}`);
+}
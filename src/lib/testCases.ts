@@ -0,0 +1,91 @@
+// How a test's stdout is checked against the expected output
+export type ComparisonMode = 'exact' | 'trimmed' | 'regex' | 'numeric';
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string; description: string }[] = [
+  { value: 'exact', label: 'Exact', description: 'Output must match character for character' },
+  { value: 'trimmed', label: 'Trimmed', description: 'Trailing whitespace and blank lines are ignored' },
+  { value: 'regex', label: 'Regex', description: 'Expected output is a pattern the whole output must match' },
+  { value: 'numeric', label: 'Numeric', description: 'Numbers may differ by the tolerance, other words must match' },
+];
+
+// A row of project_test_cases, args as typed on a command line
+export interface TestCase {
+  id: string;
+  name: string;
+  stdin: string;
+  args: string;
+  expected_stdout: string;
+  comparison: ComparisonMode;
+  tolerance: number;
+  position: number;
+}
+
+export interface Comparison {
+  passed: boolean;
+  // Why the output did not match, when the diff alone does not tell
+  message: string | null;
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+function trimOutput(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trimEnd();
+}
+
+// Numbers are equal within tolerance, absolute for small values and relative for large ones
+function compareNumeric(actual: string, expected: string, tolerance: number): Comparison {
+  const actualTokens = actual.trim().split(/\s+/).filter(Boolean);
+  const expectedTokens = expected.trim().split(/\s+/).filter(Boolean);
+
+  for (let i = 0; i < Math.max(actualTokens.length, expectedTokens.length); i++) {
+    const a = actualTokens[i];
+    const e = expectedTokens[i];
+    if (a === undefined || e === undefined) {
+      return {
+        passed: false,
+        message: `Expected ${expectedTokens.length} values, got ${actualTokens.length}`,
+      };
+    }
+
+    if (NUMBER_PATTERN.test(a) && NUMBER_PATTERN.test(e)) {
+      const difference = Math.abs(Number(a) - Number(e));
+      if (difference > tolerance * Math.max(1, Math.abs(Number(e)))) {
+        return { passed: false, message: `Value ${i + 1}: expected ${e}, got ${a} (tolerance ${tolerance})` };
+      }
+    } else if (a !== e) {
+      return { passed: false, message: `Value ${i + 1}: expected "${e}", got "${a}"` };
+    }
+  }
+  return { passed: true, message: null };
+}
+
+/** Check a program's stdout against a test's expected output. */
+export function compareOutput(
+  actual: string,
+  expected: string,
+  mode: ComparisonMode,
+  tolerance: number,
+): Comparison {
+  switch (mode) {
+    case 'exact':
+      return { passed: actual === expected, message: null };
+    case 'trimmed':
+      return { passed: trimOutput(actual) === trimOutput(expected), message: null };
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(`^(?:${expected})$`);
+      } catch (err) {
+        return { passed: false, message: `Invalid pattern: ${err instanceof Error ? err.message : String(err)}` };
+      }
+      // A final newline is not part of what the pattern describes
+      return { passed: pattern.test(actual.replace(/\r?\n$/, '')), message: null };
+    }
+    case 'numeric':
+      return compareNumeric(actual, expected, tolerance);
+  }
+}
@@ -0,0 +1,145 @@
+// A changed region of one side relative to the common base, as [start, end) line ranges
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  start: number;
+  end: number;
+}
+
+// Largest table the line matching may fill, 16 MB. Past it the lines
+// between the common prefix and suffix all count as changed.
+const MAX_LCS_CELLS = 4 * 1024 * 1024;
+
+export interface MergeResult {
+  merged: string;
+  conflicts: number;
+}
+
+// Lines of base and side that are unchanged, as [baseIndex, sideIndex] pairs
+function commonLines(base: string[], side: string[]): [number, number][] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < side.length - prefix &&
+    base[base.length - 1 - suffix] === side[side.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < prefix; i++) pairs.push([i, i]);
+  const suffixPairs = () => {
+    for (let k = suffix; k > 0; k--) {
+      pairs.push([base.length - k, side.length - k]);
+    }
+    return pairs;
+  };
+
+  // Longest common subsequence of whatever is left in the middle
+  const n = base.length - prefix - suffix;
+  const m = side.length - prefix - suffix;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return suffixPairs();
+
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = base[prefix + i] === side[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[prefix + i] === side[prefix + j]) {
+      pairs.push([prefix + i, prefix + j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return suffixPairs();
+}
+
+function diffHunks(base: string[], side: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let sideIndex = 0;
+  for (const [i, j] of [...commonLines(base, side), [base.length, side.length]]) {
+    if (i > baseIndex || j > sideIndex) {
+      hunks.push({ baseStart: baseIndex, baseEnd: i, start: sideIndex, end: j });
+    }
+    baseIndex = i + 1;
+    sideIndex = j + 1;
+  }
+  return hunks;
+}
+
+// Lines of one side covering the base range, given that side's hunks inside it
+function sideLines(base: string[], side: string[], hunks: Hunk[], start: number, end: number) {
+  if (hunks.length === 0) return base.slice(start, end);
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  return side.slice(first.start - (first.baseStart - start), last.end + (end - last.baseEnd));
+}
+
+/**
+ * Line-based three-way merge. Changes made on only one side are taken as-is,
+ * overlapping changes that differ are kept with git-style conflict markers.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const mineLines = mine.split('\n');
+  const theirLines = theirs.split('\n');
+
+  const hunks = [
+    ...diffHunks(baseLines, mineLines).map((hunk) => ({ ...hunk, mine: true })),
+    ...diffHunks(baseLines, theirLines).map((hunk) => ({ ...hunk, mine: false })),
+  ].sort((a, b) => a.baseStart - b.baseStart);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks touching the same base lines into one region
+    const regionStart = hunks[index].baseStart;
+    let regionEnd = hunks[index].baseEnd;
+    const group = [hunks[index++]];
+    while (index < hunks.length && hunks[index].baseStart <= regionEnd) {
+      regionEnd = Math.max(regionEnd, hunks[index].baseEnd);
+      group.push(hunks[index++]);
+    }
+
+    merged.push(...baseLines.slice(baseIndex, regionStart));
+
+    const mineHunks = group.filter((hunk) => hunk.mine);
+    const theirHunks = group.filter((hunk) => !hunk.mine);
+    const mineRegion = sideLines(baseLines, mineLines, mineHunks, regionStart, regionEnd);
+    const theirRegion = sideLines(baseLines, theirLines, theirHunks, regionStart, regionEnd);
+
+    if (theirHunks.length === 0 || mineRegion.join('\n') === theirRegion.join('\n')) {
+      merged.push(...mineRegion);
+    } else if (mineHunks.length === 0) {
+      merged.push(...theirRegion);
+    } else {
+      conflicts++;
+      merged.push('<<<<<<< mine', ...mineRegion, '=======', ...theirRegion, '>>>>>>> theirs');
+    }
+
+    baseIndex = regionEnd;
+  }
+
+  merged.push(...baseLines.slice(baseIndex));
+
+  return { merged: merged.join('\n'), conflicts };
+}
@@ -35,17 +35,7 @@ import { Code2, Plus, FolderCode, Clock, Loader2, LogOut, User, Trash2, Users }
 import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import { JoinRoomDialog } from '@/components/JoinRoomDialog';
-
-const LANGUAGES = [
-  { value: 'javascript', label: 'JavaScript', icon: '🟨' },
-  { value: 'typescript', label: 'TypeScript', icon: '🔷' },
-  { value: 'python', label: 'Python', icon: '🐍' },
-  { value: 'cpp', label: 'C++', icon: '⚡' },
-  { value: 'c', label: 'C', icon: '🔧' },
-  { value: 'java', label: 'Java', icon: '☕' },
-  { value: 'html', label: 'HTML', icon: '🌐' },
-  { value: 'css', label: 'CSS', icon: '🎨' },
-];
+import { LANGUAGES, getLanguageInfo } from '@/lib/languages';
 
 const DEFAULT_CODE: Record<string, string> = {
   javascript: '// Welcome to CodeVibe!\nconsole.log("Hello, World!");',
@@ -204,10 +194,6 @@ export default function Dashboard() {
     navigate('/');
   };
 
-  const getLanguageInfo = (lang: string) => {
-    return LANGUAGES.find(l => l.value === lang) || { label: lang, icon: '📄' };
-  };
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
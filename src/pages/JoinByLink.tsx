@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Code2, Loader2, Eye, Edit2, Shield, ArrowLeft, LogIn } from 'lucide-react';
 import { toast } from 'sonner';
+import { getLockoutMessage } from '@/lib/joinLockout';
+import { describeInviteStatus } from '@/lib/invites';
 import { cn } from '@/lib/utils';
 
 const roleInfo: Record<string, { label: string; description: string; icon: React.ReactNode; color: string }> = {
@@ -30,7 +32,8 @@ const roleInfo: Record<string, { label: string; description: string; icon: React
 };
 
 export default function JoinByLink() {
-  const { roomCode, password } = useParams();
+  // Room code and password links, or invite links with a token
+  const { roomCode, password, token } = useParams();
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const [isJoining, setIsJoining] = useState(false);
@@ -38,60 +41,111 @@ export default function JoinByLink() {
     id: string;
     name: string;
     role: string;
+    // Limits of an invite, to explain why joining failed
+    invite?: {
+      expires_at: string | null;
+      max_uses: number | null;
+      email_restricted: boolean;
+    };
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   // Validate link and get project info
   useEffect(() => {
+    const validateInvite = async (token: string) => {
+      try {
+        const { data, error: inviteError } = await supabase
+          .rpc('get_invite', { _token: token });
+
+        if (inviteError) throw inviteError;
+
+        const invite = data?.[0];
+        if (!invite) {
+          setError('This invite link is invalid. Check that it was copied completely.');
+          setIsLoading(false);
+          return;
+        }
+
+        const problem = describeInviteStatus(invite.status, invite);
+        if (problem) {
+          setError(problem);
+          setIsLoading(false);
+          return;
+        }
+
+        // Check if user is already the owner
+        if (user && invite.is_owner) {
+          toast.info('This is your own project!');
+          navigate(`/project/${invite.project_id}`);
+          return;
+        }
+
+        setProjectInfo({
+          id: invite.project_id,
+          name: invite.project_name,
+          role: invite.role,
+          invite: {
+            expires_at: invite.expires_at,
+            max_uses: invite.max_uses,
+            email_restricted: invite.email_restricted,
+          },
+        });
+      } catch (err) {
+        setError('Failed to validate invite');
+      }
+
+      setIsLoading(false);
+    };
+
     const validateLink = async () => {
+      if (token) {
+        return validateInvite(token);
+      }
+
       if (!roomCode || !password) {
         setError('Invalid link');
         setIsLoading(false);
         return;
       }
 
+      // Room passwords are only checked for signed-in users, who are asked to sign in first
+      if (!user) {
+        setIsLoading(false);
+        return;
+      }
+
       try {
-        // Find project by room code
-        const { data: project, error: projectError } = await supabase
-          .from('projects')
-          .select('id, name, owner_id, view_password, edit_password, full_access_password')
-          .eq('room_code', roomCode.toUpperCase())
-          .single();
+        // The password is checked on the server, the page only learns the role it grants
+        const { data, error: accessError } = await supabase
+          .rpc('get_room_access', { _room_code: roomCode, _password: password });
 
-        if (projectError || !project) {
-          setError('Project not found. The link may be invalid or expired.');
+        const lockout = getLockoutMessage(accessError);
+        if (lockout) {
+          setError(lockout);
           setIsLoading(false);
           return;
         }
+        if (accessError) throw accessError;
 
-        // Determine role from password
-        let role: string | null = null;
-        if (project.full_access_password === password) {
-          role = 'full_access';
-        } else if (project.edit_password === password) {
-          role = 'edit';
-        } else if (project.view_password === password) {
-          role = 'view';
-        }
-
-        if (!role) {
-          setError('Invalid password. Please check your link.');
+        const access = data?.[0];
+        if (!access) {
+          setError('Project not found or the password is wrong. The link may be invalid or expired.');
           setIsLoading(false);
           return;
         }
 
         // Check if user is already the owner
-        if (user && project.owner_id === user.id) {
+        if (user && access.is_owner) {
           toast.info('This is your own project!');
-          navigate(`/project/${project.id}`);
+          navigate(`/project/${access.project_id}`);
           return;
         }
 
         setProjectInfo({
-          id: project.id,
-          name: project.name,
-          role,
+          id: access.project_id,
+          name: access.project_name,
+          role: access.role,
         });
       } catch (err) {
         setError('Failed to validate link');
@@ -103,7 +157,42 @@ export default function JoinByLink() {
     if (!authLoading) {
       validateLink();
     }
-  }, [roomCode, password, user, authLoading, navigate]);
+  }, [roomCode, password, token, user, authLoading, navigate]);
+
+  // The project joined and the role it was joined with, null after telling the user why not
+  const joinWithInvite = async (token: string) => {
+    const { data, error: joinError } = await supabase
+      .rpc('accept_invite', { _token: token });
+    if (joinError) throw joinError;
+
+    const joined = data?.[0];
+    const problem = joined
+      ? describeInviteStatus(joined.status, projectInfo?.invite ?? { expires_at: null, max_uses: null })
+      : 'This invite link is no longer valid';
+    if (problem) {
+      toast.error(problem);
+      return null;
+    }
+    return joined;
+  };
+
+  const joinWithPassword = async () => {
+    const { data, error: joinError } = await supabase
+      .rpc('join_project', { _room_code: roomCode!, _password: password! });
+    const lockout = getLockoutMessage(joinError);
+    if (lockout) {
+      toast.error(lockout);
+      return null;
+    }
+    if (joinError) throw joinError;
+
+    const joined = data?.[0];
+    if (!joined) {
+      toast.error('This link is no longer valid');
+      return null;
+    }
+    return joined;
+  };
 
   const handleJoin = async () => {
     if (!user || !projectInfo) return;
@@ -111,35 +200,17 @@ export default function JoinByLink() {
     setIsJoining(true);
 
     try {
-      // Check if collaborator record exists
-      const { data: existing } = await supabase
-        .from('project_collaborators')
-        .select('id')
-        .eq('project_id', projectInfo.id)
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (existing) {
-        // Update existing
-        const { error: updateError } = await supabase
-          .from('project_collaborators')
-          .update({ role: projectInfo.role as 'view' | 'edit' | 'full_access' })
-          .eq('id', existing.id);
-        if (updateError) throw updateError;
-      } else {
-        // Insert new
-        const { error: insertError } = await supabase
-          .from('project_collaborators')
-          .insert({
-            project_id: projectInfo.id,
-            user_id: user.id,
-            role: projectInfo.role as 'view' | 'edit' | 'full_access',
-          });
-        if (insertError) throw insertError;
+      const joined = token ? await joinWithInvite(token) : await joinWithPassword();
+      if (!joined) {
+        setIsJoining(false);
+        return;
       }
 
-      toast.success(`Joined with ${roleInfo[projectInfo.role].label} access!`);
-      navigate(`/project/${projectInfo.id}`);
+      // No role means the caller owns the project
+      if (joined.role) {
+        toast.success(`Joined with ${roleInfo[joined.role].label} access!`);
+      }
+      navigate(`/project/${joined.project_id}`);
     } catch (err) {
       toast.error('Failed to join project');
       setIsJoining(false);
@@ -162,7 +233,7 @@ export default function JoinByLink() {
             <div className="mx-auto p-3 rounded-full bg-destructive/10 w-fit mb-2">
               <Code2 className="h-8 w-8 text-destructive" />
             </div>
-            <CardTitle>Link Error</CardTitle>
+            <CardTitle>{token ? 'Invite Unavailable' : 'Link Error'}</CardTitle>
             <CardDescription>{error}</CardDescription>
           </CardHeader>
           <CardContent className="flex justify-center">
@@ -186,7 +257,8 @@ export default function JoinByLink() {
             </div>
             <CardTitle>Sign in Required</CardTitle>
             <CardDescription>
-              You need to sign in to join "{projectInfo?.name}"
+              You need to sign in to join {projectInfo ? `"${projectInfo.name}"` : 'this project'}
+              {projectInfo?.invite?.email_restricted && ' with the email address this invite was sent to'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -206,7 +278,7 @@ export default function JoinByLink() {
             )}
             <Button 
               className="w-full gradient-primary" 
-              onClick={() => navigate(`/auth?redirect=/join/${roomCode}/${password}`)}
+              onClick={() => navigate(`/auth?redirect=${token ? `/invite/${token}` : `/join/${roomCode}/${password}`}`)}
             >
               <LogIn className="mr-2 h-4 w-4" />
               Sign in to Join
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, useRef } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -6,12 +6,20 @@ import { useAuth } from '@/hooks/useAuth';
 import { useRealtimeCode } from '@/hooks/useRealtimeCode';
 import { useProjectFiles } from '@/hooks/useProjectFiles';
 import { useCollaboratorRole } from '@/hooks/useCollaboratorRole';
+import { RunSession, useCodeExecution } from '@/hooks/useCodeExecution';
+import { StoredRun, useCodeRuns } from '@/hooks/useCodeRuns';
+import type { TestInput } from '@/hooks/useTestRunner';
+import { RuntimeVersions, getActiveVersion, useRuntimes } from '@/hooks/useRuntimes';
+import { MemberChange, useProjectMembers } from '@/hooks/useProjectMembers';
 import { useIsMobile } from '@/hooks/use-mobile';
+import type { MonacoEditor } from '@/lib/collaborativeDoc';
+import { Diagnostic, DiagnosticRenderer } from '@/lib/diagnostics';
 import Editor from '@monaco-editor/react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import {
@@ -22,17 +30,35 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { FileExplorer, ProjectFile } from '@/components/FileExplorer';
-import { ActiveUsersPresence, ActiveUsersSidebar } from '@/components/ActiveUsersPresence';
+import { ActiveUser, ActiveUsersPresence, ActiveUsersSidebar, getUserColor } from '@/components/ActiveUsersPresence';
 import { ShareProjectDialog } from '@/components/ShareProjectDialog';
+import { ProjectSettingsDialog } from '@/components/ProjectSettingsDialog';
 import { RequestAccessDialog } from '@/components/RequestAccessDialog';
 import { AccessRequestsPanel } from '@/components/AccessRequestsPanel';
+import { MembersPanel } from '@/components/MembersPanel';
+import { FileHistoryPanel } from '@/components/FileHistoryPanel';
+import { SaveConflictDialog } from '@/components/SaveConflictDialog';
+import { SaveStatusIndicator } from '@/components/SaveStatusIndicator';
+import { ConnectionStatusIndicator } from '@/components/ConnectionStatusIndicator';
+import { RunInput, RunInputPopover } from '@/components/RunInputPopover';
+import { RunOutput } from '@/components/RunOutput';
+import { ProblemsList } from '@/components/ProblemsList';
+import { OutputTab, OutputTabs } from '@/components/OutputTabs';
+import { RunHistoryDrawer } from '@/components/RunHistoryDrawer';
+import { TestCasesDialog } from '@/components/TestCasesDialog';
+import { PreviewPane } from '@/components/PreviewPane';
+import { ConsoleOutput } from '@/components/ConsoleOutput';
+import { ConsoleEntry, PreviewFile, hasPreviewablePage } from '@/lib/preview';
+import { parseArgs } from '@/lib/commandLine';
+import { describeRunLimit } from '@/lib/runLimits';
+import { BROWSER_LANGUAGES, ExecutionMode, canRunInBrowser } from '@/lib/browserRunner';
+import { getLanguageInfo } from '@/lib/languages';
 import {
   Code2,
   Play,
   Loader2,
   ArrowLeft,
   Users,
-  Terminal,
   Share2,
   Globe,
   Lock,
@@ -44,10 +70,19 @@ import {
   Menu,
   PanelLeft,
   MoreVertical,
+  LocateFixed,
+  History,
+  Square,
+  MonitorPlay,
+  Settings,
+  UserCog,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
+// Console messages of the preview kept in the output pane
+const MAX_CONSOLE_ENTRIES = 1000;
+
 export default function Project() {
   const { projectId } = useParams();
   const navigate = useNavigate();
@@ -56,14 +91,21 @@ export default function Project() {
   const isMobile = useIsMobile();
 
   const [code, setCode] = useState('');
-  const [output, setOutput] = useState<string[]>([]);
-  const [isRunning, setIsRunning] = useState(false);
+  const [runInput, setRunInput] = useState<RunInput>({ stdin: '', args: '' });
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [selectedFile, setSelectedFile] = useState<ProjectFile | null>(null);
   const [openTabs, setOpenTabs] = useState<ProjectFile[]>([]);
-  const [sidebarTab, setSidebarTab] = useState<'files' | 'users'>('files');
+  const [sidebarTab, setSidebarTab] = useState<'files' | 'users' | 'members' | 'history'>('files');
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  const [editorInstance, setEditorInstance] = useState<MonacoEditor | null>(null);
+  const [followingUserId, setFollowingUserId] = useState<string | null>(null);
+  const [outputTab, setOutputTab] = useState<OutputTab>('output');
+  const [revealTarget, setRevealTarget] = useState<Diagnostic | null>(null);
+  const [showRunHistory, setShowRunHistory] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewSnapshot, setPreviewSnapshot] = useState<PreviewFile[]>([]);
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
 
   // Fetch project
   const { data: project, isLoading } = useQuery({
@@ -82,39 +124,148 @@ export default function Project() {
   });
 
   // Project files
-  const { files, isLoading: filesLoading, saveFileContent, getLanguageFromFile } = useProjectFiles({
+  const {
+    files,
+    isLoading: filesLoading,
+    saveFileContent,
+    flushFile,
+    flushAll,
+    saveStatus,
+    getLanguageFromFile,
+    lastSave,
+    conflict,
+    resolveConflict,
+    acknowledgeVersion,
+  } = useProjectFiles({
+    projectId,
+    getStateVector: (fileId, content) => getStateVector(fileId, content),
+  });
+
+  // Role-based permissions
+  const { isOwner, canEdit, canManageFiles, role, isLoading: roleLoading } = useCollaboratorRole({
     projectId,
+    userId: user?.id,
+  });
+
+  // Everyone with access, loaded when the Members tab is open
+  const { owner, members, isLoading: membersLoading } = useProjectMembers({
+    projectId,
+    isMember: !!role,
+    enabled: sidebarTab === 'members',
   });
 
-  // Handle remote code changes
+  // The owner changed someone's access, possibly ours. Anyone on the channel
+  // can send these events, so our own row decides whether we act on them.
+  const handleMemberChange = useCallback(async (change: MemberChange) => {
+    queryClient.invalidateQueries({ queryKey: ['project-members', projectId] });
+    // Visitors of a public project have no membership to lose
+    if (isOwner || roleLoading || !role || change.userId !== user?.id) return;
+
+    const { data, error } = await supabase
+      .from('project_collaborators')
+      .select('role')
+      .eq('project_id', projectId!)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (error) {
+      console.error('[Members] Failed to check our access:', error);
+      return;
+    }
+
+    if (!data) {
+      // Leaving the page also leaves the project's channel
+      queryClient.removeQueries({ queryKey: ['project', projectId] });
+      toast.error('The project owner removed you from this project');
+      navigate('/dashboard');
+    } else if (data.role !== role) {
+      queryClient.invalidateQueries({ queryKey: ['collaborator-role', projectId] });
+      toast.info('The project owner changed your access to this project');
+    }
+  }, [queryClient, projectId, user?.id, isOwner, roleLoading, role, navigate]);
+
+  // Mirror the shared document of the open file
   const handleRemoteCodeChange = useCallback((newCode: string) => {
     setCode(newCode);
   }, []);
 
-  // Real-time code sync with file context
-  const { activeUsers, broadcastCode } = useRealtimeCode({
+  // Latest saved version of the selected file, used to seed its shared document
+  const currentFile = files.find((f) => f.id === selectedFile?.id) || selectedFile;
+
+  // Runs streamed from the edge function, ours and those of collaborators
+  const {
+    runs,
+    activeRun,
+    isRunning,
+    run: execute,
+    stop: stopRun,
+    clear: clearOutput,
+    showRun,
+    receiveRunEvent,
+  } = useCodeExecution({
+    broadcast: (message) => broadcastRun(message),
+    onRunFinished: () => queryClient.invalidateQueries({ queryKey: ['code-runs', projectId] }),
+    onLimitReached: (limit) => toast.error(describeRunLimit(limit)),
+  });
+  const { runs: storedRuns, loadFiles: loadRunFiles } = useCodeRuns(projectId);
+  const runResult = activeRun?.result ?? null;
+
+  // Real-time collaborative editing of the open file
+  const {
+    activeUsers,
+    connectionStatus,
+    isRemoteChange,
+    replaceFileContent,
+    getFileContent,
+    trackFile,
+    subscribeToChanges,
+    getStateVector,
+    announceSave,
+    broadcastRun,
+  } = useRealtimeCode({
     projectId,
-    currentFileId: selectedFile?.id || null,
-    currentFileName: selectedFile?.name || null,
-    initialCode: code,
+    currentFile,
+    editor: editorInstance,
     onCodeChange: handleRemoteCodeChange,
+    onRemoteSave: acknowledgeVersion,
+    onRunEvent: receiveRunEvent,
+    onMemberChange: handleMemberChange,
   });
 
-  // Set initial code from selected file
+  // Saves that failed while disconnected go out as soon as the channel is back
   useEffect(() => {
-    if (selectedFile) {
-      setCode(selectedFile.content || '');
-    } else if (project?.code && files.length === 0) {
-      // Fallback to legacy single-file code
+    if (connectionStatus === 'connected') {
+      flushAll();
+    }
+  }, [connectionStatus, flushAll]);
+
+  // Share each saved version with the other users
+  useEffect(() => {
+    if (lastSave) {
+      announceSave(lastSave);
+    }
+  }, [lastSave, announceSave]);
+
+  // Apply the picked conflict resolution to the shared document and save it
+  const conflictFile = files.find((f) => f.id === conflict?.fileId) || null;
+  const handleResolveConflict = useCallback((content: string) => {
+    if (conflictFile && conflict && content !== conflict.mine) {
+      replaceFileContent(conflictFile, content);
+    }
+    resolveConflict(content);
+  }, [conflictFile, conflict, replaceFileContent, resolveConflict]);
+
+  // Fallback to legacy single-file code
+  useEffect(() => {
+    if (!selectedFile && project?.code && files.length === 0) {
       setCode(project.code);
     }
   }, [selectedFile, project?.code, files.length]);
 
   // Handle file selection
   const handleFileSelect = useCallback((file: ProjectFile) => {
-    // Save current file before switching
-    if (selectedFile && code !== selectedFile.content) {
-      saveFileContent(selectedFile.id, code);
+    // Save pending edits of the current file before switching
+    if (selectedFile && selectedFile.id !== file.id) {
+      flushFile(selectedFile.id);
     }
 
     setSelectedFile(file);
@@ -130,48 +281,85 @@ export default function Project() {
     if (isMobile) {
       setSidebarOpen(false);
     }
-  }, [selectedFile, code, saveFileContent, isMobile]);
+  }, [selectedFile, flushFile, isMobile]);
 
   // Close tab
   const closeTab = useCallback((file: ProjectFile, e: React.MouseEvent) => {
     e.stopPropagation();
+    flushFile(file.id);
     setOpenTabs((prev) => prev.filter((t) => t.id !== file.id));
     
     if (selectedFile?.id === file.id) {
       const remaining = openTabs.filter((t) => t.id !== file.id);
-      setSelectedFile(remaining[remaining.length - 1] || null);
+      const nextFile = remaining[remaining.length - 1] || null;
+      setSelectedFile(nextFile);
+      setCode(nextFile?.content || '');
     }
-  }, [selectedFile, openTabs]);
+  }, [selectedFile, openTabs, flushFile]);
 
-  // Handle code changes - broadcast and save
+  // Handle code changes - the shared document syncs them, we only save
   const handleCodeChange = useCallback((value: string | undefined) => {
     if (value !== undefined) {
       setCode(value);
-      
-      // Broadcast to other users immediately
-      broadcastCode(value);
-      
-      // Debounce save
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-      }
-      saveTimeoutRef.current = setTimeout(() => {
-        if (selectedFile) {
-          saveFileContent(selectedFile.id, value);
+
+      // Edits from other users are saved by their author, we only step in if
+      // they could not. Only editors may send edits on the project's channel.
+      if (isRemoteChange()) {
+        if (selectedFile && canEdit) {
+          saveFileContent(selectedFile.id, value, { remote: true });
         }
-      }, 1000);
-    }
-  }, [broadcastCode, saveFileContent, selectedFile]);
+        return;
+      }
 
-  // Clean up timeout on unmount
-  useEffect(() => {
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
+      // Typing takes back control of the editor
+      setFollowingUserId(null);
+
+      if (selectedFile) {
+        saveFileContent(selectedFile.id, value);
       }
-    };
+    }
+  }, [isRemoteChange, saveFileContent, selectedFile, canEdit]);
+
+  // Restore a revision as a new save, synced to everyone through the shared document
+  const handleRestoreRevision = useCallback((content: string) => {
+    if (!currentFile) return;
+    replaceFileContent(currentFile, content);
+    saveFileContent(currentFile.id, content);
+    toast.success(`Restored a previous version of ${currentFile.name}`);
+  }, [currentFile, replaceFileContent, saveFileContent]);
+
+  // Follow mode - track another user's file and viewport
+  const followedUser = activeUsers.find((u) => u.id === followingUserId) || null;
+
+  const handleFollowUser = useCallback((activeUser: ActiveUser) => {
+    setFollowingUserId((prev) => (prev === activeUser.id ? null : activeUser.id));
   }, []);
 
+  // Stop following users that left the project
+  useEffect(() => {
+    if (followingUserId && !followedUser) {
+      setFollowingUserId(null);
+      toast.info('The user you were following left the project');
+    }
+  }, [followingUserId, followedUser]);
+
+  // Open the file the followed user is looking at
+  const followedFileId = followedUser?.currentFileId;
+  useEffect(() => {
+    if (!followedFileId || followedFileId === selectedFile?.id) return;
+    const file = files.find((f) => f.id === followedFileId);
+    if (file) {
+      handleFileSelect(file);
+    }
+  }, [followedFileId, selectedFile?.id, files, handleFileSelect]);
+
+  // Scroll to their visible range once the same file is open
+  const followedStartLine = followedUser?.viewport?.startLine;
+  useEffect(() => {
+    if (!editorInstance || !followedStartLine || followedFileId !== selectedFile?.id) return;
+    editorInstance.setScrollTop(editorInstance.getTopForLineNumber(followedStartLine));
+  }, [editorInstance, followedStartLine, followedFileId, selectedFile?.id]);
+
   // Toggle public/private
   const togglePublic = useMutation({
     mutationFn: async (isPublic: boolean) => {
@@ -191,39 +379,170 @@ export default function Project() {
     },
   });
 
+  // Run JavaScript and TypeScript on the server or in the browser
+  const setExecutionMode = useMutation({
+    mutationFn: async (mode: ExecutionMode) => {
+      if (!projectId) return;
+      const { error } = await supabase
+        .from('projects')
+        .update({ execution_mode: mode })
+        .eq('id', projectId);
+      if (error) throw error;
+    },
+    onSuccess: (_, mode) => {
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      toast.success(mode === 'local' ? 'Code now runs in your browser' : 'Code now runs on the server');
+    },
+    onError: () => {
+      toast.error('Failed to change where code runs');
+    },
+  });
+
+  // The project's entry point, or the open file when none is set
+  const entryFile = files.find((f) => f.id === project?.entry_file_id) || selectedFile;
+
+  const runLanguage = entryFile ? getLanguageFromFile(entryFile.name) : project?.language;
+
+  // HTML and CSS are not executed, they run in the preview
+  const isWebProject = runLanguage === 'html' || runLanguage === 'css';
+  const executionMode = (project?.execution_mode ?? 'server') as ExecutionMode;
+  const runsInBrowser = canRunInBrowser(runLanguage, executionMode);
+  const { data: runtimes } = useRuntimes();
+  const activeVersion = runLanguage
+    ? getActiveVersion(runtimes, (project?.runtime_versions ?? {}) as RuntimeVersions, runLanguage)
+    : null;
+  const canPreview = isWebProject || hasPreviewablePage(files.map((f) => f.path));
+
+  // Every file of the project with the latest text, including unsaved edits
+  const getCurrentFiles = useCallback(() => {
+    return files
+      .filter((f) => !f.is_folder)
+      .map((f) => ({
+        path: f.path,
+        content: f.id === selectedFile?.id ? code : getFileContent(f.id) ?? f.content ?? '',
+      }));
+  }, [files, selectedFile?.id, code, getFileContent]);
+
+  // The execute-code request for the code as it is now
+  const getRunBody = (programInput: TestInput): Record<string, unknown> => {
+    const input = { ...programInput, language: runLanguage };
+
+    // Ship the whole project tree so files can import each other
+    return entryFile
+      ? { files: getCurrentFiles(), entry: entryFile.path, ...input }
+      : { code, ...input };
+  };
+
   // Run code using edge function
-  const runCode = async () => {
-    setIsRunning(true);
-    setOutput(['⏳ Executing code...']);
+  const runCode = (input: RunInput = runInput) => {
+    if (isWebProject) {
+      setShowPreview(true);
+      setOutputTab('console');
+      return;
+    }
+
+    const body = getRunBody({ stdin: input.stdin, args: parseArgs(input.args) });
+    execute(
+      { ...body, projectId },
+      { filePath: entryFile?.path ?? null, language: runLanguage ?? '', local: runsInBrowser },
+    );
+  };
 
+  // Follow everyone's edits to every file while the preview is open
+  useEffect(() => {
+    if (!showPreview) return;
+    files.filter((f) => !f.is_folder).forEach(trackFile);
+    setPreviewSnapshot(getCurrentFiles());
+    return subscribeToChanges(() => setPreviewSnapshot(getCurrentFiles()));
+  }, [showPreview, files, trackFile, subscribeToChanges, getCurrentFiles]);
+
+  const previewFiles = useMemo((): PreviewFile[] => {
+    if (!showPreview) return [];
+    if (files.length === 0) {
+      return [{ path: project?.language === 'css' ? 'style.css' : 'index.html', content: code }];
+    }
+    return previewSnapshot;
+  }, [showPreview, files.length, project?.language, code, previewSnapshot]);
+
+  const handlePreviewConsole = useCallback((entry: ConsoleEntry) => {
+    setConsoleEntries((prev) => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+  }, []);
+
+  const handlePreviewReload = useCallback(() => setConsoleEntries([]), []);
+
+  const togglePreview = () => {
+    setShowPreview((show) => !show);
+    setOutputTab((tab) => (showPreview && tab === 'console' ? 'output' : tab));
+  };
+
+  // Rerun against a saved input, which also becomes the current one
+  const runWithInput = (input: RunInput) => {
+    setRunInput(input);
+    runCode(input);
+  };
+
+  // Squiggles and gutter icons for what the last run reported in the open file
+  const diagnostics = useMemo(() => runResult?.diagnostics ?? [], [runResult?.diagnostics]);
+  const fileDiagnostics = useMemo(
+    () => diagnostics.filter((d) => !selectedFile || d.path === selectedFile.path),
+    [diagnostics, selectedFile]
+  );
+
+  useEffect(() => {
+    if (!editorInstance) return;
+    const renderer = new DiagnosticRenderer(editorInstance);
+    renderer.render(fileDiagnostics);
+    return () => renderer.dispose();
+  }, [editorInstance, fileDiagnostics]);
+
+  // Show a past or shared run in the output panel
+  const handleSelectRun = useCallback((run: RunSession) => {
+    showRun(run);
+    setOutputTab('output');
+    setShowRunHistory(false);
+  }, [showRun]);
+
+  // Run a recorded run again, with the code and input it had back then
+  const handleRerun = async (run: StoredRun) => {
+    let runFiles;
     try {
-      const language = selectedFile 
-        ? getLanguageFromFile(selectedFile.name)
-        : project?.language;
-
-      const { data, error } = await supabase.functions.invoke('execute-code', {
-        body: { code, language },
-      });
-
-      if (error) {
-        setOutput([`❌ Error: ${error.message}`]);
-      } else if (data.error) {
-        setOutput([`❌ Error: ${data.error}`]);
-      } else {
-        setOutput(data.output || ['✓ Code executed successfully (no output)']);
-      }
-    } catch (err) {
-      setOutput([`❌ Error: ${err instanceof Error ? err.message : String(err)}`]);
+      runFiles = await loadRunFiles(run);
+    } catch {
+      toast.error('Could not load the code of this run');
+      return;
     }
 
-    setIsRunning(false);
+    const programInput = { stdin: run.stdin, args: run.args, projectId };
+    const body = run.entry_path
+      ? { files: runFiles, entry: run.entry_path, language: run.language, ...programInput }
+      : { code: runFiles[0]?.content ?? '', language: run.language, ...programInput };
+
+    setOutputTab('output');
+    setShowRunHistory(false);
+    execute(body, { filePath: run.entry_path, language: run.language });
   };
 
-  // Role-based permissions
-  const { isOwner, canEdit, canManageFiles, role, isLoading: roleLoading } = useCollaboratorRole({
-    projectId,
-    userId: user?.id,
-  });
+  // Open the file of a problem and put the cursor on it
+  const handleDiagnosticSelect = useCallback((diagnostic: Diagnostic) => {
+    const file = files.find((f) => f.path === diagnostic.path);
+    if (file && file.id !== selectedFile?.id) {
+      handleFileSelect(file);
+    }
+    setFollowingUserId(null);
+    setRevealTarget(diagnostic);
+  }, [files, selectedFile?.id, handleFileSelect]);
+
+  // Once the editor shows that file
+  useEffect(() => {
+    if (!editorInstance || !revealTarget) return;
+    if (selectedFile && selectedFile.path !== revealTarget.path) return;
+
+    const position = { lineNumber: revealTarget.line, column: revealTarget.column ?? 1 };
+    editorInstance.setPosition(position);
+    editorInstance.revealPositionInCenter(position);
+    editorInstance.focus();
+    setRevealTarget(null);
+  }, [editorInstance, revealTarget, selectedFile]);
 
   // Get role display info
   const getRoleInfo = () => {
@@ -262,6 +581,32 @@ export default function Project() {
     ? getLanguageFromFile(selectedFile.name)
     : project.language;
 
+  const followColor = followedUser ? getUserColor(followedUser.id) : null;
+
+  // Banner shown above the editor while following someone
+  const followBanner = followedUser && followColor && (
+    <div
+      className="flex items-center justify-between gap-2 px-3 py-1 border-b border-border/30 text-xs shrink-0"
+      style={{ backgroundColor: `${followColor}1a` }}
+    >
+      <span className="flex items-center gap-1.5 min-w-0">
+        <LocateFixed className="h-3.5 w-3.5 shrink-0" style={{ color: followColor }} />
+        <span className="truncate">
+          Following <span className="font-medium" style={{ color: followColor }}>{followedUser.username}</span>
+          {followedUser.currentFile && ` in ${followedUser.currentFile}`}
+        </span>
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-5 text-xs px-2 shrink-0"
+        onClick={() => setFollowingUserId(null)}
+      >
+        Stop following
+      </Button>
+    </div>
+  );
+
   // Sidebar content (reused for both desktop and mobile)
   const SidebarContent = () => (
     <div className="h-full flex flex-col">
@@ -294,6 +639,33 @@ export default function Project() {
             <span className="absolute top-2 right-4 h-2 w-2 rounded-full bg-green-500" />
           )}
         </button>
+        {/* Only members can see each other */}
+        {(isOwner || role) && (
+          <button
+            onClick={() => setSidebarTab('members')}
+            className={cn(
+              'flex-1 flex items-center justify-center gap-1.5 py-2.5 text-xs font-medium transition-colors',
+              sidebarTab === 'members' 
+                ? 'text-foreground border-b-2 border-primary' 
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <UserCog className="h-3.5 w-3.5" />
+            Members
+          </button>
+        )}
+        <button
+          onClick={() => setSidebarTab('history')}
+          className={cn(
+            'flex-1 flex items-center justify-center gap-1.5 py-2.5 text-xs font-medium transition-colors',
+            sidebarTab === 'history' 
+              ? 'text-foreground border-b-2 border-primary' 
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <History className="h-3.5 w-3.5" />
+          History
+        </button>
       </div>
 
       {/* Tab content */}
@@ -311,18 +683,57 @@ export default function Project() {
                 projectId={projectId!}
                 files={files}
                 selectedFileId={selectedFile?.id || null}
+                entryFileId={project?.entry_file_id || null}
                 onFileSelect={handleFileSelect}
                 canManageFiles={canManageFiles}
                 canEdit={canEdit}
               />
             </div>
           </div>
+        ) : sidebarTab === 'history' ? (
+          <div className="p-3">
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
+              Revisions
+            </h3>
+            <FileHistoryPanel
+              file={currentFile}
+              currentContent={code}
+              language={currentLanguage}
+              canRestore={canEdit}
+              onRestore={handleRestoreRevision}
+            />
+          </div>
+        ) : sidebarTab === 'members' ? (
+          <div className="p-3">
+            <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
+              Members ({members.length + 1})
+            </h3>
+            <MembersPanel
+              projectId={projectId!}
+              owner={owner}
+              members={members}
+              isLoading={membersLoading}
+              activeUsers={activeUsers}
+              currentUserId={user?.id}
+              canManage={isOwner}
+            />
+          </div>
         ) : (
           <div className="p-3">
             <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
               Online Now ({activeUsers.length})
             </h3>
-            <ActiveUsersSidebar users={activeUsers} currentUserId={user?.id} />
+            <ActiveUsersSidebar
+              users={activeUsers}
+              currentUserId={user?.id}
+              followingUserId={followingUserId}
+              onFollowUser={handleFollowUser}
+            />
+            {activeUsers.length > 1 && (
+              <p className="text-xs text-muted-foreground mt-3 px-2">
+                Click someone to follow their file and scroll position
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -363,6 +774,16 @@ export default function Project() {
                 {selectedFile.name}
               </span>
             )}
+            {/* Language the project runs and the version it runs with */}
+            {runLanguage && !isWebProject && !isMobile && (
+              <span
+                className="text-xs px-2 py-0.5 rounded-full border border-border/50 text-muted-foreground whitespace-nowrap"
+                title={runsInBrowser ? 'Runs in your browser' : 'Runtime version on the server'}
+              >
+                {getLanguageInfo(runLanguage).label}
+                <span className="font-mono ml-1">{runsInBrowser ? 'Browser' : activeVersion}</span>
+              </span>
+            )}
           </div>
         </div>
 
@@ -379,6 +800,9 @@ export default function Project() {
             </div>
           )}
 
+          {/* Connection status */}
+          <ConnectionStatusIndicator status={connectionStatus} />
+
           {/* Active users - hide on mobile */}
           <div className="hidden md:block">
             <ActiveUsersPresence 
@@ -388,6 +812,24 @@ export default function Project() {
             />
           </div>
 
+          {/* Follow state - hide on mobile, the banner covers it there */}
+          {followedUser && followColor && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => setFollowingUserId(null)}
+                  className="hidden md:flex items-center gap-1.5 px-2.5 py-1 rounded-md border bg-secondary/50 text-xs font-medium"
+                  style={{ borderColor: followColor, color: followColor }}
+                >
+                  <LocateFixed className="h-3.5 w-3.5" />
+                  <span className="truncate max-w-[100px]">{followedUser.username}</span>
+                  <X className="h-3 w-3" />
+                </button>
+              </TooltipTrigger>
+              <TooltipContent>Stop following</TooltipContent>
+            </Tooltip>
+          )}
+
           {/* Public toggle - only for owner, hide on mobile */}
           {isOwner && (
             <div className="hidden lg:flex items-center gap-2 px-3 py-1.5 rounded-md bg-secondary/50 border border-border/50">
@@ -437,16 +879,102 @@ export default function Project() {
             <span className="hidden sm:inline">Share</span>
           </Button>
 
-          {/* Run button */}
-          <Button size="sm" className="gradient-primary" onClick={runCode} disabled={isRunning}>
-            {isRunning ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
-              <Play className="h-4 w-4" />
-            )}
-            <span className="hidden sm:inline ml-1">Run</span>
+          {/* Project settings */}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSettings(true)}
+            className="hidden sm:flex"
+            title="Project settings"
+          >
+            <Settings className="h-4 w-4" />
           </Button>
 
+          {/* Runs of everyone in the project */}
+          <RunHistoryDrawer
+            runs={runs}
+            storedRuns={storedRuns}
+            activeRunId={activeRun?.id ?? null}
+            onSelectRun={handleSelectRun}
+            onRerun={handleRerun}
+            canRerun={canEdit && !isRunning}
+            open={showRunHistory}
+            onOpenChange={setShowRunHistory}
+          />
+
+          {/* Live page preview for projects with HTML */}
+          {canPreview && (
+            <Button
+              variant={showPreview ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={togglePreview}
+              title={showPreview ? 'Close preview' : 'Preview the page'}
+            >
+              <MonitorPlay className="h-4 w-4" />
+              <span className="hidden lg:inline ml-1">Preview</span>
+            </Button>
+          )}
+
+          {/* Test cases with expected output */}
+          <TestCasesDialog
+            projectId={projectId!}
+            userId={user?.id}
+            canEdit={canEdit}
+            getRunBody={getRunBody}
+          />
+
+          {/* Program input */}
+          <RunInputPopover
+            projectId={projectId!}
+            userId={user?.id}
+            input={runInput}
+            onInputChange={setRunInput}
+            onRun={runWithInput}
+            canSave={canEdit}
+            canRun={canEdit}
+            isRunning={isRunning}
+          />
+
+          {/* Where JavaScript and TypeScript run, for the whole project */}
+          {BROWSER_LANGUAGES.includes(runLanguage ?? '') && (
+            <Select
+              value={executionMode}
+              onValueChange={(mode) => setExecutionMode.mutate(mode as ExecutionMode)}
+              disabled={!canEdit || isRunning || setExecutionMode.isPending}
+            >
+              <SelectTrigger className="hidden sm:flex h-8 w-[100px] text-xs" title="Where the code runs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="server">Server</SelectItem>
+                <SelectItem value="local">Browser</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {/* Run button, stops the program while it runs. Viewers only watch shared runs. */}
+          {isRunning ? (
+            <Button size="sm" variant="destructive" onClick={stopRun} title="Stop the program">
+              <Square className="h-4 w-4" />
+              <span className="hidden sm:inline ml-1">Stop</span>
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="gradient-primary"
+              onClick={() => runCode()}
+              disabled={!canEdit}
+              title={
+                !canEdit
+                  ? 'Viewers see runs of others but cannot run code'
+                  : entryFile ? `Run ${entryFile.path}` : undefined
+              }
+            >
+              <Play className="h-4 w-4" />
+              <span className="hidden sm:inline ml-1">Run</span>
+            </Button>
+          )}
+
           {/* Mobile overflow menu */}
           {isMobile && (
             <DropdownMenu>
@@ -469,6 +997,10 @@ export default function Project() {
                   <Share2 className="h-4 w-4 mr-2" />
                   Share
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowSettings(true)}>
+                  <Settings className="h-4 w-4 mr-2" />
+                  Settings
+                </DropdownMenuItem>
                 {isOwner && (
                   <DropdownMenuItem onClick={() => togglePublic.mutate(!project.is_public)}>
                     {project.is_public ? (
@@ -506,14 +1038,35 @@ export default function Project() {
           open={showShareDialog}
           onOpenChange={setShowShareDialog}
           project={project}
+          isOwner={isOwner}
         />
       )}
 
+      {/* Runtime versions */}
+      {project && (
+        <ProjectSettingsDialog
+          open={showSettings}
+          onOpenChange={setShowSettings}
+          project={project}
+          canEdit={canEdit}
+        />
+      )}
+
+      {/* Save conflict resolution */}
+      <SaveConflictDialog
+        conflict={conflict}
+        fileName={conflictFile?.name || 'File'}
+        language={conflictFile ? getLanguageFromFile(conflictFile.name) : 'plaintext'}
+        onResolve={handleResolveConflict}
+      />
+
       {/* Main workspace */}
       <div className="flex-1 overflow-hidden">
         {isMobile ? (
           // Mobile layout - stacked vertically
           <div className="flex flex-col h-full">
+            {followBanner}
+
             {/* File tabs - horizontal scrollable */}
             {openTabs.length > 0 && (
               <div className="flex items-center border-b border-border/30 bg-card/30 overflow-x-auto shrink-0">
@@ -526,7 +1079,11 @@ export default function Project() {
                       selectedFile?.id === tab.id && 'bg-sidebar-accent'
                     )}
                   >
+                    {followedUser?.currentFileId === tab.id && followColor && (
+                      <span className="h-1.5 w-1.5 rounded-full shrink-0" style={{ backgroundColor: followColor }} />
+                    )}
                     <span className="truncate max-w-[100px]">{tab.name}</span>
+                    <SaveStatusIndicator status={saveStatus[tab.id]} />
                     <button
                       onClick={(e) => closeTab(tab, e)}
                       className="hover:bg-destructive/20 rounded p-0.5"
@@ -538,14 +1095,30 @@ export default function Project() {
               </div>
             )}
 
+            {/* Preview takes the editor's place */}
+            {showPreview && (
+              <div className="flex-1 min-h-0">
+                <PreviewPane
+                  files={previewFiles}
+                  entryPath={entryFile?.path ?? null}
+                  onConsole={handlePreviewConsole}
+                  onReload={handlePreviewReload}
+                  onClose={togglePreview}
+                />
+              </div>
+            )}
+
             {/* Editor */}
-            <div className="flex-1 min-h-0">
+            <div className={cn('flex-1 min-h-0', showPreview && 'hidden')}>
               {selectedFile || files.length === 0 ? (
                 <Editor
                   height="100%"
+                  path={selectedFile?.id || 'project'}
                   language={currentLanguage}
-                  value={code}
+                  defaultValue={code}
+                  value={selectedFile ? undefined : code}
                   onChange={handleCodeChange}
+                  onMount={setEditorInstance}
                   theme="vs-dark"
                   options={{
                     fontSize: 13,
@@ -559,6 +1132,7 @@ export default function Project() {
                     wordWrap: 'on',
                     tabSize: 2,
                     readOnly: !canEdit,
+                    glyphMargin: diagnostics.length > 0,
                   }}
                 />
               ) : (
@@ -583,39 +1157,45 @@ export default function Project() {
             {/* Terminal/Output */}
             <div className="h-32 bg-terminal border-t border-border/50 shrink-0">
               <div className="flex items-center justify-between px-3 py-1.5 border-b border-border/30">
-                <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                  <Terminal className="h-3.5 w-3.5" />
-                  <span>Output</span>
-                </div>
+                <OutputTabs
+                  tab={outputTab}
+                  onTabChange={setOutputTab}
+                  problemCount={diagnostics.length}
+                  showConsole={showPreview}
+                  compact
+                />
                 <Button
                   variant="ghost"
                   size="sm"
                   className="h-5 text-xs px-2"
-                  onClick={() => setOutput([])}
+                  onClick={outputTab === 'console' ? handlePreviewReload : clearOutput}
                 >
                   Clear
                 </Button>
               </div>
-              <div className="p-2 font-mono text-xs overflow-auto h-[calc(100%-32px)]">
-                {output.length === 0 ? (
-                  <span className="text-muted-foreground">
-                    Tap "Run" to execute...
-                  </span>
-                ) : (
-                  output.map((line, i) => (
-                    <div key={i} className="whitespace-pre-wrap">
-                      {line}
-                    </div>
-                  ))
-                )}
-              </div>
+              {outputTab === 'output' ? (
+                <RunOutput
+                  result={runResult}
+                  isRunning={activeRun?.isRunning ?? false}
+                  placeholder={'Tap "Run" to execute...'}
+                  className="p-2 text-xs h-[calc(100%-32px)]"
+                />
+              ) : outputTab === 'console' ? (
+                <ConsoleOutput entries={consoleEntries} className="p-2 text-xs h-[calc(100%-32px)]" />
+              ) : (
+                <ProblemsList
+                  diagnostics={diagnostics}
+                  onSelect={handleDiagnosticSelect}
+                  className="p-2 text-xs h-[calc(100%-32px)]"
+                />
+              )}
             </div>
           </div>
         ) : (
           // Desktop layout - resizable panels
           <PanelGroup direction="horizontal">
             {/* Sidebar with tabs */}
-            <Panel defaultSize={18} minSize={12} maxSize={30}>
+            <Panel id="sidebar" order={1} defaultSize={18} minSize={12} maxSize={30}>
               <div className="h-full border-r border-border/50 bg-sidebar">
                 <SidebarContent />
               </div>
@@ -624,11 +1204,13 @@ export default function Project() {
             <PanelResizeHandle className="w-1 bg-border/30 hover:bg-primary/50 transition-colors" />
 
             {/* Editor + Terminal */}
-            <Panel defaultSize={82}>
+            <Panel id="workspace" order={2} defaultSize={82}>
               <PanelGroup direction="vertical">
                 {/* Editor with tabs */}
                 <Panel defaultSize={70} minSize={30}>
                   <div className="h-full flex flex-col bg-editor">
+                    {followBanner}
+
                     {/* File tabs */}
                     {openTabs.length > 0 && (
                       <div className="flex items-center border-b border-border/30 bg-card/30 overflow-x-auto">
@@ -641,7 +1223,11 @@ export default function Project() {
                               selectedFile?.id === tab.id && 'bg-sidebar-accent'
                             )}
                           >
+                            {followedUser?.currentFileId === tab.id && followColor && (
+                              <span className="h-1.5 w-1.5 rounded-full shrink-0" style={{ backgroundColor: followColor }} />
+                            )}
                             <span className="truncate max-w-[120px]">{tab.name}</span>
+                            <SaveStatusIndicator status={saveStatus[tab.id]} />
                             <button
                               onClick={(e) => closeTab(tab, e)}
                               className="hover:bg-destructive/20 rounded p-0.5"
@@ -658,9 +1244,12 @@ export default function Project() {
                       {selectedFile || files.length === 0 ? (
                         <Editor
                           height="100%"
+                          path={selectedFile?.id || 'project'}
                           language={currentLanguage}
-                          value={code}
+                          defaultValue={code}
+                          value={selectedFile ? undefined : code}
                           onChange={handleCodeChange}
+                          onMount={setEditorInstance}
                           theme="vs-dark"
                           options={{
                             fontSize: 14,
@@ -680,6 +1269,7 @@ export default function Project() {
                             autoClosingQuotes: 'always',
                             formatOnPaste: true,
                             readOnly: !canEdit,
+                            glyphMargin: diagnostics.length > 0,
                           }}
                         />
                       ) : (
@@ -701,36 +1291,57 @@ export default function Project() {
                 <Panel defaultSize={30} minSize={15}>
                   <div className="h-full bg-terminal border-t border-border/50">
                     <div className="flex items-center justify-between px-4 py-2 border-b border-border/30">
-                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                        <Terminal className="h-4 w-4" />
-                        <span>Output</span>
-                      </div>
+                      <OutputTabs
+                        tab={outputTab}
+                        onTabChange={setOutputTab}
+                        problemCount={diagnostics.length}
+                        showConsole={showPreview}
+                      />
                       <Button
                         variant="ghost"
                         size="sm"
                         className="h-6 text-xs"
-                        onClick={() => setOutput([])}
+                        onClick={outputTab === 'console' ? handlePreviewReload : clearOutput}
                       >
                         Clear
                       </Button>
                     </div>
-                    <div className="p-4 font-mono text-sm overflow-auto h-[calc(100%-41px)]">
-                      {output.length === 0 ? (
-                        <span className="text-muted-foreground">
-                          Click "Run" to execute your code...
-                        </span>
-                      ) : (
-                        output.map((line, i) => (
-                          <div key={i} className="whitespace-pre-wrap">
-                            {line}
-                          </div>
-                        ))
-                      )}
-                    </div>
+                    {outputTab === 'output' ? (
+                      <RunOutput
+                        result={runResult}
+                        isRunning={activeRun?.isRunning ?? false}
+                        placeholder={'Click "Run" to execute your code...'}
+                        className="p-4 text-sm h-[calc(100%-41px)]"
+                      />
+                    ) : outputTab === 'console' ? (
+                      <ConsoleOutput entries={consoleEntries} className="p-4 text-sm h-[calc(100%-41px)]" />
+                    ) : (
+                      <ProblemsList
+                        diagnostics={diagnostics}
+                        onSelect={handleDiagnosticSelect}
+                        className="p-4 text-sm h-[calc(100%-41px)]"
+                      />
+                    )}
                   </div>
                 </Panel>
               </PanelGroup>
             </Panel>
+
+            {/* Live preview */}
+            {showPreview && (
+              <>
+                <PanelResizeHandle className="w-1 bg-border/30 hover:bg-primary/50 transition-colors" />
+                <Panel id="preview" order={3} defaultSize={35} minSize={20}>
+                  <PreviewPane
+                    files={previewFiles}
+                    entryPath={entryFile?.path ?? null}
+                    onConsole={handlePreviewConsole}
+                    onReload={handlePreviewReload}
+                    onClose={togglePreview}
+                  />
+                </Panel>
+              </>
+            )}
           </PanelGroup>
         )}
       </div>
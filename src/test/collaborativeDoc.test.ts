@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from "vitest";
+import * as Y from "yjs";
+import { MonacoBinding, REMOTE_ORIGIN, createFileDoc, getSharedText, type MonacoModel } from "@/lib/collaborativeDoc";
+
+interface Range {
+  startLineNumber: number;
+  startColumn: number;
+  endLineNumber: number;
+  endColumn: number;
+}
+
+interface ContentChange {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+}
+
+// A Monaco text model over a plain string, with just what the binding uses.
+// Edits fire content change events synchronously, like Monaco does.
+class FakeModel {
+  private listeners = new Set<(event: { changes: ContentChange[] }) => void>();
+
+  constructor(public value: string) {}
+
+  getValue() {
+    return this.value;
+  }
+
+  getPositionAt(offset: number) {
+    const before = this.value.slice(0, Math.max(0, Math.min(offset, this.value.length))).split("\n");
+    return { lineNumber: before.length, column: before[before.length - 1].length + 1 };
+  }
+
+  getFullModelRange(): Range {
+    const lines = this.value.split("\n");
+    return { startLineNumber: 1, startColumn: 1, endLineNumber: lines.length, endColumn: lines[lines.length - 1].length + 1 };
+  }
+
+  applyEdits(edits: { range: Range; text: string }[]) {
+    this.change(edits.map(({ range, text }) => {
+      const start = this.offsetAt(range.startLineNumber, range.startColumn);
+      return { rangeOffset: start, rangeLength: this.offsetAt(range.endLineNumber, range.endColumn) - start, text };
+    }));
+  }
+
+  // Apply changes whose offsets all refer to the text before the edit, as
+  // with several cursors, and report them in the order given
+  change(changes: ContentChange[]) {
+    [...changes]
+      .sort((a, b) => b.rangeOffset - a.rangeOffset)
+      .forEach(({ rangeOffset, rangeLength, text }) => {
+        this.value = this.value.slice(0, rangeOffset) + text + this.value.slice(rangeOffset + rangeLength);
+      });
+    this.listeners.forEach((listener) => listener({ changes }));
+  }
+
+  onDidChangeContent(listener: (event: { changes: ContentChange[] }) => void) {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  private offsetAt(lineNumber: number, column: number) {
+    const lines = this.value.split("\n");
+    return lines.slice(0, lineNumber - 1).reduce((sum, line) => sum + line.length + 1, 0) + column - 1;
+  }
+}
+
+function bind(content: string, modelContent = content) {
+  const doc = createFileDoc(content);
+  const ytext = getSharedText(doc);
+  const model = new FakeModel(modelContent);
+  const onLocalChange = vi.fn();
+  const binding = new MonacoBinding(ytext, model as unknown as MonacoModel, onLocalChange);
+  return { doc, ytext, model, binding, onLocalChange };
+}
+
+// Apply an edit made by someone else, the way the realtime channel does
+function applyRemoteEdit(doc: Y.Doc, edit: (text: Y.Text) => void) {
+  const remote = new Y.Doc();
+  Y.applyUpdate(remote, Y.encodeStateAsUpdate(doc));
+  const before = Y.encodeStateVector(remote);
+  edit(getSharedText(remote));
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(remote, before), REMOTE_ORIGIN);
+}
+
+describe("MonacoBinding", () => {
+  it("brings the model in line with the shared text without echoing it back", () => {
+    const { model, ytext, onLocalChange } = bind("shared", "stale");
+
+    expect(model.getValue()).toBe("shared");
+    expect(ytext.toString()).toBe("shared");
+    expect(onLocalChange).not.toHaveBeenCalled();
+  });
+
+  it("applies local edits to the shared text", () => {
+    const { model, ytext, onLocalChange } = bind("hello world");
+
+    model.change([{ rangeOffset: 6, rangeLength: 5, text: "there" }]);
+
+    expect(ytext.toString()).toBe("hello there");
+    expect(onLocalChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("applies several changes of one edit from the end, so their offsets stay valid", () => {
+    const { model, ytext } = bind("let a = 1;\nlet b = 2;\n");
+
+    // Renaming with two cursors, reported front to back against the old text
+    model.change([
+      { rangeOffset: 4, rangeLength: 1, text: "first" },
+      { rangeOffset: 15, rangeLength: 1, text: "second" },
+    ]);
+
+    expect(model.getValue()).toBe("let first = 1;\nlet second = 2;\n");
+    expect(ytext.toString()).toBe(model.getValue());
+  });
+
+  it("applies each local edit in one transaction, tagged with the binding", () => {
+    const { doc, model, binding } = bind("abc");
+    const origins: unknown[] = [];
+    doc.on("update", (_update: Uint8Array, origin: unknown) => origins.push(origin));
+
+    model.change([
+      { rangeOffset: 0, rangeLength: 1, text: "A" },
+      { rangeOffset: 2, rangeLength: 1, text: "C" },
+    ]);
+
+    expect(origins).toEqual([binding]);
+  });
+
+  it("maps remote inserts and deletes across lines to model edits", () => {
+    const { doc, ytext, model } = bind("line one\nline two\nline three");
+
+    applyRemoteEdit(doc, (text) => {
+      text.delete(5, 3);
+      text.insert(5, "1");
+      text.insert(text.length, "\nline four");
+      text.insert(0, "// header\n");
+    });
+
+    expect(model.getValue()).toBe("// header\nline 1\nline two\nline three\nline four");
+    expect(model.getValue()).toBe(ytext.toString());
+  });
+
+  it("maps a remote delete spanning lines", () => {
+    const { doc, model } = bind("keep\ndrop\ndrop\nkeep");
+
+    applyRemoteEdit(doc, (text) => text.delete(4, 10));
+
+    expect(model.getValue()).toBe("keep\nkeep");
+  });
+
+  it("does not echo remote edits back into the shared text", () => {
+    const { doc, ytext, model, binding, onLocalChange } = bind("abc");
+    const localUpdates = vi.fn();
+    doc.on("update", (_update: Uint8Array, origin: unknown) => {
+      if (origin !== REMOTE_ORIGIN) localUpdates(origin);
+    });
+    const seen: boolean[] = [];
+    model.onDidChangeContent(() => seen.push(binding.isApplyingRemote));
+
+    applyRemoteEdit(doc, (text) => text.insert(3, "d"));
+
+    expect(model.getValue()).toBe("abcd");
+    expect(ytext.toString()).toBe("abcd");
+    expect(seen).toEqual([true]);
+    expect(binding.isApplyingRemote).toBe(false);
+    expect(localUpdates).not.toHaveBeenCalled();
+    expect(onLocalChange).not.toHaveBeenCalled();
+  });
+
+  it("stops syncing in both directions once destroyed", () => {
+    const { doc, ytext, model, binding, onLocalChange } = bind("abc");
+
+    binding.destroy();
+    model.change([{ rangeOffset: 0, rangeLength: 0, text: "x" }]);
+    applyRemoteEdit(doc, (text) => text.insert(0, "y"));
+
+    expect(ytext.toString()).toBe("yabc");
+    expect(model.getValue()).toBe("xabc");
+    expect(onLocalChange).not.toHaveBeenCalled();
+  });
+});
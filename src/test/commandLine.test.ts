@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseArgs } from "@/lib/commandLine";
+
+describe("parseArgs", () => {
+  it("returns no arguments for empty or blank input", () => {
+    expect(parseArgs("")).toEqual([]);
+    expect(parseArgs("   \t\n ")).toEqual([]);
+  });
+
+  it("splits on any run of whitespace", () => {
+    expect(parseArgs("  one two\t three\n")).toEqual(["one", "two", "three"]);
+  });
+
+  it("keeps spaces inside double and single quotes", () => {
+    expect(parseArgs(`"hello world" 'a  b' c`)).toEqual(["hello world", "a  b", "c"]);
+  });
+
+  it("joins quoted and unquoted parts of one argument", () => {
+    expect(parseArgs(`--name="Ada Lovelace" x'y z'`)).toEqual(["--name=Ada Lovelace", "xy z"]);
+  });
+
+  it("keeps empty quoted arguments", () => {
+    expect(parseArgs(`a "" ''`)).toEqual(["a", "", ""]);
+  });
+
+  it("unescapes quotes inside double quotes", () => {
+    expect(parseArgs(`"say \\"hi\\""`)).toEqual([`say "hi"`]);
+  });
+
+  it("keeps backslashes inside single quotes", () => {
+    expect(parseArgs(`'a\\b'`)).toEqual(["a\\b"]);
+  });
+
+  it("escapes spaces and quotes outside of quotes", () => {
+    expect(parseArgs(`a\\ b \\"c\\"`)).toEqual(["a b", `"c"`]);
+  });
+
+  it("keeps a trailing backslash", () => {
+    expect(parseArgs("a\\")).toEqual(["a\\"]);
+  });
+
+  it("runs an unterminated quote to the end of the input", () => {
+    expect(parseArgs(`one "two three`)).toEqual(["one", "two three"]);
+    expect(parseArgs(`'`)).toEqual([""]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseDiagnostics } from "../../supabase/functions/execute-code/diagnostics.ts";
+import { prepareProject, type SourceFile } from "../../supabase/functions/execute-code/project.ts";
+import { DiagnosticRenderer } from "@/lib/diagnostics";
+import type { MonacoEditor } from "@/lib/collaborativeDoc";
+import gccOutput from "./fixtures/diagnostics/gcc.txt?raw";
+import javacOutput from "./fixtures/diagnostics/javac.txt?raw";
+import javaOutput from "./fixtures/diagnostics/java.txt?raw";
+import nodeOutput from "./fixtures/diagnostics/node.txt?raw";
+import pythonOutput from "./fixtures/diagnostics/python.txt?raw";
+import tscOutput from "./fixtures/diagnostics/tsc.txt?raw";
+
+// Output captured from gcc 12, Python 3.11, tsc 5 and Node 20 runs, with the
+// job directory left as it was printed. The javac and Java fixtures follow
+// the format of JDK 17 in single-file source mode.
+function diagnose(language: string, files: SourceFile[], entry: string, output: { compile?: string; run?: string }) {
+  const project = prepareProject(language, files, entry);
+  return parseDiagnostics(language, output, project.resolveLocation);
+}
+
+describe("parseDiagnostics", () => {
+  it("reads gcc errors and warnings, leaving out notes", () => {
+    const files = [
+      { path: "main.c", content: "" },
+      { path: "lib/util.h", content: "" },
+    ];
+    expect(diagnose("c", files, "main.c", { compile: gccOutput })).toEqual([
+      { path: "main.c", line: 6, column: 20, severity: "error", message: "'x' undeclared (first use in this function)", source: "gcc" },
+      { path: "main.c", line: 7, column: 21, severity: "error", message: "expected ';' before '}' token", source: "gcc" },
+      { path: "main.c", line: 5, column: 9, severity: "warning", message: "unused variable 'unused' [-Wunused-variable]", source: "gcc" },
+    ]);
+  });
+
+  it("leaves out gcc messages about files outside the project", () => {
+    const output = "/usr/include/stdio.h:12:1: error: unknown type name 'oops'\nlib/util.h:1:5: warning: something\n";
+    const files = [
+      { path: "main.c", content: "" },
+      { path: "lib/util.h", content: "" },
+    ];
+    expect(diagnose("c", files, "main.c", { compile: output })).toEqual([
+      { path: "lib/util.h", line: 1, column: 5, severity: "warning", message: "something", source: "gcc" },
+    ]);
+  });
+
+  it("reads tsc errors with their indented details", () => {
+    const files = [
+      { path: "main.ts", content: "" },
+      { path: "chain.ts", content: "" },
+    ];
+    expect(diagnose("typescript", files, "main.ts", { compile: tscOutput })).toEqual([
+      {
+        path: "chain.ts",
+        line: 2,
+        column: 7,
+        severity: "error",
+        message: "Type '{ x: number; y: string; }' is not assignable to type 'Point'. (TS2322)\n"
+          + "Types of property 'y' are incompatible.\n"
+          + "Type 'string' is not assignable to type 'number'.",
+        source: "tsc",
+      },
+      { path: "main.ts", line: 1, column: 7, severity: "error", message: "Type 'string' is not assignable to type 'number'. (TS2322)", source: "tsc" },
+      { path: "main.ts", line: 5, column: 7, severity: "error", message: "Argument of type 'number' is not assignable to parameter of type 'string'. (TS2345)", source: "tsc" },
+    ]);
+  });
+
+  it("reads tsc errors printed with --pretty", () => {
+    const output = "main.ts:1:7 - error TS2322: Type 'string' is not assignable to type 'number'.\n\n1 const count: number = \"three\";\n        ~~~~~\n";
+    expect(diagnose("typescript", [{ path: "main.ts", content: "" }], "main.ts", { compile: output })).toEqual([
+      { path: "main.ts", line: 1, column: 7, severity: "error", message: "Type 'string' is not assignable to type 'number'. (TS2322)", source: "tsc" },
+    ]);
+  });
+
+  it("places an uncaught Node error at its innermost project frame", () => {
+    const files = [
+      { path: "main.js", content: "" },
+      { path: "util.js", content: "" },
+    ];
+    expect(diagnose("javascript", files, "main.js", { run: nodeOutput })).toEqual([
+      { path: "util.js", line: 2, column: 18, severity: "error", message: "TypeError: Cannot read properties of undefined (reading 'name')", source: "node" },
+    ]);
+  });
+
+  it("places a Python exception at its innermost project frame, skipping the launcher", () => {
+    const files = [
+      { path: "app/__init__.py", content: "" },
+      { path: "app/main.py", content: "from .helpers import divide\n\nprint(divide(1, 0))\n" },
+      { path: "app/helpers.py", content: "def divide(a, b):\n    return a / b\n" },
+    ];
+    expect(diagnose("python", files, "app/main.py", { run: pythonOutput })).toEqual([
+      { path: "app/helpers.py", line: 2, column: null, severity: "error", message: "ZeroDivisionError: division by zero", source: "python" },
+    ]);
+  });
+
+  describe("Java, merged into one file", () => {
+    const files = [
+      {
+        path: "Main.java",
+        content: [
+          "import util.Helper;",
+          "public class Main {",
+          "    public static void main(String[] args) {",
+          "        System.out.println(Helper.half(count));",
+          "    }",
+          "}",
+        ].join("\n"),
+      },
+      {
+        path: "util/Helper.java",
+        content: [
+          "package util;",
+          "",
+          "public class Helper {",
+          "    public static int half(int n) {",
+          "        return n / 0;",
+          "    }",
+          "}",
+        ].join("\n"),
+      },
+    ];
+
+    it("maps javac errors back to the original file, column from the caret", () => {
+      expect(diagnose("java", files, "Main.java", { run: javacOutput })).toEqual([
+        {
+          path: "Main.java",
+          line: 4,
+          column: 40,
+          severity: "error",
+          message: "cannot find symbol\nsymbol:   variable count\nlocation: class Main",
+          source: "javac",
+        },
+      ]);
+    });
+
+    it("maps an uncaught exception to the file it was thrown in", () => {
+      expect(diagnose("java", files, "Main.java", { run: javaOutput })).toEqual([
+        { path: "util/Helper.java", line: 5, column: null, severity: "error", message: "java.lang.ArithmeticException: / by zero", source: "java" },
+      ]);
+    });
+  });
+
+  it("finds nothing for languages without parsers", () => {
+    expect(parseDiagnostics("cobol", { run: "error" }, () => ({ path: "main.cob", line: 1 }))).toEqual([]);
+  });
+});
+
+// A Monaco editor over plain text, with just what the renderer uses
+function fakeEditor(text: string) {
+  const lines = text.split("\n");
+  const collection = { set: vi.fn(), clear: vi.fn() };
+  const model = {
+    getLineCount: () => lines.length,
+    getLineMaxColumn: (line: number) => lines[line - 1].length + 1,
+    getLineFirstNonWhitespaceColumn: (line: number) => {
+      const index = lines[line - 1].search(/\S/);
+      return index === -1 ? 0 : index + 1;
+    },
+    getWordAtPosition: ({ lineNumber, column }: { lineNumber: number; column: number }) => {
+      for (const match of lines[lineNumber - 1].matchAll(/\w+/g)) {
+        const startColumn = match.index! + 1;
+        const endColumn = startColumn + match[0].length;
+        if (column >= startColumn && column <= endColumn) return { word: match[0], startColumn, endColumn };
+      }
+      return null;
+    },
+  };
+  const editor = {
+    getModel: () => model,
+    createDecorationsCollection: () => collection,
+  } as unknown as MonacoEditor;
+  return { editor, collection };
+}
+
+describe("DiagnosticRenderer", () => {
+  const diagnostic = { path: "main.c", severity: "error" as const, message: "'x' undeclared", source: "gcc" };
+
+  it("underlines the word at the reported column", () => {
+    const { editor, collection } = fakeEditor("int main(void) {\n    printf(\"%d\\n\", x);\n}");
+    new DiagnosticRenderer(editor).render([{ ...diagnostic, line: 2, column: 20 }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations).toHaveLength(1);
+    expect(decorations[0].range).toEqual({ startLineNumber: 2, startColumn: 20, endLineNumber: 2, endColumn: 21 });
+    expect(decorations[0].options.className).toBe("squiggly-error");
+    expect(decorations[0].options.hoverMessage).toEqual({ value: "**gcc**: 'x' undeclared" });
+  });
+
+  it("underlines the line from its first character without a column", () => {
+    const { editor, collection } = fakeEditor("def f():\n    return a / b");
+    new DiagnosticRenderer(editor).render([{ ...diagnostic, severity: "warning", line: 2, column: null }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations[0].range).toEqual({ startLineNumber: 2, startColumn: 5, endLineNumber: 2, endColumn: 17 });
+    expect(decorations[0].options.className).toBe("squiggly-warning");
+  });
+
+  it("clamps a column past the end of the line", () => {
+    const { editor, collection } = fakeEditor("return x");
+    new DiagnosticRenderer(editor).render([{ ...diagnostic, line: 1, column: 40 }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations[0].range).toEqual({ startLineNumber: 1, startColumn: 8, endLineNumber: 1, endColumn: 9 });
+  });
+
+  it("skips lines the open file does not have", () => {
+    const { editor, collection } = fakeEditor("one line");
+    new DiagnosticRenderer(editor).render([
+      { ...diagnostic, line: 0, column: null },
+      { ...diagnostic, line: 2, column: 1 },
+    ]);
+
+    expect(collection.set).toHaveBeenCalledWith([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_OUTPUT_LENGTH,
+  collectStreamedResult,
+  limitStreamedOutput,
+  toExecutionReport,
+  toLegacyOutput,
+} from "../../supabase/functions/execute-code/result.ts";
+import type { ExecutionEvent, StageResult } from "../../supabase/functions/execute-code/providers.ts";
+
+function stage(result: Partial<StageResult>): StageResult {
+  return { stdout: "", stderr: "", output: "", code: 0, signal: null, wallTime: 12, memory: null, ...result };
+}
+
+describe("toExecutionReport", () => {
+  it("cuts stdout and stderr at the limit and flags the stage", () => {
+    const long = "x".repeat(MAX_OUTPUT_LENGTH + 10);
+    const report = toExecutionReport({ run: stage({ stdout: long, stderr: "oops" }) }, []);
+
+    expect(report.compile).toBeNull();
+    expect(report.run!.stdout).toHaveLength(MAX_OUTPUT_LENGTH);
+    expect(report.run!.stderr).toBe("oops");
+    expect(report.run!.truncated).toBe(true);
+  });
+
+  it("keeps output at the limit whole and the truncated flag of the backend", () => {
+    const exact = "x".repeat(MAX_OUTPUT_LENGTH);
+    expect(toExecutionReport({ run: stage({ stdout: exact }) }, []).run!.truncated).toBe(false);
+    expect(toExecutionReport({ run: stage({ truncated: true }) }, []).run!.truncated).toBe(true);
+  });
+});
+
+describe("toLegacyOutput", () => {
+  it("reports compiler output of a failed compilation", () => {
+    const report = toExecutionReport({ compile: stage({ stderr: "main.c:1: error\n", code: 1 }) }, []);
+    expect(toLegacyOutput(report)).toEqual(["❌ Compilation Error:", "main.c:1: error"]);
+  });
+
+  it("lists stdout, stderr and a silent failure", () => {
+    expect(toLegacyOutput(toExecutionReport({ run: stage({ stdout: "hi\n", stderr: "warn\n" }) }, [])))
+      .toEqual(["hi", "⚠️ stderr: warn"]);
+    expect(toLegacyOutput(toExecutionReport({ run: stage({ code: 3 }) }, [])))
+      .toEqual(["❌ Process exited with code 3"]);
+    expect(toLegacyOutput(toExecutionReport({ run: stage({}) }, [])))
+      .toEqual(["✓ Code executed successfully (no output)"]);
+  });
+});
+
+describe("limitStreamedOutput", () => {
+  it("stops each stream of a stage at the limit and flags its exit", () => {
+    const events: ExecutionEvent[] = [];
+    const onEvent = limitStreamedOutput((event) => events.push(event));
+    const half = "x".repeat(MAX_OUTPUT_LENGTH / 2 + 1);
+
+    onEvent({ type: "start", stage: "run" });
+    onEvent({ type: "stdout", stage: "run", data: half });
+    onEvent({ type: "stdout", stage: "run", data: half });
+    onEvent({ type: "stdout", stage: "run", data: "dropped" });
+    onEvent({ type: "stderr", stage: "run", data: "still sent" });
+    onEvent({ type: "exit", stage: "run", code: 0, signal: null, wallTime: 5, memory: null });
+
+    const stdout = events.filter((event) => event.type === "stdout");
+    expect(stdout).toHaveLength(2);
+    expect(stdout.map((event) => event.type === "stdout" && event.data).join("")).toHaveLength(MAX_OUTPUT_LENGTH);
+    expect(events).toContainEqual({ type: "stderr", stage: "run", data: "still sent" });
+    expect(events[events.length - 1]).toMatchObject({ type: "exit", truncated: true });
+  });
+
+  it("counts the compile and run stages separately", () => {
+    const events: ExecutionEvent[] = [];
+    const onEvent = limitStreamedOutput((event) => events.push(event));
+    const full = "x".repeat(MAX_OUTPUT_LENGTH);
+
+    onEvent({ type: "stdout", stage: "compile", data: full });
+    onEvent({ type: "exit", stage: "compile", code: 0, signal: null, wallTime: 5, memory: null });
+    onEvent({ type: "stdout", stage: "run", data: "ok" });
+    onEvent({ type: "exit", stage: "run", code: 0, signal: null, wallTime: 5, memory: null });
+
+    expect(events).toContainEqual({ type: "stdout", stage: "run", data: "ok" });
+    expect(events.filter((event) => event.type === "exit").map((event) => event.type === "exit" && event.truncated))
+      .toEqual([false, false]);
+  });
+});
+
+describe("collectStreamedResult", () => {
+  it("rebuilds the stages that started from their events", () => {
+    const { onEvent, result } = collectStreamedResult();
+
+    onEvent({ type: "stdout", stage: "compile", data: "before start" });
+    onEvent({ type: "start", stage: "run" });
+    onEvent({ type: "stdout", stage: "run", data: "a" });
+    onEvent({ type: "stderr", stage: "run", data: "b" });
+    onEvent({ type: "stdout", stage: "run", data: "c" });
+    onEvent({ type: "exit", stage: "run", code: 1, signal: null, wallTime: 7, memory: 2048, truncated: true });
+
+    expect(result.compile).toBeUndefined();
+    expect(result.run).toEqual({
+      stdout: "ac",
+      stderr: "b",
+      output: "abc",
+      code: 1,
+      signal: null,
+      wallTime: 7,
+      memory: 2048,
+      truncated: true,
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { describeInviteStatus, getInviteLink } from "@/lib/invites";
+
+const noLimits = { expires_at: null, max_uses: null };
+
+describe("getInviteLink", () => {
+  it("puts the token on the invite route of the current origin", () => {
+    const token = "q1Zt-8_xYk3LmN0pQrStUvWxYz012345";
+    expect(getInviteLink(token)).toBe(`${window.location.origin}/invite/${token}`);
+  });
+});
+
+describe("describeInviteStatus", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("has nothing to say about a valid invite", () => {
+    expect(describeInviteStatus("valid", noLimits)).toBeNull();
+  });
+
+  it("says when an invite expired", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+
+    expect(describeInviteStatus("expired", { ...noLimits, expires_at: "2026-10-17T12:00:00Z" }))
+      .toBe("This invite expired 2 days ago. Ask the project owner for a new one.");
+    expect(describeInviteStatus("expired", noLimits))
+      .toBe("This invite has expired. Ask the project owner for a new one.");
+  });
+
+  it("tells single-use invites apart from used up ones", () => {
+    expect(describeInviteStatus("used_up", { ...noLimits, max_uses: 1 }))
+      .toMatch(/^This invite could only be used once/);
+    expect(describeInviteStatus("used_up", { ...noLimits, max_uses: 5 }))
+      .toMatch(/^This invite could be used 5 times and has been used up/);
+  });
+
+  it("explains revoked invites and invites for another email", () => {
+    expect(describeInviteStatus("revoked", noLimits)).toMatch(/revoked this invite/);
+    expect(describeInviteStatus("wrong_email", noLimits)).toMatch(/different email address/);
+  });
+
+  it("refuses statuses it does not know", () => {
+    expect(describeInviteStatus("something_new", noLimits)).toBe("This invite cannot be used.");
+  });
+});
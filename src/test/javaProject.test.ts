@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { ProjectError, prepareProject } from "../../supabase/functions/execute-code/project.ts";
+
+const main = {
+  path: "Main.java",
+  content: [
+    "import util.Helper;",
+    "",
+    "public class Main {",
+    "  public static void main(String[] args) {",
+    "    System.out.println(Helper.twice(21));",
+    "  }",
+    "}",
+  ].join("\n"),
+};
+
+const helper = {
+  path: "util/Helper.java",
+  content: [
+    "package util;",
+    "",
+    "import java.util.List;",
+    "",
+    "public class Helper {",
+    "  public static int twice(int n) {",
+    "    return n * 2;",
+    "  }",
+    "}",
+  ].join("\n"),
+};
+
+describe("prepareProject for Java", () => {
+  it("merges the project into one file named after the main class", () => {
+    const { files } = prepareProject("java", [main, helper], "Main.java");
+    expect(files).toHaveLength(1);
+    expect(files[0].name).toBe("Main.java");
+    expect(files[0].content).toContain("import java.util.List;");
+    expect(files[0].content).not.toContain("import util.Helper;");
+    expect(files[0].content).not.toContain("package util;");
+    expect(files[0].content).toContain("\nclass Helper {");
+  });
+
+  it("keeps static imports of library classes", () => {
+    const entry = { ...main, content: `import static java.lang.Math.max;\n${main.content}` };
+    const { files } = prepareProject("java", [entry, helper], "Main.java");
+    expect(files[0].content).toContain("import static java.lang.Math.max;");
+  });
+
+  it("refuses static imports of project classes", () => {
+    const entry = { ...main, content: `import static util.Helper.twice;\n${main.content}` };
+    expect(() => prepareProject("java", [entry, helper], "Main.java")).toThrow(ProjectError);
+    expect(() => prepareProject("java", [entry, helper], "Main.java")).toThrow("Main.java:1: import static util.Helper.twice");
+  });
+
+  it("refuses classes of the same name in different packages", () => {
+    const other = { path: "other/Helper.java", content: "package other;\n\npublic class Helper {}\n" };
+    expect(() => prepareProject("java", [main, helper, other], "Main.java")).toThrow(
+      "Helper is declared in both util/Helper.java and other/Helper.java",
+    );
+  });
+
+  it("allows nested classes that share a name with another class", () => {
+    const entry = {
+      ...main,
+      content: main.content.replace("public class Main {", "public class Main {\n  static class Helper {}"),
+    };
+    expect(() => prepareProject("java", [entry, helper], "Main.java")).not.toThrow();
+  });
+});
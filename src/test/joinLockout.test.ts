@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { getLockoutMessage } from "@/lib/joinLockout";
+
+function postgrestError(code: string, message: string): PostgrestError {
+  return { code, message, details: "", hint: "", name: "PostgrestError" } as PostgrestError;
+}
+
+describe("getLockoutMessage", () => {
+  it("passes on the wait the database reports for a lockout", () => {
+    expect(getLockoutMessage(postgrestError("PT429", "Too many wrong passwords. Try again in 30 seconds.")))
+      .toBe("Too many wrong passwords. Try again in 30 seconds.");
+  });
+
+  it("ignores other errors and successful calls", () => {
+    expect(getLockoutMessage(postgrestError("42501", "Sign in to join a project"))).toBeNull();
+    expect(getLockoutMessage(null)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { buildPreviewDocument, hasPreviewablePage, PREVIEW_MESSAGE_SOURCE } from "@/lib/preview";
+
+const parse = (html: string) => new DOMParser().parseFromString(html, "text/html");
+
+// Inline scripts other than the console bridge, which always comes first
+const pageScripts = (doc: Document) =>
+  Array.from(doc.querySelectorAll("script")).filter((script) => !script.textContent!.includes(PREVIEW_MESSAGE_SOURCE));
+
+describe("buildPreviewDocument", () => {
+  it("inlines linked stylesheets and scripts", () => {
+    const html = buildPreviewDocument([
+      {
+        path: "index.html",
+        content: '<html><head><link rel="stylesheet" href="style.css" media="screen"></head>'
+          + '<body><h1>Hi</h1><script src="app.js" type="module" defer></script></body></html>',
+      },
+      { path: "style.css", content: "h1 { color: red; }" },
+      { path: "app.js", content: "console.log('hi');" },
+    ], "index.html");
+    const doc = parse(html);
+
+    expect(html.startsWith("<!DOCTYPE html>\n")).toBe(true);
+    expect(doc.querySelector("link")).toBeNull();
+    const style = doc.querySelector("style")!;
+    expect(style.textContent).toBe("h1 { color: red; }");
+    expect(style.getAttribute("media")).toBe("screen");
+
+    const [script] = pageScripts(doc);
+    expect(script.hasAttribute("src")).toBe(false);
+    expect(script.getAttribute("type")).toBe("module");
+    expect(script.hasAttribute("defer")).toBe(true);
+    expect(script.textContent).toBe("console.log('hi');");
+  });
+
+  it("puts the console bridge before anything else", () => {
+    const doc = parse(buildPreviewDocument([
+      { path: "index.html", content: "<head><script>console.log(1)</script></head>" },
+    ], null));
+
+    expect(doc.head.firstElementChild!.tagName).toBe("SCRIPT");
+    expect(doc.head.firstElementChild!.textContent).toContain(PREVIEW_MESSAGE_SOURCE);
+  });
+
+  it("resolves links relative to the page, from the root and with ./, ../, queries and fragments", () => {
+    const doc = parse(buildPreviewDocument([
+      {
+        path: "site/pages/index.html",
+        content: [
+          '<link rel="stylesheet" href="../css/base.css?v=2">',
+          '<link rel="stylesheet" href="/shared/theme.css">',
+          '<script src="./local.js#main"></script>',
+        ].join(""),
+      },
+      { path: "site/css/base.css", content: ".base {}" },
+      { path: "shared/theme.css", content: ".theme {}" },
+      { path: "site/pages/local.js", content: "local()" },
+    ], "site/pages/index.html"));
+
+    expect(Array.from(doc.querySelectorAll("style"), (style) => style.textContent)).toEqual([".base {}", ".theme {}"]);
+    expect(pageScripts(doc).map((script) => script.textContent)).toEqual(["local()"]);
+  });
+
+  it("leaves external and missing files linked", () => {
+    const doc = parse(buildPreviewDocument([
+      {
+        path: "index.html",
+        content: [
+          '<link rel="stylesheet" href="https://cdn.example.com/lib.css">',
+          '<link rel="stylesheet" href="missing.css">',
+          '<script src="//cdn.example.com/lib.js"></script>',
+        ].join(""),
+      },
+    ], "index.html"));
+
+    expect(Array.from(doc.querySelectorAll("link"), (link) => link.getAttribute("href"))).toEqual([
+      "https://cdn.example.com/lib.css",
+      "missing.css",
+    ]);
+    expect(pageScripts(doc)[0].getAttribute("src")).toBe("//cdn.example.com/lib.js");
+  });
+
+  it("escapes closing tags inside inlined code", () => {
+    const html = buildPreviewDocument([
+      { path: "index.html", content: '<script src="app.js"></script><p id="after">after</p>' },
+      { path: "app.js", content: "document.write('</script>');" },
+    ], "index.html");
+    const doc = parse(html);
+
+    expect(pageScripts(doc)[0].textContent).toBe("document.write('<\\/script>');");
+    expect(doc.getElementById("after")).not.toBeNull();
+  });
+
+  it("shows the preferred HTML file, else the top-most index.html", () => {
+    const files = [
+      { path: "docs/index.html", content: "<title>docs</title>" },
+      { path: "index.html", content: "<title>root</title>" },
+      { path: "about.html", content: "<title>about</title>" },
+      { path: "app.js", content: "" },
+    ];
+
+    expect(parse(buildPreviewDocument(files, "about.html")).title).toBe("about");
+    expect(parse(buildPreviewDocument(files, "app.js")).title).toBe("root");
+    expect(parse(buildPreviewDocument(files, null)).title).toBe("root");
+  });
+
+  it("applies every stylesheet and script to a placeholder page without HTML", () => {
+    const doc = parse(buildPreviewDocument([
+      { path: "style.css", content: "body {}" },
+      { path: "main.js", content: "main()" },
+      { path: "notes.txt", content: "ignored" },
+    ], null));
+
+    expect(doc.title).toBe("Preview");
+    expect(doc.head.querySelector("style")!.textContent).toBe("body {}");
+    expect(pageScripts(doc).map((script) => script.textContent)).toEqual(["main()"]);
+    expect(doc.body.textContent).not.toContain("ignored");
+  });
+});
+
+describe("hasPreviewablePage", () => {
+  it("looks for HTML files", () => {
+    expect(hasPreviewablePage(["src/main.js", "pages/About.HTM"])).toBe(true);
+    expect(hasPreviewablePage(["style.css", "main.js"])).toBe(false);
+  });
+});
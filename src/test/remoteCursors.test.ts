@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from "vitest";
+import { RemoteCursorRenderer, type RemoteCursor } from "@/lib/remoteCursors";
+import type { MonacoEditor } from "@/lib/collaborativeDoc";
+
+// A Monaco editor over plain text, with just what the renderer uses
+function fakeEditor(text: string) {
+  const collection = { set: vi.fn(), clear: vi.fn() };
+  const model = {
+    getValueLength: () => text.length,
+    getPositionAt: (offset: number) => {
+      const before = text.slice(0, offset).split("\n");
+      return { lineNumber: before.length, column: before[before.length - 1].length + 1 };
+    },
+  };
+  const editor = {
+    getModel: () => model,
+    createDecorationsCollection: () => collection,
+    addContentWidget: vi.fn(),
+    removeContentWidget: vi.fn(),
+    layoutContentWidget: vi.fn(),
+  };
+  return { editor, renderer: new RemoteCursorRenderer(editor as unknown as MonacoEditor), collection };
+}
+
+const cursor: RemoteCursor = { userId: "u1", username: "ada", color: "#ff0000", anchor: 0, head: 0 };
+
+describe("RemoteCursorRenderer", () => {
+  it("draws a caret without a selection when anchor and head meet", () => {
+    const { renderer, collection } = fakeEditor("hello\nworld");
+    renderer.render([{ ...cursor, anchor: 8, head: 8 }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations).toHaveLength(1);
+    expect(decorations[0].range).toEqual({ startLineNumber: 2, startColumn: 3, endLineNumber: 2, endColumn: 3 });
+    expect(decorations[0].options.beforeContentClassName).toBe("remote-caret-ff0000");
+  });
+
+  it("highlights a backwards selection from its start", () => {
+    const { renderer, collection } = fakeEditor("hello\nworld");
+    renderer.render([{ ...cursor, anchor: 8, head: 2 }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations[0].range).toEqual({ startLineNumber: 1, startColumn: 3, endLineNumber: 2, endColumn: 3 });
+    expect(decorations[0].options.className).toBe("remote-selection-ff0000");
+    expect(decorations[1].range.startColumn).toBe(3);
+    expect(decorations[1].range.startLineNumber).toBe(1);
+  });
+
+  it("clamps offsets past the end of a document that got shorter", () => {
+    const { renderer, collection } = fakeEditor("hi\nthere");
+    renderer.render([{ ...cursor, anchor: 3, head: 50 }]);
+
+    const [decorations] = collection.set.mock.calls[0];
+    expect(decorations[0].range).toEqual({ startLineNumber: 2, startColumn: 1, endLineNumber: 2, endColumn: 6 });
+    expect(decorations[1].range).toEqual({ startLineNumber: 2, startColumn: 6, endLineNumber: 2, endColumn: 6 });
+  });
+
+  it("moves an existing label instead of adding another", () => {
+    const { editor, renderer } = fakeEditor("hello");
+    renderer.render([cursor]);
+    renderer.render([{ ...cursor, anchor: 4, head: 4, username: "ada l." }]);
+
+    expect(editor.addContentWidget).toHaveBeenCalledTimes(1);
+    expect(editor.layoutContentWidget).toHaveBeenCalledTimes(1);
+    const widget = editor.addContentWidget.mock.calls[0][0];
+    expect(widget.getPosition().position).toEqual({ lineNumber: 1, column: 5 });
+    expect(widget.getDomNode().textContent).toBe("ada l.");
+  });
+
+  it("removes labels of users that are no longer shown", () => {
+    const { editor, renderer } = fakeEditor("hello");
+    renderer.render([cursor, { ...cursor, userId: "u2", username: "grace" }]);
+    renderer.render([cursor]);
+
+    expect(editor.removeContentWidget).toHaveBeenCalledTimes(1);
+    expect(editor.removeContentWidget.mock.calls[0][0].getId()).toBe("remote-cursor-u2");
+  });
+});
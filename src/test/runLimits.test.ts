@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { RunLimitError, describeRunLimit, readRunError } from "@/lib/runLimits";
+
+describe("describeRunLimit", () => {
+  it("tells users about their own limit", () => {
+    expect(describeRunLimit({ scope: "user", window: "minute", limit: 10, retryAfter: 1 }))
+      .toBe("You've reached your limit of 10 runs per minute. Try again in 1 second.");
+  });
+
+  it("tells collaborators about the project's limit", () => {
+    expect(describeRunLimit({ scope: "project", window: "day", limit: 500, retryAfter: 45 }))
+      .toBe("This project has reached its limit of 500 runs per day. Try again in 45 seconds.");
+  });
+
+  it("rounds longer waits up to minutes and hours", () => {
+    const limit = { scope: "user" as const, window: "day" as const, limit: 200 };
+    expect(describeRunLimit({ ...limit, retryAfter: 60 })).toMatch(/in 1 minute\.$/);
+    expect(describeRunLimit({ ...limit, retryAfter: 61 })).toMatch(/in 2 minutes\.$/);
+    expect(describeRunLimit({ ...limit, retryAfter: 3600 })).toMatch(/in 1 hour\.$/);
+    expect(describeRunLimit({ ...limit, retryAfter: 5 * 3600 + 1 })).toMatch(/in 6 hours\.$/);
+  });
+});
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+describe("readRunError", () => {
+  it("reads the limit of a rate limited response", async () => {
+    const error = await readRunError(jsonResponse(429, {
+      error: "Too many runs",
+      code: "rate_limited",
+      scope: "project",
+      window: "minute",
+      limit: 30,
+      retryAfter: 20,
+    }));
+
+    expect(error).toBeInstanceOf(RunLimitError);
+    expect((error as RunLimitError).limit).toEqual({ scope: "project", window: "minute", limit: 30, retryAfter: 20 });
+    expect(error.message).toBe("This project has reached its limit of 30 runs per minute. Try again in 20 seconds.");
+  });
+
+  it("keeps other errors as they were sent", async () => {
+    const error = await readRunError(jsonResponse(429, { error: "Slow down" }));
+    expect(error).not.toBeInstanceOf(RunLimitError);
+    expect(error.message).toBe("Slow down");
+  });
+
+  it("falls back to the status when the body is not JSON", async () => {
+    const error = await readRunError(new Response("Bad gateway", { status: 502 }));
+    expect(error.message).toBe("Request failed with status 502");
+  });
+});
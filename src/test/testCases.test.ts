@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { compareOutput } from "@/lib/testCases";
+
+const passes = (actual: string, expected: string, mode: Parameters<typeof compareOutput>[2], tolerance = 0) =>
+  compareOutput(actual, expected, mode, tolerance).passed;
+
+describe("compareOutput", () => {
+  describe("exact", () => {
+    it("passes identical output", () => {
+      expect(passes("1 2 3\n", "1 2 3\n", "exact")).toBe(true);
+    });
+
+    it("fails on a missing or extra trailing newline", () => {
+      expect(passes("done", "done\n", "exact")).toBe(false);
+      expect(passes("done\n", "done", "exact")).toBe(false);
+    });
+
+    it("fails on trailing spaces and carriage returns", () => {
+      expect(passes("done \n", "done\n", "exact")).toBe(false);
+      expect(passes("done\r\n", "done\n", "exact")).toBe(false);
+    });
+  });
+
+  describe("trimmed", () => {
+    it("ignores trailing newlines and blank lines", () => {
+      expect(passes("done", "done\n", "trimmed")).toBe(true);
+      expect(passes("done\n\n\n", "done", "trimmed")).toBe(true);
+    });
+
+    it("ignores trailing whitespace on every line, carriage returns included", () => {
+      expect(passes("a  \r\nb\t\r\n", "a\nb\n", "trimmed")).toBe(true);
+    });
+
+    it("keeps leading whitespace and blank lines between lines", () => {
+      expect(passes("  indented", "indented", "trimmed")).toBe(false);
+      expect(passes("a\n\nb", "a\nb", "trimmed")).toBe(false);
+    });
+
+    it("does not report a message", () => {
+      expect(compareOutput("a", "b", "trimmed", 0)).toEqual({ passed: false, message: null });
+    });
+  });
+
+  describe("regex", () => {
+    it("needs the pattern to match the whole output", () => {
+      expect(passes("Hello, Ada\n", "Hello, \\w+", "regex")).toBe(true);
+      expect(passes("Hello, Ada!\n", "Hello, \\w+", "regex")).toBe(false);
+      expect(passes("Oh, Hello, Ada\n", "Hello, \\w+", "regex")).toBe(false);
+    });
+
+    it("ignores one final newline, but no more", () => {
+      expect(passes("42\r\n", "\\d+", "regex")).toBe(true);
+      expect(passes("42\n\n", "\\d+", "regex")).toBe(false);
+    });
+
+    it("anchors every alternative", () => {
+      expect(passes("yes please", "yes|no", "regex")).toBe(false);
+    });
+
+    it("fails with a message for an invalid pattern", () => {
+      const result = compareOutput("x", "(", "regex", 0);
+      expect(result.passed).toBe(false);
+      expect(result.message).toMatch(/^Invalid pattern: /);
+    });
+  });
+
+  describe("numeric", () => {
+    it("ignores how values are separated", () => {
+      expect(passes("1  2\n3\n", "1 2 3", "numeric")).toBe(true);
+    });
+
+    it("accepts numbers within an absolute tolerance below 1", () => {
+      expect(passes("0.3334", "0.3333", "numeric", 0.001)).toBe(true);
+      expect(compareOutput("0.34", "0.3333", "numeric", 0.001)).toEqual({
+        passed: false,
+        message: "Value 1: expected 0.3333, got 0.34 (tolerance 0.001)",
+      });
+    });
+
+    it("scales the tolerance with large values", () => {
+      expect(passes("1000.5", "1000", "numeric", 0.001)).toBe(true);
+      expect(passes("1002", "1000", "numeric", 0.001)).toBe(false);
+    });
+
+    it("reads signs, exponents and leading dots", () => {
+      expect(passes("-1.5e3 .5 +2", "-1500 0.5 2", "numeric")).toBe(true);
+    });
+
+    it("compares words exactly", () => {
+      expect(compareOutput("sum 3", "total 3", "numeric", 0)).toEqual({
+        passed: false,
+        message: 'Value 1: expected "total", got "sum"',
+      });
+    });
+
+    it("reports a different number of values", () => {
+      expect(compareOutput("1 2", "1 2 3", "numeric", 0)).toEqual({
+        passed: false,
+        message: "Expected 3 values, got 2",
+      });
+    });
+  });
+});
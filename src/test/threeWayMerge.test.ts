@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { mergeThreeWay } from "@/lib/threeWayMerge";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i}`);
+
+describe("mergeThreeWay", () => {
+  it("takes changes to different lines from both sides", () => {
+    const result = mergeThreeWay("a\nb\nc\nd", "A\nb\nc\nd", "a\nb\nc\nD");
+    expect(result).toEqual({ merged: "A\nb\nc\nD", conflicts: 0 });
+  });
+
+  it("takes the same change made on both sides once", () => {
+    const result = mergeThreeWay("a\nb\nc", "a\nB\nc", "a\nB\nc");
+    expect(result).toEqual({ merged: "a\nB\nc", conflicts: 0 });
+  });
+
+  it("marks different changes to the same lines as a conflict", () => {
+    const result = mergeThreeWay("a\nb\nc", "a\nmine\nc", "a\ntheirs\nc");
+    expect(result).toEqual({
+      merged: "a\n<<<<<<< mine\nmine\n=======\ntheirs\n>>>>>>> theirs\nc",
+      conflicts: 1,
+    });
+  });
+
+  it("marks different insertions at the same point as a conflict", () => {
+    const result = mergeThreeWay("a\nb", "a\nx\nb", "a\ny\nb");
+    expect(result).toEqual({
+      merged: "a\n<<<<<<< mine\nx\n=======\ny\n>>>>>>> theirs\nb",
+      conflicts: 1,
+    });
+  });
+
+  it("keeps a deletion on one side when the other side is unchanged there", () => {
+    const result = mergeThreeWay("a\nb\nc\nd", "a\nc\nd", "a\nb\nc\nD");
+    expect(result).toEqual({ merged: "a\nc\nD", conflicts: 0 });
+  });
+
+  it("treats a middle too large to match as one changed region", () => {
+    const base = lines(3000);
+    const mine = [...base];
+    mine[10] = "mine 10";
+    mine[2990] = "mine 2990";
+    const theirs = [...base];
+    theirs[1500] = "theirs 1500";
+
+    const result = mergeThreeWay(base.join("\n"), mine.join("\n"), theirs.join("\n"));
+    expect(result.conflicts).toBe(1);
+    expect(result.merged.startsWith(base.slice(0, 10).join("\n") + "\n<<<<<<< mine\nmine 10\n")).toBe(true);
+    expect(result.merged.endsWith("mine 2990\n=======\n" + theirs.slice(10, 2991).join("\n") + "\n>>>>>>> theirs\n" + base.slice(2991).join("\n"))).toBe(true);
+  });
+
+  it("still merges changes outside a middle too large to match", () => {
+    const base = lines(3000);
+    const mine = [...base];
+    mine[10] = "mine 10";
+    mine[2990] = "mine 2990";
+    const theirs = [...base];
+    theirs[2] = "theirs 2";
+
+    const result = mergeThreeWay(base.join("\n"), mine.join("\n"), theirs.join("\n"));
+    const expected = [...mine];
+    expected[2] = "theirs 2";
+    expect(result).toEqual({ merged: expected.join("\n"), conflicts: 0 });
+  });
+});
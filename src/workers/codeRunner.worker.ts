@@ -0,0 +1,781 @@
+// Runs a JavaScript or TypeScript project for browserRunner. It loads as a
+// classic worker so the TypeScript compiler can be pulled in with importScripts
+// only when the project needs it. Program files are evaluated as CommonJS
+// modules with a small, in-memory subset of Node's fs, readline, process, path
+// and util, so programs written for the server run here unchanged.
+import type { BrowserRunEvent, BrowserRunRequest, BrowserStage } from '@/lib/browserRunner';
+import type { Diagnostic } from '@/lib/diagnostics';
+
+type TypeScript = typeof import('typescript');
+type Listener = (...args: unknown[]) => void;
+
+interface WorkerScope {
+  postMessage(message: BrowserRunEvent | { type: 'heartbeat' }): void;
+  addEventListener(type: string, listener: (event: Event & { reason?: unknown; error?: unknown }) => void): void;
+  importScripts(...urls: string[]): void;
+  ts?: TypeScript;
+}
+
+const scope = self as unknown as WorkerScope & Record<string, unknown>;
+
+// Kept before the program replaces them with tracked versions
+const nativeSetTimeout = setTimeout;
+const nativeClearTimeout = clearTimeout;
+const nativeSetInterval = setInterval;
+const nativeClearInterval = clearInterval;
+
+// Stack frames of program files point here, see evaluate()
+const SOURCE_PREFIX = 'codevibe:///';
+const MODULE_PARAMS = '(exports, require, module, __filename, __dirname)';
+
+const EXTENSIONS = ['.ts', '.tsx', '.js', '.mjs', '.cjs', '.json'];
+const TS_FILE = /\.tsx?$/;
+const JS_FILE = /\.[cm]?js$/;
+const ESM_SYNTAX = /^\s*(import\s*[\w{*'"]|export\s)/m;
+
+// Capabilities the program has no business using. Dynamic import() is
+// syntax and cannot be taken away like this.
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'BroadcastChannel',
+  'indexedDB', 'caches', 'Worker', 'SharedWorker', 'importScripts',
+];
+
+class ExitSignal {
+  constructor(readonly code: number) {}
+}
+
+class Emitter {
+  private listeners = new Map<string, Listener[]>();
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  addListener(event: string, listener: Listener) {
+    return this.on(event, listener);
+  }
+
+  once(event: string, listener: Listener) {
+    const wrapper = (...args: unknown[]) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off(event: string, listener: Listener) {
+    this.listeners.set(event, (this.listeners.get(event) ?? []).filter((l) => l !== listener));
+    return this;
+  }
+
+  removeListener(event: string, listener: Listener) {
+    return this.off(event, listener);
+  }
+
+  removeAllListeners(event?: string) {
+    if (event) this.listeners.delete(event);
+    else this.listeners.clear();
+    return this;
+  }
+
+  listenerCount(event: string) {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    const listeners = this.listeners.get(event) ?? [];
+    listeners.forEach((listener) => listener(...args));
+    return listeners.length > 0;
+  }
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+}
+
+function dirname(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+const VLQ_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = VLQ_DIGITS.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/** Source line (1-based) of each emitted line of a transpiled file, from its source map. */
+function mapLines(sourceMap: string): (number | null)[] {
+  const lines: (number | null)[] = [];
+  let sourceLine = 0;
+  for (const line of (JSON.parse(sourceMap).mappings as string).split(';')) {
+    let first: number | null = null;
+    for (const segment of line.split(',')) {
+      const fields = segment ? decodeVlq(segment) : [];
+      if (fields.length < 4) continue;
+      sourceLine += fields[2];
+      first ??= sourceLine + 1;
+    }
+    lines.push(first);
+  }
+  return lines;
+}
+
+// Close enough to Node's util.inspect for printing values
+function inspect(value: unknown, depth = 2, seen = new Set<unknown>()): string {
+  if (typeof value === 'string') return `'${value.replace(/'/g, "\\'")}'`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`;
+  if (value === null || typeof value !== 'object') return String(value);
+  if (value instanceof Error) return formatError(value);
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  if (seen.has(value)) return '[Circular]';
+
+  const nested = new Set(seen).add(value);
+  if (Array.isArray(value)) {
+    if (depth < 0) return '[Array]';
+    const items = value.map((item) => inspect(item, depth - 1, nested));
+    return items.length ? `[ ${items.join(', ')} ]` : '[]';
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(([k, v]) => `${inspect(k, depth - 1, nested)} => ${inspect(v, depth - 1, nested)}`);
+    return `Map(${value.size}) {${entries.length ? ` ${entries.join(', ')} ` : ''}}`;
+  }
+  if (value instanceof Set) {
+    const items = [...value].map((item) => inspect(item, depth - 1, nested));
+    return `Set(${value.size}) {${items.length ? ` ${items.join(', ')} ` : ''}}`;
+  }
+
+  const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : '';
+  if (depth < 0) return `[${name.trim() || 'Object'}]`;
+  const entries = Object.entries(value).map(([key, item]) => {
+    const label = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+    return `${label}: ${inspect(item, depth - 1, nested)}`;
+  });
+  return entries.length ? `${name}{ ${entries.join(', ')} }` : `${name}{}`;
+}
+
+// Strings print as they are, anything else inspected
+function print(value: unknown): string {
+  return typeof value === 'string' ? value : inspect(value);
+}
+
+// Like util.format: printf-style placeholders, the rest printed and joined with spaces
+function format(...args: unknown[]): string {
+  if (typeof args[0] === 'string' && args[0].includes('%')) {
+    let index = 1;
+    const text = args[0].replace(/%([sdifjoOc%])/g, (match, kind: string) => {
+      if (kind === '%') return '%';
+      if (index >= args.length) return match;
+      const arg = args[index++];
+      switch (kind) {
+        case 's': return typeof arg === 'string' ? arg : inspect(arg, 1);
+        case 'd':
+        case 'i': return String(kind === 'i' ? parseInt(String(arg)) : Number(arg));
+        case 'f': return String(parseFloat(String(arg)));
+        case 'j': return JSON.stringify(arg);
+        case 'c': return '';
+        default: return inspect(arg, 4);
+      }
+    });
+    return [text, ...args.slice(index).map(print)].join(' ');
+  }
+  return args.map(print).join(' ');
+}
+
+// Set per run
+let request: BrowserRunRequest;
+let compiler: TypeScript | null = null;
+const sources = new Map<string, string>();
+// Transpiled program files, with their emitted-to-source line map
+const transpiled = new Map<string, { code: string; lines: (number | null)[] }>();
+
+function post(message: BrowserRunEvent) {
+  scope.postMessage(message);
+}
+
+/** Error with its stack trace pointing into the project's files. */
+function formatError(error: Error): string {
+  const header = `${error.name}: ${error.message}`;
+  const frames = (error.stack ?? '')
+    .split('\n')
+    .map(parseFrame)
+    .filter((frame): frame is NonNullable<ReturnType<typeof parseFrame>> => frame !== null)
+    .map(({ name, path, line, column }) => {
+      const location = `/${path}:${line}${column !== null ? `:${column}` : ''}`;
+      return `    at ${name ? `${name} (${location})` : location}`;
+    });
+  return [header, ...frames].join('\n');
+}
+
+// One stack frame of a program file, in Chrome's or Firefox's format, mapped back to the source
+function parseFrame(frame: string) {
+  const match = frame.match(/^\s*(?:at\s+)?(?:(.*?)\s*[@(])?codevibe:\/\/\/(.+?):(\d+):(\d+)\)?\s*$/);
+  if (!match) return null;
+
+  // The module wrapper takes up the first line
+  const path = match[2];
+  let line: number | null = Number(match[3]) - 1;
+  let column: number | null = Number(match[4]);
+
+  const map = transpiled.get(path);
+  if (map) {
+    line = map.lines[line - 1] ?? null;
+    column = null;
+  }
+  if (!line) return null;
+  // The module wrapper shows up as eval
+  const name = (match[1] ?? '').replace(/^async\*/, '');
+  return { name: /(^|\.)eval$/.test(name) ? '' : name, path, line, column };
+}
+
+/** Where an uncaught error was thrown, as the server reports it. */
+function locateError(error: unknown): Diagnostic[] {
+  if (!(error instanceof Error)) return [];
+  const frame = (error.stack ?? '').split('\n').map(parseFrame).find((f) => f !== null);
+  if (!frame) return [];
+  return [{
+    path: frame.path,
+    line: frame.line,
+    column: frame.column,
+    severity: 'error',
+    message: `${error.name}: ${error.message}`,
+    source: 'node',
+  }];
+}
+
+/** Load the TypeScript compiler, once per worker. */
+function loadCompiler(): TypeScript {
+  if (!compiler) {
+    scope.importScripts(request.typescriptUrl);
+    compiler = scope.ts!;
+  }
+  return compiler;
+}
+
+function transpile(path: string, source: string) {
+  const ts = loadCompiler();
+  const output = ts.transpileModule(source, {
+    // The compiler keeps import and export in .mjs files whatever the module setting
+    fileName: path.replace(/\.[cm]js$/, '.js'),
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+      sourceMap: true,
+    },
+  });
+  transpiled.set(path, { code: output.outputText, lines: mapLines(output.sourceMapText!) });
+  return output.diagnostics ?? [];
+}
+
+// Output of one stage, capped like the server caps it
+function createStage(stage: BrowserStage) {
+  const startedAt = performance.now();
+  const written = { stdout: 0, stderr: 0 };
+  let truncated = false;
+
+  return {
+    write(stream: 'stdout' | 'stderr', data: string) {
+      const room = request.maxOutputLength - written[stream];
+      if (data.length > room) truncated = true;
+      const kept = data.slice(0, Math.max(room, 0));
+      if (!kept) return;
+      written[stream] += kept.length;
+      post({ type: stream, stage, data: kept });
+    },
+    exit(code: number | null, signal: string | null = null) {
+      const wallTime = Math.round(performance.now() - startedAt);
+      post({ type: 'exit', stage, code, signal, wallTime, memory: null, truncated });
+    },
+  };
+}
+
+/**
+ * Transpile the project's TypeScript files, reporting syntax errors the way
+ * tsc does. Types are not checked, that takes the full compiler and lib files.
+ */
+function compile(): boolean {
+  const stage = createStage('compile');
+  post({ type: 'start', stage: 'compile' });
+
+  const diagnostics: Diagnostic[] = [];
+  for (const [path, source] of sources) {
+    if (!TS_FILE.test(path)) continue;
+    for (const diagnostic of transpile(path, source)) {
+      const message = compiler!.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      const position = diagnostic.file && diagnostic.start !== undefined
+        ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        : { line: 0, character: 0 };
+      const line = position.line + 1;
+      const column = position.character + 1;
+      stage.write('stderr', `${path}(${line},${column}): error TS${diagnostic.code}: ${message}\n`);
+      diagnostics.push({ path, line, column, severity: 'error', message: `TS${diagnostic.code}: ${message}`, source: 'tsc' });
+    }
+  }
+
+  stage.exit(diagnostics.length ? 1 : 0);
+  if (diagnostics.length) post({ type: 'diagnostics', diagnostics });
+  return diagnostics.length === 0;
+}
+
+// Everything below runs the program
+
+let exited = false;
+let runStage: ReturnType<typeof createStage>;
+const pendingTimers = new Set<ReturnType<typeof setTimeout>>();
+
+function finish(code: number, error?: unknown) {
+  if (exited) return;
+  exited = true;
+  runStage.exit(code);
+  const diagnostics = locateError(error);
+  if (diagnostics.length) post({ type: 'diagnostics', diagnostics });
+  post({ type: 'done' });
+}
+
+// An uncaught error ends the program like it ends a Node process
+function handleUncaught(error: unknown) {
+  if (exited) return;
+  if (error instanceof ExitSignal) {
+    finish(error.code);
+    return;
+  }
+  process.stderr.write(`${error instanceof Error ? formatError(error) : `Uncaught ${inspect(error)}`}\n`);
+  finish(1, error);
+}
+
+// The program ends once nothing is left to wake it up
+function checkExit() {
+  nativeSetTimeout(() => {
+    if (!exited && pendingTimers.size === 0) finish(process.exitCode ?? 0);
+  }, 0);
+}
+
+function guard(callback: Listener): Listener {
+  return (...args) => {
+    if (exited) return;
+    try {
+      callback(...args);
+    } catch (error) {
+      handleUncaught(error);
+    }
+  };
+}
+
+function trackedTimeout(callback: Listener, delay?: number, ...args: unknown[]) {
+  const id = nativeSetTimeout(() => {
+    pendingTimers.delete(id);
+    guard(callback)(...args);
+    checkExit();
+  }, delay);
+  pendingTimers.add(id);
+  return id;
+}
+
+function trackedInterval(callback: Listener, delay?: number, ...args: unknown[]) {
+  const id = nativeSetInterval(() => guard(callback)(...args), delay);
+  pendingTimers.add(id);
+  return id;
+}
+
+function clearTracked(id: ReturnType<typeof setTimeout> | undefined) {
+  if (id === undefined) return;
+  nativeClearTimeout(id);
+  nativeClearInterval(id);
+  pendingTimers.delete(id);
+  checkExit();
+}
+
+function stdinLines(): string[] {
+  const lines = request.stdin.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines.map((line) => line.replace(/\r$/, ''));
+}
+
+// process.stdin hands out all of stdin at once, as soon as someone listens
+class Stdin extends Emitter {
+  private started = false;
+  readonly isTTY = false;
+  readonly fd = 0;
+
+  on(event: string, listener: Listener) {
+    super.on(event, listener);
+    if ((event === 'data' || event === 'readable' || event === 'end') && !this.started) this.resume();
+    return this;
+  }
+
+  resume() {
+    if (this.started) return this;
+    this.started = true;
+    trackedTimeout(() => {
+      if (request.stdin) this.emit('data', request.stdin);
+      this.emit('end');
+      this.emit('close');
+    });
+    return this;
+  }
+
+  setEncoding() {
+    return this;
+  }
+
+  pause() {
+    return this;
+  }
+}
+
+function createProcess() {
+  const stream = (name: 'stdout' | 'stderr') => Object.assign(new Emitter(), {
+    isTTY: false,
+    write(chunk: unknown, ...rest: unknown[]) {
+      const text = chunk instanceof Uint8Array ? new TextDecoder().decode(chunk) : String(chunk);
+      if (!exited) runStage.write(name, text);
+      const callback = rest.find((arg) => typeof arg === 'function') as Listener | undefined;
+      if (callback) trackedTimeout(callback);
+      return true;
+    },
+  });
+
+  return Object.assign(new Emitter(), {
+    argv: [] as string[],
+    env: { NODE_ENV: 'production' } as Record<string, string>,
+    exitCode: undefined as number | undefined,
+    platform: 'browser',
+    version: 'v20.0.0',
+    versions: { node: '20.0.0' },
+    pid: 1,
+    stdin: new Stdin(),
+    stdout: stream('stdout'),
+    stderr: stream('stderr'),
+    exit(code?: number): never {
+      throw new ExitSignal(code ?? process.exitCode ?? 0);
+    },
+    cwd: () => '/',
+    nextTick: (callback: Listener, ...args: unknown[]) => queueMicrotask(() => guard(callback)(...args)),
+    hrtime: Object.assign(
+      (previous?: [number, number]) => {
+        const now = performance.now();
+        const seconds = Math.floor(now / 1000);
+        const nanos = Math.round((now % 1000) * 1e6);
+        if (!previous) return [seconds, nanos];
+        const diff = (seconds - previous[0]) * 1e9 + nanos - previous[1];
+        return [Math.floor(diff / 1e9), diff % 1e9];
+      },
+      { bigint: () => BigInt(Math.round(performance.now() * 1e6)) },
+    ),
+    memoryUsage: () => ({ rss: 0, heapTotal: 0, heapUsed: 0, external: 0 }),
+  });
+}
+
+const process = createProcess();
+
+// readline over the run's stdin. Pending questions get the next line before 'line' listeners.
+class Interface extends Emitter {
+  private lines = stdinLines();
+  private questions: Listener[] = [];
+  private closed = false;
+  private pumping = false;
+
+  constructor(private readonly promises: boolean) {
+    super();
+    this.schedule();
+  }
+
+  private schedule() {
+    if (this.pumping || this.closed) return;
+    this.pumping = true;
+    trackedTimeout(() => {
+      this.pumping = false;
+      this.pump();
+    });
+  }
+
+  private pump() {
+    if (this.closed) return;
+    const line = this.lines.shift();
+    if (line === undefined) {
+      this.close();
+      return;
+    }
+    const question = this.questions.shift();
+    if (question) question(line);
+    else this.emit('line', line);
+    this.schedule();
+  }
+
+  question(query: string, callback?: Listener) {
+    process.stdout.write(query);
+    this.schedule();
+    if (this.promises || !callback) {
+      return new Promise<string>((resolve) => this.questions.push((answer) => resolve(answer as string)));
+    }
+    this.questions.push(callback);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.emit('close');
+  }
+
+  setPrompt() {}
+
+  prompt() {}
+
+  pause() {
+    return this;
+  }
+
+  resume() {
+    return this;
+  }
+
+  async *[Symbol.asyncIterator]() {
+    const buffered: string[] = [];
+    let wake: (() => void) | null = null;
+    this.on('line', (line) => {
+      buffered.push(line as string);
+      wake?.();
+    });
+    this.on('close', () => wake?.());
+
+    for (;;) {
+      if (buffered.length) {
+        yield buffered.shift()!;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+      }
+    }
+  }
+}
+
+function readFile(path: unknown): string {
+  if (path === 0 || path === '/dev/stdin') return request.stdin;
+  const source = sources.get(normalizePath(String(path)));
+  if (source === undefined) {
+    throw Object.assign(new Error(`ENOENT: no such file or directory, open '${path}'`), { code: 'ENOENT' });
+  }
+  return source;
+}
+
+const fs = {
+  readFileSync: (path: unknown) => readFile(path),
+  existsSync: (path: unknown) => path === '/dev/stdin' || sources.has(normalizePath(String(path))),
+  writeSync: (fd: number, data: unknown) => {
+    (fd === 2 ? process.stderr : process.stdout).write(String(data));
+  },
+  promises: { readFile: async (path: unknown) => readFile(path) },
+};
+
+const BUILTINS: Record<string, unknown> = {
+  fs,
+  'fs/promises': fs.promises,
+  readline: {
+    createInterface: () => new Interface(false),
+    promises: { createInterface: () => new Interface(true) },
+  },
+  'readline/promises': { createInterface: () => new Interface(true) },
+  process,
+  util: { format, inspect: (value: unknown) => inspect(value), promisify: promisify },
+  path: {
+    sep: '/',
+    join: (...parts: string[]) => normalizePath(parts.join('/')),
+    resolve: (...parts: string[]) => `/${normalizePath(parts.join('/'))}`,
+    dirname: (path: string) => dirname(path) || '.',
+    basename: (path: string, ext?: string) => {
+      const base = path.split('/').pop() ?? '';
+      return ext && base.endsWith(ext) ? base.slice(0, -ext.length) : base;
+    },
+    extname: (path: string) => path.match(/(\.[^./]*)$/)?.[1] ?? '',
+  },
+  events: { EventEmitter: Emitter, default: Emitter },
+};
+
+function promisify(fn: (...args: unknown[]) => void) {
+  return (...args: unknown[]) => new Promise((resolve, reject) => {
+    fn(...args, (error: unknown, value: unknown) => (error ? reject(error) : resolve(value)));
+  });
+}
+
+interface Module {
+  exports: unknown;
+}
+
+const modules = new Map<string, Module>();
+
+// A relative import, with or without extension, or a folder with an index file
+function resolve(specifier: string, fromDir: string): string | null {
+  const base = normalizePath(specifier.startsWith('/') ? specifier : `${fromDir}/${specifier}`);
+  const candidates = [
+    base,
+    ...EXTENSIONS.map((ext) => base + ext),
+    ...EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  // TypeScript imports name the emitted .js file
+  if (/\.js$/.test(base)) candidates.push(base.replace(/\.js$/, '.ts'), base.replace(/\.js$/, '.tsx'));
+  return candidates.find((candidate) => sources.has(candidate)) ?? null;
+}
+
+function createRequire(fromDir: string) {
+  return (specifier: string) => {
+    const name = specifier.replace(/^node:/, '');
+    if (!/^\.{0,2}\//.test(name)) {
+      if (name in BUILTINS) return BUILTINS[name];
+      throw Object.assign(new Error(`Cannot find module '${specifier}'`), { code: 'MODULE_NOT_FOUND' });
+    }
+
+    const path = resolve(name, fromDir);
+    if (path === null) {
+      throw Object.assign(new Error(`Cannot find module '${specifier}'`), { code: 'MODULE_NOT_FOUND' });
+    }
+    const cached = modules.get(path);
+    if (cached) return cached.exports;
+
+    const module: Module = { exports: {} };
+    modules.set(path, module);
+    if (path.endsWith('.json')) {
+      module.exports = JSON.parse(sources.get(path)!);
+    } else {
+      evaluate(path, module, false);
+    }
+    return module.exports;
+  };
+}
+
+/**
+ * Evaluate a program file as a CommonJS module. The entry's wrapper is async
+ * so it can use top-level await like an ES module, imported files load
+ * synchronously. The sourceURL makes stack traces name the project file.
+ */
+function evaluate(path: string, module: Module, isEntry: boolean): unknown {
+  const source = sources.get(path)!;
+  if (!transpiled.has(path) && JS_FILE.test(path) && ESM_SYNTAX.test(source)) transpile(path, source);
+  const code = transpiled.get(path)?.code ?? source;
+
+  const header = `(${isEntry ? 'async ' : ''}function ${MODULE_PARAMS} {`;
+  const wrapper = (0, eval)(`${header}\n${code}\n})\n//# sourceURL=${SOURCE_PREFIX}${path}`);
+  return wrapper.call(module.exports, module.exports, createRequire(dirname(path)), module, `/${path}`, `/${dirname(path)}`);
+}
+
+// Node's globals, and none of the browser's ways out
+function installGlobals() {
+  const write = (stream: 'stdout' | 'stderr') => (...args: unknown[]) => process[stream].write(`${format(...args)}\n`);
+  Object.assign(console, {
+    log: write('stdout'),
+    info: write('stdout'),
+    debug: write('stdout'),
+    warn: write('stderr'),
+    error: write('stderr'),
+    trace: write('stderr'),
+    table: write('stdout'),
+    dir: (value: unknown) => process.stdout.write(`${inspect(value)}\n`),
+  });
+
+  Object.assign(scope, {
+    global: scope,
+    process,
+    require: createRequire(''),
+    setTimeout: trackedTimeout,
+    setInterval: trackedInterval,
+    setImmediate: (callback: Listener, ...args: unknown[]) => trackedTimeout(callback, 0, ...args),
+    clearTimeout: clearTracked,
+    clearInterval: clearTracked,
+    clearImmediate: clearTracked,
+  });
+
+  // Methods such as fetch and importScripts live on the prototypes of the
+  // global scope, where the program could still call them
+  for (let target: object | null = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (target !== scope && !Object.prototype.hasOwnProperty.call(target, name)) continue;
+      try {
+        Object.defineProperty(target, name, { value: undefined, configurable: false, writable: false });
+      } catch {
+        // Not defined by this browser
+      }
+    }
+  }
+}
+
+async function run() {
+  const entry = normalizePath(request.entry);
+  if (!sources.has(entry)) {
+    post({ type: 'error', error: `Entry file ${request.entry} not found` });
+    return;
+  }
+
+  runStage = createStage('run');
+  post({ type: 'start', stage: 'run' });
+  process.argv = ['node', `/${entry}`, ...request.args];
+  installGlobals();
+
+  scope.addEventListener('unhandledrejection', (event) => {
+    event.preventDefault();
+    handleUncaught(event.reason);
+  });
+  scope.addEventListener('error', (event) => {
+    event.preventDefault();
+    handleUncaught(event.error);
+  });
+
+  const module: Module = { exports: {} };
+  modules.set(entry, module);
+  try {
+    await evaluate(entry, module, true);
+  } catch (error) {
+    handleUncaught(error);
+  }
+  checkExit();
+}
+
+scope.addEventListener('message', (event) => {
+  request = (event as MessageEvent<BrowserRunRequest>).data;
+  for (const file of request.files) sources.set(normalizePath(file.path), file.content);
+  nativeSetInterval(() => scope.postMessage({ type: 'heartbeat' }), request.heartbeatInterval);
+
+  // The compiler is loaded up front, the program cannot load scripts once it runs
+  const hasTypeScript = [...sources.keys()].some((path) => TS_FILE.test(path));
+  const hasModules = [...sources].some(([path, source]) => JS_FILE.test(path) && ESM_SYNTAX.test(source));
+  if (hasTypeScript || hasModules) {
+    try {
+      loadCompiler();
+    } catch (error) {
+      post({ type: 'error', error: `Could not load the TypeScript compiler: ${error instanceof Error ? error.message : error}` });
+      return;
+    }
+  }
+  if (hasTypeScript && !compile()) {
+    post({ type: 'done' });
+    return;
+  }
+
+  void run();
+});
@@ -0,0 +1,104 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Who may run what: callers prove who they are with their Supabase session,
+// may only run code of projects they can edit, and are held to the limits
+// in execution_limits.
+
+// Refuses a request, the status and body are sent to the client as they are
+export class AccessError extends Error {
+  constructor(message: string, readonly status: number, readonly details: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+// A limit a run was refused for, as returned by consume_execution_quota
+export interface RunLimit {
+  scope: "user" | "project";
+  window: "minute" | "day";
+  limit: number;
+  // Seconds until a run counts no more and another may start
+  retryAfter: number;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Roles that may run a project's code, besides its owner
+const RUN_ROLES = ["edit", "full_access"];
+
+// Checks and records are done with the service role, users cannot write runs or usage
+export function getAdminClient(): SupabaseClient | null {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return url && serviceKey ? createClient(url, serviceKey, { auth: { persistSession: false } }) : null;
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+function requireAdminClient(): SupabaseClient {
+  const admin = getAdminClient();
+  if (!admin) {
+    console.error("[execute-code] SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not set");
+    throw new AccessError("Code execution is not configured", 500);
+  }
+  return admin;
+}
+
+/**
+ * The caller whose session token is in the Authorization header. Checked
+ * before anything else of the request is looked at.
+ */
+export async function authenticate(req: Request): Promise<string> {
+  const admin = requireAdminClient();
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  const user = token ? (await admin.auth.getUser(token)).data.user : null;
+  if (!user) {
+    throw new AccessError("Sign in to run code", 401);
+  }
+  return user.id;
+}
+
+/** Refuse the run unless userId owns projectId or may edit it. */
+export async function authorizeRun(userId: string, projectId: unknown): Promise<void> {
+  const admin = requireAdminClient();
+  if (!isUuid(projectId)) {
+    throw new AccessError("Missing or invalid projectId", 400);
+  }
+  const [{ data: isOwner, error: ownerError }, { data: role, error: roleError }] = await Promise.all([
+    admin.rpc("is_project_owner", { _project_id: projectId, _user_id: userId }),
+    admin.rpc("get_collaborator_role", { _project_id: projectId, _user_id: userId }),
+  ]);
+  if (ownerError || roleError) throw ownerError ?? roleError;
+  if (!isOwner && !RUN_ROLES.includes(role)) {
+    throw new AccessError("You need edit access to this project to run its code", 403);
+  }
+}
+
+function describeLimit({ scope, window, limit }: RunLimit): string {
+  const who = scope === "user" ? "You have" : "This project has";
+  return `${who} started ${limit} runs in the last ${window === "minute" ? "minute" : "24 hours"}`;
+}
+
+/**
+ * Count a run against the caller's and the project's limits, refusing it
+ * with a 429 that names the limit when one is reached.
+ */
+export async function consumeRunQuota(userId: string, projectId: string): Promise<void> {
+  const admin = requireAdminClient();
+  const { data, error } = await admin.rpc("consume_execution_quota", {
+    _user_id: userId,
+    _project_id: projectId,
+  });
+  if (error) throw error;
+  if (!data) return;
+
+  const limit: RunLimit = {
+    scope: data.scope,
+    window: data.window,
+    limit: data.limit,
+    retryAfter: data.retry_after,
+  };
+  console.log(`[execute-code] Run refused, ${limit.scope} limit of ${limit.limit} per ${limit.window}`);
+  throw new AccessError(describeLimit(limit), 429, { code: "rate_limited", ...limit });
+}
@@ -0,0 +1,223 @@
+import type { SourceLocation } from "./project.ts";
+
+// A compiler message or uncaught error, located in a project file.
+// Lines and columns are 1-based.
+export interface Diagnostic {
+  path: string;
+  line: number;
+  column: number | null;
+  severity: "error" | "warning";
+  message: string;
+  source: string;
+}
+
+export interface StageOutputText {
+  compile?: string;
+  run?: string;
+}
+
+type Resolve = (printedPath: string, line: number) => SourceLocation | null;
+type Parser = (text: string, resolve: Resolve) => Diagnostic[];
+
+// main.c:5:3: error: 'x' undeclared
+function gccParser(source: string): Parser {
+  return (text, resolve) => {
+    const diagnostics: Diagnostic[] = [];
+    for (const line of text.split("\n")) {
+      const match = line.match(/^(.+?):(\d+):(\d+): (?:fatal )?(error|warning): (.*)$/);
+      const location = match && resolve(match[1], Number(match[2]));
+      if (!match || !location) continue;
+      diagnostics.push({
+        ...location,
+        column: Number(match[3]),
+        severity: match[4] as Diagnostic["severity"],
+        message: match[5],
+        source,
+      });
+    }
+    return diagnostics;
+  };
+}
+
+// main.ts(3,5): error TS2322: ..., or main.ts:3:5 - error TS2322: ... when pretty,
+// with the rest of the message on indented lines
+const parseTsc: Parser = (text, resolve) => {
+  const diagnostics: Diagnostic[] = [];
+  let current: Diagnostic | null = null;
+  for (const line of text.split("\n")) {
+    const match = line.match(/^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/)
+      || line.match(/^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/);
+    if (match) {
+      const location = resolve(match[1], Number(match[2]));
+      current = location
+        ? {
+          ...location,
+          column: Number(match[3]),
+          severity: match[4] as Diagnostic["severity"],
+          message: `${match[6]} (${match[5]})`,
+          source: "tsc",
+        }
+        : null;
+      if (current) diagnostics.push(current);
+    } else if (current && /^\s+\S/.test(line)) {
+      current.message += `\n${line.trim()}`;
+    } else {
+      current = null;
+    }
+  }
+  return diagnostics;
+};
+
+// Main.java:5: error: cannot find symbol, then the source line, a caret under
+// the column and indented details like the symbol
+const parseJavac: Parser = (text, resolve) => {
+  const diagnostics: Diagnostic[] = [];
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(.+?\.java):(\d+): (error|warning): (.*)$/);
+    const location = match && resolve(match[1], Number(match[2]));
+    if (!match || !location) continue;
+
+    const diagnostic: Diagnostic = {
+      ...location,
+      column: null,
+      severity: match[3] as Diagnostic["severity"],
+      message: match[4],
+      source: "javac",
+    };
+    const caret = lines[i + 2]?.match(/^(\s*)\^$/);
+    if (caret) {
+      diagnostic.column = caret[1].length + 1;
+      for (let j = i + 3; j < lines.length && /^\s+\S/.test(lines[j]) && !/^\s+\^$/.test(lines[j]); j++) {
+        diagnostic.message += `\n${lines[j].trim()}`;
+      }
+    }
+    diagnostics.push(diagnostic);
+  }
+  return diagnostics;
+};
+
+// Tracebacks end with the exception, the innermost project frame is where it happened:
+//   File "/jobs/job-1/main.py", line 3, in <module>
+//   NameError: name 'x' is not defined
+const parsePythonTraceback: Parser = (text, resolve) => {
+  const diagnostics: Diagnostic[] = [];
+  let location: SourceLocation | null = null;
+  for (const line of text.split("\n")) {
+    const frame = line.match(/^\s+File "(.+)", line (\d+)/);
+    if (frame) {
+      location = resolve(frame[1], Number(frame[2])) || location;
+      continue;
+    }
+    const exception = line.match(/^([A-Za-z_][\w.]*(?:Error|Exception|Warning|Exit|Interrupt))(?::\s*(.*))?$/);
+    if (exception && location) {
+      diagnostics.push({
+        ...location,
+        column: null,
+        severity: "error",
+        message: exception[2] ? `${exception[1]}: ${exception[2]}` : exception[1],
+        source: "python",
+      });
+      location = null;
+    }
+  }
+  return diagnostics;
+};
+
+// Uncaught errors print the failing line as "path:line" before the error, then
+// the stack. The first project frame wins, the printed line is the fallback.
+const parseNodeError: Parser = (text, resolve) => {
+  const diagnostics: Diagnostic[] = [];
+  let fallback: SourceLocation | null = null;
+  let pending: { message: string; located: boolean } | null = null;
+
+  for (const line of text.split("\n")) {
+    const header = line.match(/^(\S+\.[cm]?[jt]s):(\d+)$/);
+    if (header) {
+      fallback = resolve(header[1], Number(header[2]));
+      continue;
+    }
+
+    const error = line.match(/^(?:Uncaught )?([A-Z][\w$]*(?:Error|Exception))(?::\s*(.*))?$/);
+    if (error) {
+      if (pending && !pending.located && fallback) {
+        diagnostics.push({ ...fallback, column: null, severity: "error", message: pending.message, source: "node" });
+      }
+      pending = { message: error[2] ? `${error[1]}: ${error[2]}` : error[1], located: false };
+      continue;
+    }
+
+    const frame = line.match(/^\s+at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/);
+    const location = frame && resolve(frame[1], Number(frame[2]));
+    if (pending && !pending.located && frame && location) {
+      diagnostics.push({
+        ...location,
+        column: Number(frame[3]),
+        severity: "error",
+        message: pending.message,
+        source: "node",
+      });
+      pending.located = true;
+    }
+  }
+
+  if (pending && !pending.located && fallback) {
+    diagnostics.push({ ...fallback, column: null, severity: "error", message: pending.message, source: "node" });
+  }
+  return diagnostics;
+};
+
+// Exception in thread "main" java.lang.ArithmeticException: / by zero
+//         at Main.main(Main.java:5)
+const parseJavaException: Parser = (text, resolve) => {
+  const diagnostics: Diagnostic[] = [];
+  let message: string | null = null;
+  for (const line of text.split("\n")) {
+    const exception = line.match(/^Exception in thread "[^"]*" (.*)$/);
+    if (exception) {
+      message = exception[1];
+      continue;
+    }
+    const frame = line.match(/^\s+at [\w$.<>]+\((.+?\.java):(\d+)\)$/);
+    const location = frame && resolve(frame[1], Number(frame[2]));
+    if (message && location) {
+      diagnostics.push({ ...location, column: null, severity: "error", message, source: "java" });
+      message = null;
+    }
+  }
+  return diagnostics;
+};
+
+// Which parsers read the output of each stage. Java in single-file source
+// mode reports compile errors while running.
+const PARSERS: Record<string, { compile: Parser[]; run: Parser[] }> = {
+  c: { compile: [gccParser("gcc")], run: [] },
+  cpp: { compile: [gccParser("g++")], run: [] },
+  typescript: { compile: [parseTsc], run: [parseNodeError] },
+  javascript: { compile: [], run: [parseNodeError] },
+  python: { compile: [], run: [parsePythonTraceback] },
+  java: { compile: [parseJavac], run: [parseJavac, parseJavaException] },
+};
+
+/**
+ * Find compiler messages and uncaught errors in the output of a run and
+ * locate them in the project's files. Messages pointing outside the project
+ * are left out.
+ */
+export function parseDiagnostics(language: string, output: StageOutputText, resolve: Resolve): Diagnostic[] {
+  const parsers = PARSERS[language];
+  if (!parsers) return [];
+
+  const diagnostics = [
+    ...parsers.compile.flatMap((parse) => (output.compile ? parse(output.compile, resolve) : [])),
+    ...parsers.run.flatMap((parse) => (output.run ? parse(output.run, resolve) : [])),
+  ];
+
+  const seen = new Set<string>();
+  return diagnostics.filter((diagnostic) => {
+    const key = `${diagnostic.path}:${diagnostic.line}:${diagnostic.column}:${diagnostic.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,87 @@
+import { getAdminClient } from "./access.ts";
+import type { SourceFile } from "./project.ts";
+import type { ExecutionReport } from "./result.ts";
+
+// How a recorded run ended
+export type RunStatus = "success" | "compile_error" | "runtime_error" | "error" | "stopped";
+
+export interface RunRecord {
+  // Chosen by the client so its live run and the stored one share an id
+  id?: string;
+  projectId: string;
+  authorId: string;
+  language: string;
+  // null for single-file code
+  entryPath: string | null;
+  // The files as they were sent, so the run can be repeated exactly
+  files: SourceFile[];
+  stdin: string;
+  args: string[];
+  // null when the run failed before any stage finished
+  report: ExecutionReport | null;
+  error: string | null;
+  stopped: boolean;
+  startedAt: string;
+}
+
+// What is known about a run before it has finished
+export type RunDetails = Omit<RunRecord, "report" | "error" | "stopped">;
+
+/** Hex SHA-256 of the files by path and content, equal for identical code. */
+export async function hashFiles(files: SourceFile[]): Promise<string> {
+  const sorted = [...files].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  const bytes = new TextEncoder().encode(JSON.stringify(sorted.map((f) => [f.path, f.content])));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function getRunStatus(record: Pick<RunRecord, "report" | "error" | "stopped">): RunStatus {
+  if (record.stopped) return "stopped";
+  if (record.error || !record.report) return "error";
+  const { compile, run } = record.report;
+  if (compile && compile.code !== 0) return "compile_error";
+  if (!run) return "error";
+  return run.code === 0 && !run.signal ? "success" : "runtime_error";
+}
+
+/**
+ * Store a run in code_runs, and its files in code_run_snapshots unless a run
+ * of the same code already did. Failures are logged, they never fail the run.
+ */
+export async function recordRun(record: RunRecord): Promise<void> {
+  const admin = getAdminClient();
+  if (!admin) {
+    console.error("[execute-code] Not recording run: service role is not configured");
+    return;
+  }
+
+  try {
+    const snapshotHash = await hashFiles(record.files);
+    const { error: snapshotError } = await admin
+      .from("code_run_snapshots")
+      .upsert(
+        { project_id: record.projectId, hash: snapshotHash, files: record.files },
+        { onConflict: "project_id,hash", ignoreDuplicates: true },
+      );
+    if (snapshotError) throw snapshotError;
+
+    const { error: runError } = await admin.from("code_runs").insert({
+      ...(record.id ? { id: record.id } : {}),
+      project_id: record.projectId,
+      author_id: record.authorId,
+      language: record.language,
+      entry_path: record.entryPath,
+      snapshot_hash: snapshotHash,
+      stdin: record.stdin,
+      args: record.args,
+      result: record.report,
+      error: record.error,
+      status: getRunStatus(record),
+      started_at: record.startedAt,
+    });
+    if (runError) throw runError;
+    console.log(`[execute-code] Recorded run of snapshot ${snapshotHash.slice(0, 12)}`);
+  } catch (error) {
+    console.error(`[execute-code] Could not record run:`, error);
+  }
+}
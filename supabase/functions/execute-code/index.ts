@@ -1,4 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { PreparedProject, ProjectError, SourceFile, prepareProject, validateFiles } from "./project.ts";
+import {
+  ExecutionProvider,
+  ExecutionRequest,
+  ProviderError,
+  getExecutionProvider,
+  streamExecution,
+} from "./providers.ts";
+import { parseDiagnostics } from "./diagnostics.ts";
+import { collectStreamedResult, limitStreamedOutput, toExecutionReport, toLegacyOutput } from "./result.ts";
+import { RunDetails, recordRun } from "./history.ts";
+import { AccessError, authenticate, authorizeRun, consumeRunQuota, isUuid } from "./access.ts";
+import { getProjectVersion, listRuntimes } from "./runtimes.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,19 +19,182 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-// Piston API endpoint (public, no API key needed)
-const PISTON_API = "https://emkc.org/api/v2/piston/execute";
-
-// Language mapping for Piston API
-const LANGUAGE_CONFIG: Record<string, { language: string; version: string; filename: string }> = {
-  javascript: { language: "javascript", version: "18.15.0", filename: "main.js" },
-  typescript: { language: "typescript", version: "5.0.3", filename: "main.ts" },
-  python: { language: "python", version: "3.10.0", filename: "main.py" },
-  cpp: { language: "c++", version: "10.2.0", filename: "main.cpp" },
-  c: { language: "c", version: "10.2.0", filename: "main.c" },
-  java: { language: "java", version: "15.0.2", filename: "Main.java" },
+// Supported languages and the file name single-file code runs as
+const DEFAULT_FILENAMES: Record<string, string> = {
+  javascript: "main.js",
+  typescript: "main.ts",
+  python: "main.py",
+  cpp: "main.cpp",
+  c: "main.c",
+  java: "Main.java",
 };
 
+// Limits on program input
+const MAX_STDIN_LENGTH = 64 * 1024;
+const MAX_ARGS = 64;
+// Request bodies, room for the largest project, stdin and arguments
+const MAX_BODY_LENGTH = 2 * 1024 * 1024;
+
+// Limits on each run
+const COMPILE_TIMEOUT = 10000;
+const RUN_TIMEOUT = 5000;
+const MEMORY_LIMIT = 256 * 1024 * 1024;
+
+// Server-sent events with one ExecutionEvent per message, ending with a
+// "done" or "error" message. Output is capped like in the JSON response and
+// the run is stopped when the client disconnects. Diagnostics found in the
+// output are sent in a "diagnostics" message before "done". Recorded runs
+// are stored before the last message, stopped ones with what ran so far.
+// Backends that cannot stream start with a "buffered" message, their output
+// only arrives once the program has finished.
+function streamResponse(
+  provider: ExecutionProvider,
+  request: ExecutionRequest,
+  project: PreparedProject,
+  details: RunDetails | null,
+) {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: unknown) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+      };
+
+      try {
+        const collected = collectStreamedResult();
+        let error: string | null = null;
+        if (!provider.stream) {
+          send({ type: "buffered" });
+        }
+        try {
+          await streamExecution(provider, request, limitStreamedOutput((event) => {
+            collected.onEvent(event);
+            send(event);
+          }), abort.signal);
+        } catch (err) {
+          if (!abort.signal.aborted) {
+            console.error(`[execute-code] Stream error:`, err);
+            error = err instanceof ProviderError ? err.message : "Internal server error";
+          }
+        }
+
+        const stopped = abort.signal.aborted;
+        const { compile, run } = collected.result;
+        const report = toExecutionReport(
+          collected.result,
+          error || stopped ? [] : parseDiagnostics(request.language, {
+            compile: compile && compile.stdout + compile.stderr,
+            run: run && run.stdout + run.stderr,
+          }, project.resolveLocation),
+        );
+        if (report.diagnostics.length > 0) {
+          send({ type: "diagnostics", diagnostics: report.diagnostics });
+        }
+
+        if (details) {
+          await recordRun({ ...details, report: compile || run ? report : null, error, stopped });
+        }
+
+        if (error) {
+          send({ type: "error", error });
+        } else if (stopped) {
+          console.log("[execute-code] Client stopped the run");
+        } else {
+          send({ type: "done" });
+          console.log("[execute-code] Stream finished");
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+// A run request as the client sent it. Nothing in it is trusted, each field
+// is checked before it is used.
+interface RunRequestBody {
+  code?: string;
+  files?: unknown[];
+  entry?: string;
+  language: string;
+  stdin?: string;
+  args?: string[];
+  stream?: boolean;
+  projectId: string;
+  runId?: string;
+  record?: boolean;
+}
+
+// The JSON body of a request, refusing bodies that are too large or not JSON
+async function readJsonBody(req: Request): Promise<RunRequestBody> {
+  if (Number(req.headers.get("Content-Length") ?? 0) > MAX_BODY_LENGTH) {
+    throw new AccessError(`Request body is larger than ${MAX_BODY_LENGTH} bytes`, 413);
+  }
+
+  // Content-Length may be missing or wrong, so the body is counted as it arrives
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  if (req.body) {
+    for await (const chunk of req.body) {
+      length += chunk.length;
+      if (length > MAX_BODY_LENGTH) {
+        throw new AccessError(`Request body is larger than ${MAX_BODY_LENGTH} bytes`, 413);
+      }
+      chunks.push(chunk);
+    }
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new AccessError("Request body is not valid JSON", 400);
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new AccessError("Request body must be a JSON object", 400);
+  }
+  return body as RunRequestBody;
+}
+
+// Versions of each language the backend can run, for the project settings
+async function runtimesResponse() {
+  try {
+    const provider = getExecutionProvider();
+    const runtimes = await listRuntimes(provider);
+    return new Response(
+      JSON.stringify({ provider: provider.name, runtimes }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error(`[execute-code] Could not list runtimes:`, error);
+    return new Response(
+      JSON.stringify({ error: error instanceof ProviderError ? error.message : "Could not list runtimes" }),
+      { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -26,12 +202,35 @@ serve(async (req) => {
   }
 
   try {
-    const { code, language } = await req.json();
+    // Only signed-in users list runtimes or send a body to be read
+    const userId = await authenticate(req);
+
+    if (req.method === "GET" && new URL(req.url).pathname.endsWith("/runtimes")) {
+      return await runtimesResponse();
+    }
+
+    const startedAt = new Date().toISOString();
+    const {
+      code,
+      files,
+      entry,
+      language,
+      stdin = "",
+      args = [],
+      stream = false,
+      projectId,
+      runId,
+      record = true,
+    } = await readJsonBody(req);
+
+    // Only people who may edit the project run its code
+    await authorizeRun(userId, projectId);
 
     console.log(`[execute-code] Received request for language: ${language}`);
-    console.log(`[execute-code] Code length: ${code?.length || 0} chars`);
+    console.log(`[execute-code] ${files ? `${files.length} files, entry ${entry}` : `Code length: ${code?.length || 0} chars`}`);
+    console.log(`[execute-code] stdin length: ${stdin?.length || 0} chars, ${args?.length || 0} args`);
 
-    if (!code || !language) {
+    if ((!code && !files) || !language) {
       console.error("[execute-code] Missing code or language");
       return new Response(
         JSON.stringify({ error: "Missing code or language" }),
@@ -39,8 +238,24 @@ serve(async (req) => {
       );
     }
 
-    const config = LANGUAGE_CONFIG[language];
-    if (!config) {
+    if (typeof stdin !== "string" || stdin.length > MAX_STDIN_LENGTH) {
+      console.error("[execute-code] Invalid stdin");
+      return new Response(
+        JSON.stringify({ error: `stdin must be a string of at most ${MAX_STDIN_LENGTH} characters` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!Array.isArray(args) || args.length > MAX_ARGS || args.some((arg) => typeof arg !== "string")) {
+      console.error("[execute-code] Invalid args");
+      return new Response(
+        JSON.stringify({ error: `args must be a list of at most ${MAX_ARGS} strings` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const filename = DEFAULT_FILENAMES[language];
+    if (!filename) {
       console.error(`[execute-code] Unsupported language: ${language}`);
       return new Response(
         JSON.stringify({ error: `Unsupported language: ${language}` }),
@@ -48,77 +263,102 @@ serve(async (req) => {
       );
     }
 
-    console.log(`[execute-code] Calling Piston API with config:`, config);
-
-    // Call Piston API
-    const pistonResponse = await fetch(PISTON_API, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        language: config.language,
-        version: config.version,
-        files: [
-          {
-            name: config.filename,
-            content: code,
-          },
-        ],
-        stdin: "",
-        args: [],
-        compile_timeout: 10000,
-        run_timeout: 5000,
-        compile_memory_limit: -1,
-        run_memory_limit: -1,
-      }),
-    });
-
-    if (!pistonResponse.ok) {
-      const errorText = await pistonResponse.text();
-      console.error(`[execute-code] Piston API error: ${pistonResponse.status} - ${errorText}`);
+    // Single-file requests run as the language's default file name
+    let sourceFiles: SourceFile[];
+    let project: PreparedProject;
+    try {
+      sourceFiles = files
+        ? validateFiles(files)
+        : [{ path: filename, content: code }];
+      project = prepareProject(language, sourceFiles, files ? entry ?? "" : filename);
+    } catch (error) {
+      if (!(error instanceof ProjectError)) throw error;
+      console.error(`[execute-code] Invalid project: ${error.message}`);
       return new Response(
-        JSON.stringify({ error: `Execution service error: ${errorText}` }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: error.message }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const result = await pistonResponse.json();
-    console.log(`[execute-code] Piston API response:`, JSON.stringify(result));
-
-    // Format output
-    const output: string[] = [];
-    
-    // Add compile output if present
-    if (result.compile && result.compile.output) {
-      if (result.compile.code !== 0) {
-        output.push(`❌ Compilation Error:`);
-        output.push(result.compile.output.trim());
-      }
-    }
+    // Counted once the request is known to be valid
+    await consumeRunQuota(userId, projectId);
 
-    // Add run output
-    if (result.run) {
-      if (result.run.output) {
-        output.push(result.run.output.trim());
+    // Runs are kept in the project's run history, unless the client opts out like for tests
+    const details: RunDetails | null = record !== false
+      ? {
+        id: isUuid(runId) ? runId : undefined,
+        projectId,
+        authorId: userId,
+        language,
+        entryPath: files ? entry ?? null : null,
+        files: sourceFiles,
+        stdin,
+        args,
+        startedAt,
       }
-      if (result.run.stderr && result.run.stderr.trim()) {
-        output.push(`⚠️ stderr: ${result.run.stderr.trim()}`);
+      : null;
+
+    const executionRequest: ExecutionRequest = {
+      language,
+      files: project.files,
+      stdin,
+      args,
+      compileTimeout: COMPILE_TIMEOUT,
+      runTimeout: RUN_TIMEOUT,
+      memoryLimit: MEMORY_LIMIT,
+    };
+
+    let result;
+    try {
+      const provider = getExecutionProvider();
+      executionRequest.version = await getProjectVersion(provider, projectId, language);
+      console.log(`[execute-code] Running ${language} ${executionRequest.version ?? "(default version)"} on ${provider.name} provider${stream ? ", streaming" : ""}`);
+
+      if (stream) {
+        return streamResponse(provider, executionRequest, project, details);
       }
-      if (result.run.code !== 0 && !result.run.output && !result.run.stderr) {
-        output.push(`❌ Process exited with code ${result.run.code}`);
+      result = await provider.execute(executionRequest);
+    } catch (error) {
+      if (!(error instanceof ProviderError)) throw error;
+      console.error(`[execute-code] Provider error: ${error.message}`);
+      if (details) {
+        await recordRun({ ...details, report: null, error: error.message, stopped: false });
       }
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
+    console.log(`[execute-code] Execution result:`, JSON.stringify(result));
 
-    if (output.length === 0) {
-      output.push("✓ Code executed successfully (no output)");
+    // The structured report, plus the flat lines older clients read
+    const report = toExecutionReport(
+      result,
+      parseDiagnostics(language, {
+        compile: result.compile && result.compile.stdout + result.compile.stderr,
+        run: result.run && result.run.stdout + result.run.stderr,
+      }, project.resolveLocation),
+    );
+    const output = toLegacyOutput(report);
+    if (details) {
+      await recordRun({ ...details, report, error: null, stopped: false });
     }
 
     console.log(`[execute-code] Success - returning ${output.length} lines`);
 
     return new Response(
-      JSON.stringify({ output, success: true }),
+      JSON.stringify({ result: report, output, success: true }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
+    if (error instanceof AccessError) {
+      console.error(`[execute-code] Refused with ${error.status}: ${error.message}`);
+      const retryAfter = error.status === 429 ? { "Retry-After": String(error.details.retryAfter) } : {};
+      return new Response(
+        JSON.stringify({ error: error.message, ...error.details }),
+        { status: error.status, headers: { ...corsHeaders, ...retryAfter, "Content-Type": "application/json" } }
+      );
+    }
     console.error(`[execute-code] Error:`, error);
     return new Response(
       JSON.stringify({ error: error.message || "Internal server error" }),
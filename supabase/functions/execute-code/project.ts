@@ -0,0 +1,247 @@
+// A file of the project tree as sent by the client, path relative to the project root
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+// A file handed to the runner. The first file is the one that gets run,
+// files with compile set are passed to the compiler, the others are only written.
+export interface RunnerFile {
+  name: string;
+  content: string;
+  compile: boolean;
+}
+
+export interface SourceLocation {
+  path: string;
+  line: number;
+}
+
+// The runner files of a project, and how to map a file and line the compiler
+// or a stack trace reports back to the project's own files
+export interface PreparedProject {
+  files: RunnerFile[];
+  // null for files that are not part of the project, like system headers
+  resolveLocation(printedPath: string, line: number): SourceLocation | null;
+}
+
+export class ProjectError extends Error {}
+
+const MAX_FILES = 200;
+const MAX_TOTAL_SIZE = 1024 * 1024;
+
+// Extensions the compiler or interpreter of each language is given
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+  javascript: ["js", "mjs", "cjs"],
+  typescript: ["ts"],
+  python: ["py"],
+  c: ["c"],
+  cpp: ["cpp", "cc", "cxx"],
+  java: ["java"],
+};
+
+function extension(path: string): string {
+  const name = path.split("/").pop() || "";
+  return name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+}
+
+function basename(path: string): string {
+  return (path.split("/").pop() || path).replace(/\.[^.]*$/, "");
+}
+
+// Reject anything that could escape the project directory on the runner
+function normalizePath(path: string): string {
+  const segments = path.replace(/\\/g, "/").split("/").filter((s) => s && s !== ".");
+  if (segments.length === 0 || segments.includes("..")) {
+    throw new ProjectError(`Invalid file path: ${path}`);
+  }
+  return segments.join("/");
+}
+
+export function validateFiles(files: unknown): SourceFile[] {
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new ProjectError("files must be a non-empty list");
+  }
+  if (files.length > MAX_FILES) {
+    throw new ProjectError(`Projects can have at most ${MAX_FILES} files`);
+  }
+
+  const seen = new Set<string>();
+  let totalSize = 0;
+  return files.map((file) => {
+    if (typeof file?.path !== "string" || typeof file?.content !== "string") {
+      throw new ProjectError("Each file needs a path and content");
+    }
+    const path = normalizePath(file.path);
+    if (seen.has(path)) {
+      throw new ProjectError(`Duplicate file path: ${path}`);
+    }
+    seen.add(path);
+    totalSize += file.content.length;
+    if (totalSize > MAX_TOTAL_SIZE) {
+      throw new ProjectError(`Projects can be at most ${MAX_TOTAL_SIZE / 1024} KB`);
+    }
+    return { path, content: file.content };
+  });
+}
+
+// Paths are printed absolute or relative to the job directory
+function findRunnerFile(files: RunnerFile[], printedPath: string): RunnerFile | undefined {
+  const path = printedPath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return files
+    .filter((file) => path === file.name || path.endsWith(`/${file.name}`))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+// Generated files don't map anywhere, files with a line map were rewritten
+function withLocations(
+  files: RunnerFile[],
+  lineMaps: Record<string, (SourceLocation | null)[]> = {},
+  generated: string[] = [],
+): PreparedProject {
+  return {
+    files,
+    resolveLocation(printedPath, line) {
+      const file = findRunnerFile(files, printedPath);
+      if (!file || generated.includes(file.name)) return null;
+      const lineMap = lineMaps[file.name];
+      return lineMap ? lineMap[line - 1] ?? null : { path: file.name, line };
+    },
+  };
+}
+
+const PYTHON_LAUNCHER = "__codevibe_main__.py";
+
+// Python runs the entry as a module from the project root, so imports of
+// sibling packages and relative imports inside the entry's package resolve
+function preparePython(files: SourceFile[], entry: SourceFile): PreparedProject {
+  const others = files
+    .filter((file) => file !== entry)
+    .map((file) => ({ name: file.path, content: file.content, compile: false }));
+
+  if (!entry.path.includes("/")) {
+    return withLocations([{ name: entry.path, content: entry.content, compile: true }, ...others]);
+  }
+
+  const modulePath = entry.path.replace(/\.py$/, "").split("/");
+  const isModule = extension(entry.path) === "py"
+    && modulePath.every((segment) => /^[A-Za-z_]\w*$/.test(segment));
+  const launcher = [
+    "import runpy",
+    isModule
+      ? `runpy.run_module(${JSON.stringify(modulePath.join("."))}, run_name="__main__", alter_sys=True)`
+      : `runpy.run_path(${JSON.stringify(entry.path)}, run_name="__main__")`,
+    "",
+  ].join("\n");
+
+  return withLocations([
+    { name: PYTHON_LAUNCHER, content: launcher, compile: true },
+    { name: entry.path, content: entry.content, compile: false },
+    ...others,
+  ], {}, [PYTHON_LAUNCHER]);
+}
+
+const JAVA_TYPE_DECLARATION = /^(\s*)public\s+((?:(?:abstract|final|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record)\s+\w+)/gm;
+// Top-level types start their line, nested ones are indented
+const JAVA_TOP_LEVEL_TYPE = /^(?:(?:public|abstract|final|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record)\s+(\w+)/gm;
+
+// Merging leaves one namespace for every top-level type of the project
+function checkJavaTypeNames(sources: SourceFile[]) {
+  const declaredIn = new Map<string, string>();
+  for (const file of sources) {
+    for (const [, name] of file.content.matchAll(JAVA_TOP_LEVEL_TYPE)) {
+      const other = declaredIn.get(name);
+      if (other && other !== file.path) {
+        throw new ProjectError(
+          `${name} is declared in both ${other} and ${file.path}. Java projects are run as one file, so their classes need different names.`,
+        );
+      }
+      declaredIn.set(name, file.path);
+    }
+  }
+}
+
+// Java runs in single-file source mode, so the project is merged into one
+// compilation unit named after the entry class. Project packages disappear
+// in the merge, so their imports are dropped and top-level types made package-private.
+// What the merge cannot keep working, static imports of project members and
+// classes of the same name in different packages, is refused.
+// A line map leads from the merged file back to the original ones.
+function prepareJava(files: SourceFile[], entry: SourceFile): PreparedProject {
+  const sources = files.filter((file) => extension(file.path) === "java");
+  const packages = new Set(
+    sources
+      .map((file) => file.content.match(/^\s*package\s+([\w.]+)\s*;/m)?.[1])
+      .filter((name): name is string => !!name),
+  );
+  checkJavaTypeNames(sources);
+
+  // The class declared last before the main method is the one that holds it
+  const mainIndex = entry.content.search(/public\s+static\s+void\s+main\s*\(/);
+  const declarations = [...entry.content.slice(0, Math.max(mainIndex, 0)).matchAll(/\b(?:class|record|enum|interface)\s+(\w+)/g)];
+  const mainClass = declarations.pop()?.[1] || basename(entry.path);
+
+  const imports = new Set<string>();
+  const bodyLineMap: (SourceLocation | null)[] = [];
+  const bodies = [entry, ...sources.filter((file) => file !== entry)].map((file) => {
+    bodyLineMap.push(null);
+    const lines = file.content.split("\n").filter((line, index) => {
+      const trimmed = line.trim();
+      if (/^package\s+[\w.]+\s*;/.test(trimmed)) return false;
+      const imported = trimmed.match(/^import\s+(static\s+)?([\w.]+)(?:\.\*)?\s*;/);
+      if (imported) {
+        const target = imported[2];
+        const isProjectImport = [...packages].some((name) => target === name || target.startsWith(`${name}.`));
+        if (isProjectImport && imported[1]) {
+          throw new ProjectError(
+            `${file.path}:${index + 1}: import static ${target} is not supported for project classes, call it through its class instead`,
+          );
+        }
+        if (!isProjectImport) imports.add(trimmed);
+        return false;
+      }
+      bodyLineMap.push({ path: file.path, line: index + 1 });
+      return true;
+    });
+    return `// ${file.path}\n${lines.join("\n").replace(JAVA_TYPE_DECLARATION, "$1$2")}`;
+  });
+
+  const merged = [...imports, "", ...bodies].join("\n");
+  const mergedName = `${mainClass}.java`;
+  const others = files
+    .filter((file) => extension(file.path) !== "java")
+    .map((file) => ({ name: file.path, content: file.content, compile: false }));
+
+  return withLocations(
+    [{ name: mergedName, content: merged, compile: true }, ...others],
+    { [mergedName]: [...[...imports, ""].map(() => null), ...bodyLineMap] },
+  );
+}
+
+/**
+ * Turn the project tree into the files the runner gets, entry first.
+ * Source files of the language are compiled together, e.g. every .c file of a
+ * C project becomes its own translation unit, while headers and data files are
+ * only written next to them.
+ */
+export function prepareProject(language: string, files: SourceFile[], entryPath: string): PreparedProject {
+  const entry = files.find((file) => file.path === normalizePath(entryPath));
+  if (!entry) {
+    throw new ProjectError(`Entry file not found: ${entryPath}`);
+  }
+
+  const extensions = SOURCE_EXTENSIONS[language] || [];
+  if (!extensions.includes(extension(entry.path))) {
+    throw new ProjectError(`Entry file ${entry.path} is not a ${language} source file`);
+  }
+
+  if (language === "python") return preparePython(files, entry);
+  if (language === "java") return prepareJava(files, entry);
+
+  const toRunnerFile = (file: SourceFile): RunnerFile => ({
+    name: file.path,
+    content: file.content,
+    compile: extensions.includes(extension(file.path)),
+  });
+  return withLocations([toRunnerFile(entry), ...files.filter((file) => file !== entry).map(toRunnerFile)]);
+}
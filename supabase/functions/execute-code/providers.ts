@@ -0,0 +1,263 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { RunnerFile } from "./project.ts";
+
+// What every execution backend is asked to do. Timeouts are in milliseconds,
+// the memory limit in bytes.
+export interface ExecutionRequest {
+  language: string;
+  // Version of the language's runtime, the backend's default when missing
+  version?: string;
+  files: RunnerFile[];
+  stdin: string;
+  args: string[];
+  compileTimeout: number;
+  runTimeout: number;
+  memoryLimit: number;
+}
+
+// Result of the compile or run stage. output interleaves stdout and stderr.
+export interface StageResult {
+  stdout: string;
+  stderr: string;
+  output: string;
+  code: number | null;
+  signal: string | null;
+  // Milliseconds from start to exit and peak memory in bytes, when the backend reports them
+  wallTime: number | null;
+  memory: number | null;
+  // Set by backends that dropped output beyond their own limit
+  truncated?: boolean;
+}
+
+export interface ExecutionResult {
+  compile?: StageResult;
+  // Missing when compilation failed
+  run?: StageResult;
+}
+
+export type Stage = "compile" | "run";
+
+// Progress of a streamed execution
+export type ExecutionEvent =
+  | { type: "start"; stage: Stage }
+  | { type: "stdout" | "stderr"; stage: Stage; data: string }
+  | ({ type: "exit"; stage: Stage } & Omit<StageResult, "stdout" | "stderr" | "output">);
+
+// A version of a language the backend can run
+export interface Runtime {
+  language: string;
+  version: string;
+  // Used for projects that have not chosen a version
+  default: boolean;
+}
+
+export interface ExecutionProvider {
+  name: string;
+  listRuntimes(): Promise<Runtime[]>;
+  execute(request: ExecutionRequest, signal?: AbortSignal): Promise<ExecutionResult>;
+  // Backends that can report output while the program runs. Aborting the
+  // signal stops the program.
+  stream?(request: ExecutionRequest, onEvent: (event: ExecutionEvent) => void, signal: AbortSignal): Promise<void>;
+}
+
+export class ProviderError extends Error {}
+
+// Language names and default versions of the public Piston runtimes. runtime
+// picks the implementation where Piston has several, like Node and Deno.
+const PISTON_RUNTIMES: Record<string, { language: string; version: string; runtime?: string }> = {
+  javascript: { language: "javascript", version: "18.15.0", runtime: "node" },
+  typescript: { language: "typescript", version: "5.0.3" },
+  python: { language: "python", version: "3.10.0" },
+  cpp: { language: "c++", version: "10.2.0", runtime: "gcc" },
+  c: { language: "c", version: "10.2.0", runtime: "gcc" },
+  java: { language: "java", version: "15.0.2" },
+};
+
+// A compile or run stage as Piston reports it. Timing and memory come from
+// v3.1 on, status OL and EL mean stdout or stderr went over the instance's limit.
+interface PistonStage {
+  stdout?: string;
+  stderr?: string;
+  output?: string;
+  code?: number | null;
+  signal?: string | null;
+  wall_time?: number | null;
+  memory?: number | null;
+  status?: string | null;
+}
+
+function fromPistonStage(stage: PistonStage | undefined): StageResult | undefined {
+  if (!stage) return undefined;
+  return {
+    stdout: stage.stdout ?? "",
+    stderr: stage.stderr ?? "",
+    output: stage.output ?? "",
+    code: stage.code ?? null,
+    signal: stage.signal ?? null,
+    wallTime: stage.wall_time ?? null,
+    memory: stage.memory ?? null,
+    truncated: stage.status === "OL" || stage.status === "EL",
+  };
+}
+
+// Piston API, public instance by default (no API key needed)
+function createPistonProvider(apiUrl: string): ExecutionProvider {
+  return {
+    name: "piston",
+    async listRuntimes() {
+      const response = await fetch(apiUrl.replace(/\/execute\/?$/, "/runtimes"));
+      if (!response.ok) {
+        throw new ProviderError(`Execution service error: ${await response.text()}`);
+      }
+
+      const available: { language: string; version: string; runtime?: string }[] = await response.json();
+      return Object.entries(PISTON_RUNTIMES).flatMap(([language, runtime]) =>
+        available
+          .filter((entry) => entry.language === runtime.language && entry.runtime === runtime.runtime)
+          .map((entry) => ({ language, version: entry.version, default: entry.version === runtime.version }))
+      );
+    },
+    async execute(request, signal) {
+      const runtime = PISTON_RUNTIMES[request.language];
+      if (!runtime) {
+        throw new ProviderError(`Unsupported language: ${request.language}`);
+      }
+
+      const response = await fetch(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          language: runtime.language,
+          version: request.version ?? runtime.version,
+          // Piston only hands UTF-8 files to the compiler, the rest are just written
+          files: request.files.map((file) =>
+            file.compile
+              ? { name: file.name, content: file.content }
+              : { name: file.name, content: encodeBase64(file.content), encoding: "base64" }
+          ),
+          stdin: request.stdin,
+          args: request.args,
+          compile_timeout: request.compileTimeout,
+          run_timeout: request.runTimeout,
+          // The instance's own limits apply, the public one rejects anything above them
+          compile_memory_limit: -1,
+          run_memory_limit: -1,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new ProviderError(`Execution service error: ${await response.text()}`);
+      }
+      const result: { compile?: PistonStage; run?: PistonStage } = await response.json();
+      return { compile: fromPistonStage(result.compile), run: fromPistonStage(result.run) };
+    },
+  };
+}
+
+// Self-hosted runner from /runner, speaks ExecutionRequest, ExecutionResult
+// and ExecutionEvent as is
+function createLocalProvider(runnerUrl: string, token: string | undefined): ExecutionProvider {
+  // Requests go out as POST, GET without one
+  const send = async (path: string, request?: ExecutionRequest, signal?: AbortSignal) => {
+    const response = await fetch(`${runnerUrl.replace(/\/$/, "")}${path}`, {
+      method: request ? "POST" : "GET",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: request && JSON.stringify(request),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new ProviderError(`Execution service error: ${body?.error || response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "local",
+    async listRuntimes() {
+      const response = await send("/runtimes");
+      return (await response.json()).runtimes;
+    },
+    async execute(request, signal) {
+      const response = await send("/execute", request, signal);
+      return await response.json();
+    },
+    async stream(request, onEvent, signal) {
+      const response = await send("/execute/stream", request, signal);
+
+      // One JSON event per line
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop()!;
+        for (const line of lines.filter(Boolean)) {
+          const event = JSON.parse(line);
+          if (event.type === "error") {
+            throw new ProviderError(`Execution service error: ${event.error}`);
+          }
+          onEvent(event);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Run a request and report its progress as events. Backends that cannot
+ * stream report every event at once when the program has finished.
+ */
+export async function streamExecution(
+  provider: ExecutionProvider,
+  request: ExecutionRequest,
+  onEvent: (event: ExecutionEvent) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  if (provider.stream) {
+    return await provider.stream(request, onEvent, signal);
+  }
+
+  const result = await provider.execute(request, signal);
+  for (const stage of ["compile", "run"] as const) {
+    const stageResult = result[stage];
+    if (!stageResult) continue;
+    const { stdout, stderr, output: _output, ...exit } = stageResult;
+    onEvent({ type: "start", stage });
+    if (stdout) onEvent({ type: "stdout", stage, data: stdout });
+    if (stderr) onEvent({ type: "stderr", stage, data: stderr });
+    onEvent({ type: "exit", stage, ...exit });
+  }
+}
+
+/**
+ * Pick the execution backend from the environment:
+ * EXECUTION_PROVIDER=piston (default) uses PISTON_API_URL or the public instance,
+ * EXECUTION_PROVIDER=local uses the runner at LOCAL_RUNNER_URL with RUNNER_TOKEN.
+ */
+export function getExecutionProvider(): ExecutionProvider {
+  const provider = Deno.env.get("EXECUTION_PROVIDER") || "piston";
+
+  if (provider === "piston") {
+    return createPistonProvider(
+      Deno.env.get("PISTON_API_URL") || "https://emkc.org/api/v2/piston/execute",
+    );
+  }
+
+  if (provider === "local") {
+    const runnerUrl = Deno.env.get("LOCAL_RUNNER_URL");
+    if (!runnerUrl) {
+      throw new ProviderError("LOCAL_RUNNER_URL is not set");
+    }
+    return createLocalProvider(runnerUrl, Deno.env.get("RUNNER_TOKEN"));
+  }
+
+  throw new ProviderError(`Unknown execution provider: ${provider}`);
+}
@@ -0,0 +1,138 @@
+import type { Diagnostic } from "./diagnostics.ts";
+import type { ExecutionEvent, ExecutionResult, Stage, StageResult } from "./providers.ts";
+
+// Characters of stdout and of stderr kept per stage
+export const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// A stage as returned to the client
+export interface StageReport {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+  signal: string | null;
+  // Milliseconds and bytes, null when the backend does not report them
+  wallTime: number | null;
+  memory: number | null;
+  // stdout or stderr was cut, by the backend or at MAX_OUTPUT_LENGTH
+  truncated: boolean;
+}
+
+export interface ExecutionReport {
+  // Missing for interpreted languages
+  compile: StageReport | null;
+  // Missing when compilation failed
+  run: StageReport | null;
+  // Compiler messages and uncaught errors located in project files
+  diagnostics: Diagnostic[];
+}
+
+function toStageReport(stage: StageResult | undefined): StageReport | null {
+  if (!stage) return null;
+  return {
+    stdout: stage.stdout.slice(0, MAX_OUTPUT_LENGTH),
+    stderr: stage.stderr.slice(0, MAX_OUTPUT_LENGTH),
+    code: stage.code,
+    signal: stage.signal,
+    wallTime: stage.wallTime,
+    memory: stage.memory,
+    truncated: !!stage.truncated
+      || stage.stdout.length > MAX_OUTPUT_LENGTH
+      || stage.stderr.length > MAX_OUTPUT_LENGTH,
+  };
+}
+
+export function toExecutionReport(result: ExecutionResult, diagnostics: Diagnostic[]): ExecutionReport {
+  return { compile: toStageReport(result.compile), run: toStageReport(result.run), diagnostics };
+}
+
+/**
+ * The flat output lines responses carried before the structured report,
+ * kept for clients that still read them.
+ */
+export function toLegacyOutput(report: ExecutionReport): string[] {
+  const output: string[] = [];
+
+  const { compile, run } = report;
+  if (compile && compile.code !== 0) {
+    const compilerOutput = [compile.stdout, compile.stderr].join("").trim();
+    if (compilerOutput) {
+      output.push(`❌ Compilation Error:`);
+      output.push(compilerOutput);
+    }
+  }
+
+  if (run) {
+    if (run.stdout.trim()) {
+      output.push(run.stdout.trim());
+    }
+    if (run.stderr.trim()) {
+      output.push(`⚠️ stderr: ${run.stderr.trim()}`);
+    }
+    if (run.code !== 0 && !run.stdout && !run.stderr) {
+      output.push(`❌ Process exited with code ${run.code}`);
+    }
+  }
+
+  if (output.length === 0) {
+    output.push("✓ Code executed successfully (no output)");
+  }
+  return output;
+}
+
+/**
+ * Wrap an event handler so streamed stdout and stderr stop at
+ * MAX_OUTPUT_LENGTH per stage, flagging the stage's exit event as truncated.
+ */
+export function limitStreamedOutput(onEvent: (event: ExecutionEvent) => void): (event: ExecutionEvent) => void {
+  const sent = new Map<string, number>();
+  const truncated = new Set<Stage>();
+
+  return (event) => {
+    if (event.type === "stdout" || event.type === "stderr") {
+      const key = `${event.stage}:${event.type}`;
+      const length = sent.get(key) || 0;
+      const room = MAX_OUTPUT_LENGTH - length;
+      if (event.data.length > room) truncated.add(event.stage);
+      if (room <= 0) return;
+      sent.set(key, length + Math.min(event.data.length, room));
+      onEvent({ ...event, data: event.data.slice(0, room) });
+      return;
+    }
+
+    if (event.type === "exit") {
+      onEvent({ ...event, truncated: !!event.truncated || truncated.has(event.stage) });
+      return;
+    }
+
+    onEvent(event);
+  };
+}
+
+/**
+ * Collect streamed events back into the result execute() would have
+ * returned, for stages that have started so far.
+ */
+export function collectStreamedResult(): { onEvent: (event: ExecutionEvent) => void; result: ExecutionResult } {
+  const result: ExecutionResult = {};
+
+  const onEvent = (event: ExecutionEvent) => {
+    if (event.type === "start") {
+      result[event.stage] = {
+        stdout: "", stderr: "", output: "", code: null, signal: null, wallTime: null, memory: null,
+      };
+      return;
+    }
+
+    const stage = result[event.stage];
+    if (!stage) return;
+    if (event.type === "stdout" || event.type === "stderr") {
+      stage[event.type] += event.data;
+      stage.output += event.data;
+    } else {
+      const { type: _type, stage: _stage, ...exit } = event;
+      Object.assign(stage, exit);
+    }
+  };
+
+  return { onEvent, result };
+}
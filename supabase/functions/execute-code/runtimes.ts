@@ -0,0 +1,46 @@
+import { getAdminClient } from "./access.ts";
+import { ExecutionProvider, ProviderError, Runtime } from "./providers.ts";
+
+// Backends rarely change their runtimes, each function instance keeps the list a while
+const RUNTIMES_TTL = 10 * 60 * 1000;
+
+let cached: { provider: string; runtimes: Runtime[]; fetchedAt: number } | null = null;
+
+export async function listRuntimes(provider: ExecutionProvider): Promise<Runtime[]> {
+  if (cached?.provider === provider.name && Date.now() - cached.fetchedAt < RUNTIMES_TTL) {
+    return cached.runtimes;
+  }
+  const runtimes = await provider.listRuntimes();
+  cached = { provider: provider.name, runtimes, fetchedAt: Date.now() };
+  return runtimes;
+}
+
+/**
+ * The version projectId runs language with, as chosen in its settings, or
+ * undefined to leave it to the backend. A chosen version the backend no
+ * longer has fails the run rather than running another one.
+ */
+export async function getProjectVersion(
+  provider: ExecutionProvider,
+  projectId: string,
+  language: string,
+): Promise<string | undefined> {
+  const admin = getAdminClient();
+  if (!admin) return undefined;
+
+  const { data, error } = await admin
+    .from("projects")
+    .select("runtime_versions")
+    .eq("id", projectId)
+    .single();
+  if (error) throw error;
+
+  const version = data.runtime_versions?.[language];
+  if (typeof version !== "string") return undefined;
+
+  const runtimes = await listRuntimes(provider);
+  if (!runtimes.some((runtime) => runtime.language === language && runtime.version === version)) {
+    throw new ProviderError(`${language} ${version} is no longer available, choose another version in the project settings`);
+  }
+  return version;
+}
@@ -0,0 +1,72 @@
+-- Keep a history of file contents so overwritten code can be recovered
+CREATE TABLE public.file_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.project_files(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX file_revisions_file_id_updated_at_idx
+ON public.file_revisions (file_id, updated_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.file_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can view the files can view their history.
+-- Revisions are only written by the trigger below, so there are no write policies.
+CREATE POLICY "Users can view revisions in accessible projects"
+ON public.file_revisions
+FOR SELECT
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.is_project_public(project_id) OR
+  public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL
+);
+
+-- Snapshot every content save. Saves by the same author within two minutes
+-- are coalesced into one revision, since the editor saves about once a second.
+CREATE OR REPLACE FUNCTION public.record_file_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  latest public.file_revisions%ROWTYPE;
+BEGIN
+  IF NEW.is_folder OR NEW.content IS NOT DISTINCT FROM OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.file_revisions
+  WHERE file_id = NEW.id
+  ORDER BY updated_at DESC
+  LIMIT 1;
+
+  -- The first save also records what the file held before it
+  IF NOT FOUND THEN
+    INSERT INTO public.file_revisions (file_id, project_id, content, author_id, created_at, updated_at)
+    VALUES (NEW.id, NEW.project_id, COALESCE(OLD.content, ''), NULL, OLD.updated_at, OLD.updated_at);
+  ELSIF latest.author_id = auth.uid()
+    AND latest.updated_at > now() - interval '2 minutes' THEN
+    UPDATE public.file_revisions
+    SET content = COALESCE(NEW.content, ''), updated_at = now()
+    WHERE id = latest.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.file_revisions (file_id, project_id, content, author_id)
+  VALUES (NEW.id, NEW.project_id, COALESCE(NEW.content, ''), auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_project_file_revision
+AFTER UPDATE OF content ON public.project_files
+FOR EACH ROW
+EXECUTE FUNCTION public.record_file_revision();
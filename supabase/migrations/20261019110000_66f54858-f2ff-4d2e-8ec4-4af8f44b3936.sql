@@ -0,0 +1,62 @@
+-- Version counter for optimistic concurrency on file saves
+ALTER TABLE public.project_files
+ADD COLUMN content_version BIGINT NOT NULL DEFAULT 1;
+
+-- Bump the version whenever the content changes, whichever path wrote it
+CREATE OR REPLACE FUNCTION public.bump_file_content_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    NEW.content_version := OLD.content_version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_project_file_content_version
+BEFORE UPDATE ON public.project_files
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_file_content_version();
+
+-- Compare-and-swap save: only writes when the caller saw the latest version.
+-- On a stale write the current version and content are returned instead.
+-- Runs as the caller so the project_files RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.save_file_content(_file_id uuid, _content text, _expected_version bigint)
+RETURNS TABLE (saved boolean, current_version bigint, current_content text)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _version bigint;
+  _current text;
+BEGIN
+  UPDATE public.project_files
+  SET content = _content
+  WHERE id = _file_id AND content_version = _expected_version
+  RETURNING content_version INTO _version;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT true, _version, NULL::text;
+    RETURN;
+  END IF;
+
+  SELECT content_version, content INTO _version, _current
+  FROM public.project_files
+  WHERE id = _file_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Nothing changed underneath us, so the update was rejected by RLS
+  IF _version = _expected_version THEN
+    RAISE EXCEPTION 'Not allowed to edit this file' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY SELECT false, _version, _current;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Named stdin and argument sets, so programs can be rerun against the same inputs
+CREATE TABLE public.run_input_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  stdin TEXT NOT NULL DEFAULT '',
+  args TEXT NOT NULL DEFAULT '',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Saving under an existing name replaces that set
+ALTER TABLE public.run_input_sets ADD CONSTRAINT unique_run_input_set_name UNIQUE (project_id, name);
+
+-- Enable RLS
+ALTER TABLE public.run_input_sets ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: anyone who can view the project
+CREATE POLICY "Users can view input sets in accessible projects"
+ON public.run_input_sets FOR SELECT
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.is_project_public(project_id) OR
+  public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL
+);
+
+-- INSERT, UPDATE, DELETE: owner, edit, or full_access
+CREATE POLICY "Users can create input sets in owned or edit/full access projects"
+ON public.run_input_sets FOR INSERT
+WITH CHECK (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+CREATE POLICY "Users can update input sets in owned or edit/full access projects"
+ON public.run_input_sets FOR UPDATE
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+CREATE POLICY "Users can delete input sets in owned or edit/full access projects"
+ON public.run_input_sets FOR DELETE
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_run_input_sets_updated_at
+BEFORE UPDATE ON public.run_input_sets
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,3 @@
+-- File a multi-file project starts running from, defaults to the open file when unset
+ALTER TABLE public.projects
+ADD COLUMN entry_file_id UUID REFERENCES public.project_files(id) ON DELETE SET NULL;
@@ -0,0 +1,54 @@
+-- Files of a run, stored once per distinct project snapshot
+CREATE TABLE public.code_run_snapshots (
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Hex SHA-256 of the files' paths and contents
+  hash TEXT NOT NULL,
+  -- [{ path, content }] as sent to execute-code
+  files JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, hash)
+);
+
+-- Every invocation of execute-code by a project member, written by the
+-- function with the service role
+CREATE TABLE public.code_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  language TEXT NOT NULL,
+  -- Entry file of multi-file runs, null for single-file code
+  entry_path TEXT,
+  snapshot_hash TEXT NOT NULL,
+  stdin TEXT NOT NULL DEFAULT '',
+  args TEXT[] NOT NULL DEFAULT '{}',
+  -- The structured report returned to the client, null when no stage finished
+  result JSONB,
+  error TEXT,
+  status TEXT NOT NULL CHECK (status IN ('success', 'compile_error', 'runtime_error', 'error', 'stopped')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  FOREIGN KEY (project_id, snapshot_hash) REFERENCES public.code_run_snapshots(project_id, hash)
+);
+
+CREATE INDEX idx_code_runs_project_created ON public.code_runs (project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.code_run_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.code_runs ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: anyone who can view the project. Runs are only written by execute-code.
+CREATE POLICY "Users can view run snapshots in accessible projects"
+ON public.code_run_snapshots FOR SELECT
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.is_project_public(project_id) OR
+  public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL
+);
+
+CREATE POLICY "Users can view runs in accessible projects"
+ON public.code_runs FOR SELECT
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.is_project_public(project_id) OR
+  public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL
+);
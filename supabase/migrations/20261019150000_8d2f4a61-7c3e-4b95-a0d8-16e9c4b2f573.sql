@@ -0,0 +1,58 @@
+-- Test cases of a project: input, expected stdout and how output is compared to it
+CREATE TABLE public.project_test_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  stdin TEXT NOT NULL DEFAULT '',
+  args TEXT NOT NULL DEFAULT '',
+  expected_stdout TEXT NOT NULL DEFAULT '',
+  comparison TEXT NOT NULL DEFAULT 'trimmed' CHECK (comparison IN ('exact', 'trimmed', 'regex', 'numeric')),
+  -- Allowed difference of numbers in numeric mode, relative for values above 1
+  tolerance DOUBLE PRECISION NOT NULL DEFAULT 1e-6 CHECK (tolerance >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_test_cases ADD CONSTRAINT unique_project_test_case_name UNIQUE (project_id, name);
+
+-- Enable RLS
+ALTER TABLE public.project_test_cases ENABLE ROW LEVEL SECURITY;
+
+-- SELECT: anyone who can view the project
+CREATE POLICY "Users can view test cases in accessible projects"
+ON public.project_test_cases FOR SELECT
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.is_project_public(project_id) OR
+  public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL
+);
+
+-- INSERT, UPDATE, DELETE: owner, edit, or full_access
+CREATE POLICY "Users can create test cases in owned or edit/full access projects"
+ON public.project_test_cases FOR INSERT
+WITH CHECK (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+CREATE POLICY "Users can update test cases in owned or edit/full access projects"
+ON public.project_test_cases FOR UPDATE
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+CREATE POLICY "Users can delete test cases in owned or edit/full access projects"
+ON public.project_test_cases FOR DELETE
+USING (
+  public.is_project_owner(project_id, auth.uid()) OR
+  public.get_collaborator_role(project_id, auth.uid()) IN ('edit', 'full_access')
+);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_project_test_cases_updated_at
+BEFORE UPDATE ON public.project_test_cases
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
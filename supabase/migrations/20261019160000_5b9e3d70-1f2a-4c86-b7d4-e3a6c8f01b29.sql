@@ -0,0 +1,4 @@
+-- Where JavaScript and TypeScript of a project run: on the execute-code backend
+-- or in a worker of each user's browser
+ALTER TABLE public.projects
+ADD COLUMN execution_mode TEXT NOT NULL DEFAULT 'server' CHECK (execution_mode IN ('server', 'local'));
@@ -0,0 +1,97 @@
+-- How many runs execute-code starts per user and per project, over a rolling
+-- minute and a rolling day. Change a row to change the limit.
+CREATE TABLE public.execution_limits (
+  scope TEXT NOT NULL PRIMARY KEY CHECK (scope IN ('user', 'project')),
+  per_minute INTEGER NOT NULL CHECK (per_minute > 0),
+  per_day INTEGER NOT NULL CHECK (per_day > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.execution_limits (scope, per_minute, per_day)
+VALUES ('user', 30, 1000), ('project', 60, 3000);
+
+-- Runs counted against the limits, kept for a day
+CREATE TABLE public.execution_usage (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX execution_usage_user_id_created_at_idx
+ON public.execution_usage (user_id, created_at);
+
+CREATE INDEX execution_usage_project_id_created_at_idx
+ON public.execution_usage (project_id, created_at);
+
+-- Enable RLS. Only execute-code reads and writes these, with the service role.
+ALTER TABLE public.execution_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.execution_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_execution_limits_updated_at
+BEFORE UPDATE ON public.execution_limits
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Count a run of _user_id in _project_id unless that breaks a limit. Returns
+-- NULL when the run may start, else the limit it hit and the seconds until
+-- the oldest run in its window stops counting.
+CREATE OR REPLACE FUNCTION public.consume_execution_quota(_user_id UUID, _project_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limit public.execution_limits%ROWTYPE;
+  _window RECORD;
+  _count INTEGER;
+  _oldest TIMESTAMPTZ;
+BEGIN
+  -- Concurrent runs of the same user or project wait for each other, so none
+  -- slips past a limit. Users are always locked before projects.
+  PERFORM pg_advisory_xact_lock(hashtext('execution_user:' || _user_id::text));
+  PERFORM pg_advisory_xact_lock(hashtext('execution_project:' || _project_id::text));
+
+  FOR _limit IN SELECT * FROM public.execution_limits ORDER BY scope DESC LOOP
+    FOR _window IN
+      SELECT * FROM (VALUES
+        ('minute', interval '1 minute', _limit.per_minute),
+        ('day', interval '1 day', _limit.per_day)
+      ) AS w(name, length, max_runs)
+    LOOP
+      IF _limit.scope = 'user' THEN
+        SELECT count(*), min(created_at) INTO _count, _oldest
+        FROM public.execution_usage
+        WHERE user_id = _user_id AND created_at > now() - _window.length;
+      ELSE
+        SELECT count(*), min(created_at) INTO _count, _oldest
+        FROM public.execution_usage
+        WHERE project_id = _project_id AND created_at > now() - _window.length;
+      END IF;
+
+      IF _count >= _window.max_runs THEN
+        RETURN jsonb_build_object(
+          'scope', _limit.scope,
+          'window', _window.name,
+          'limit', _window.max_runs,
+          'retry_after', GREATEST(1, CEIL(EXTRACT(EPOCH FROM _oldest + _window.length - now())))::INTEGER
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  INSERT INTO public.execution_usage (user_id, project_id)
+  VALUES (_user_id, _project_id);
+
+  -- Runs older than the longest window no longer count
+  DELETE FROM public.execution_usage
+  WHERE (user_id = _user_id OR project_id = _project_id)
+    AND created_at < now() - interval '1 day';
+
+  RETURN NULL;
+END;
+$$;
+
+-- Users could otherwise use up the quota of someone else
+REVOKE EXECUTE ON FUNCTION public.consume_execution_quota(UUID, UUID) FROM PUBLIC, anon, authenticated;
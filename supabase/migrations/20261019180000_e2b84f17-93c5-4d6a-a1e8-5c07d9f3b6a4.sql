@@ -0,0 +1,5 @@
+-- Runtime version chosen per language, e.g. {"python": "3.12.0"}. Languages
+-- missing from it run on the execution backend's default version.
+ALTER TABLE public.projects
+ADD COLUMN runtime_versions JSONB NOT NULL DEFAULT '{}'::jsonb
+CHECK (jsonb_typeof(runtime_versions) = 'object');
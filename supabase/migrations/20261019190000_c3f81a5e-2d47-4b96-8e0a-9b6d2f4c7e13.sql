@@ -0,0 +1,121 @@
+-- Room passwords move out of projects, which every collaborator and anyone
+-- seeing a public project can read, into a table only the owner can read.
+-- Joining checks the password on the server with join_project.
+CREATE TABLE public.project_passwords (
+  project_id UUID NOT NULL PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  view_password VARCHAR,
+  edit_password VARCHAR,
+  full_access_password VARCHAR,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.project_passwords (project_id, view_password, edit_password, full_access_password)
+SELECT id, view_password, edit_password, full_access_password
+FROM public.projects
+WHERE view_password IS NOT NULL OR edit_password IS NOT NULL OR full_access_password IS NOT NULL;
+
+ALTER TABLE public.projects
+DROP COLUMN view_password,
+DROP COLUMN edit_password,
+DROP COLUMN full_access_password,
+DROP COLUMN room_password;
+
+-- Enable RLS
+ALTER TABLE public.project_passwords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view project passwords"
+ON public.project_passwords FOR SELECT
+USING (public.is_project_owner(project_id, auth.uid()));
+
+CREATE POLICY "Owners can set project passwords"
+ON public.project_passwords FOR INSERT
+WITH CHECK (public.is_project_owner(project_id, auth.uid()));
+
+CREATE POLICY "Owners can update project passwords"
+ON public.project_passwords FOR UPDATE
+USING (public.is_project_owner(project_id, auth.uid()));
+
+CREATE TRIGGER update_project_passwords_updated_at
+BEFORE UPDATE ON public.project_passwords
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Users could add themselves with any role, joining goes through join_project
+DROP POLICY IF EXISTS "Users can join projects" ON public.project_collaborators;
+
+CREATE OR REPLACE FUNCTION public.get_role_from_password(_project_id uuid, _password varchar)
+RETURNS collaborator_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN full_access_password = _password THEN 'full_access'::collaborator_role
+      WHEN edit_password = _password THEN 'edit'::collaborator_role
+      WHEN view_password = _password THEN 'view'::collaborator_role
+      ELSE NULL
+    END
+  FROM public.project_passwords
+  WHERE project_id = _project_id
+$$;
+
+-- Only the join functions below need it, with a project they found by room code
+REVOKE EXECUTE ON FUNCTION public.get_role_from_password(uuid, varchar) FROM PUBLIC, anon, authenticated;
+
+-- The project a room code and password let the caller into, for the join
+-- page to show before joining. No rows when either is wrong or the project
+-- is private. is_owner is set when the caller owns the project.
+CREATE OR REPLACE FUNCTION public.get_room_access(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, project_name text, role collaborator_role, is_owner boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, p.name, access.role, p.owner_id IS NOT DISTINCT FROM auth.uid()
+  FROM public.projects p
+  CROSS JOIN LATERAL (SELECT public.get_role_from_password(p.id, _password) AS role) access
+  WHERE p.room_code = upper(_room_code)
+    AND p.is_public = true
+    AND access.role IS NOT NULL
+$$;
+
+-- Join the project of a room code with the role its password grants, keeping
+-- a higher role the caller already has. Returns the caller's role afterwards,
+-- NULL for the owner, or no rows when the room code or password is wrong.
+CREATE OR REPLACE FUNCTION public.join_project(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, role collaborator_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _access RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a project' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _access FROM public.get_room_access(_room_code, _password);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _access.is_owner THEN
+    RETURN QUERY SELECT _access.project_id, NULL::collaborator_role;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.project_collaborators AS c (project_id, user_id, role)
+  VALUES (_access.project_id, auth.uid(), _access.role)
+  ON CONFLICT ON CONSTRAINT project_collaborators_project_id_user_id_key
+  DO UPDATE SET role = GREATEST(c.role, EXCLUDED.role)
+  RETURNING c.project_id, c.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.join_project(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_project(text, text) TO authenticated;
@@ -0,0 +1,255 @@
+-- Room passwords are kept as bcrypt hashes and generated from
+-- gen_random_bytes. Wrong passwords are logged in project_join_attempts, and
+-- too many of them lock the caller or the room for a while.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.project_passwords
+ADD COLUMN view_password_hash TEXT,
+ADD COLUMN edit_password_hash TEXT,
+ADD COLUMN full_access_password_hash TEXT;
+
+UPDATE public.project_passwords SET
+  view_password_hash = extensions.crypt(view_password, extensions.gen_salt('bf')),
+  edit_password_hash = extensions.crypt(edit_password, extensions.gen_salt('bf')),
+  full_access_password_hash = extensions.crypt(full_access_password, extensions.gen_salt('bf'));
+
+ALTER TABLE public.project_passwords
+DROP COLUMN view_password,
+DROP COLUMN edit_password,
+DROP COLUMN full_access_password;
+
+-- Passwords are only written by reset_project_passwords, which hashes them
+DROP POLICY IF EXISTS "Owners can set project passwords" ON public.project_passwords;
+DROP POLICY IF EXISTS "Owners can update project passwords" ON public.project_passwords;
+
+-- Joins and wrong passwords, for lockouts and the owner's security log
+CREATE TABLE public.project_join_attempts (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  -- NULL when the room code matched no project
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL for signed-out visitors opening a link
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  room_code TEXT NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  -- Role granted by a successful join
+  role collaborator_role,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX project_join_attempts_project_id_created_at_idx
+ON public.project_join_attempts (project_id, created_at);
+
+CREATE INDEX project_join_attempts_user_id_created_at_idx
+ON public.project_join_attempts (user_id, created_at);
+
+-- Enable RLS. Attempts are only written by the join functions.
+ALTER TABLE public.project_join_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view join attempts"
+ON public.project_join_attempts FOR SELECT
+USING (public.is_project_owner(project_id, auth.uid()));
+
+-- 8 characters without look-alikes. 256 is a multiple of the 32 characters,
+-- so every character is equally likely.
+CREATE OR REPLACE FUNCTION public.generate_room_password()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', get_byte(bytes, i) % 32 + 1, 1), '')
+  FROM extensions.gen_random_bytes(8) AS bytes, generate_series(0, 7) AS i
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_role_from_password(_project_id uuid, _password varchar)
+RETURNS collaborator_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE
+      WHEN full_access_password_hash = extensions.crypt(_password, full_access_password_hash) THEN 'full_access'::collaborator_role
+      WHEN edit_password_hash = extensions.crypt(_password, edit_password_hash) THEN 'edit'::collaborator_role
+      WHEN view_password_hash = extensions.crypt(_password, view_password_hash) THEN 'view'::collaborator_role
+      ELSE NULL
+    END
+  FROM public.project_passwords
+  WHERE project_id = _project_id
+$$;
+
+-- New passwords for one role, or every role when _role is NULL. The owner
+-- sees them once, only their hashes are kept.
+CREATE OR REPLACE FUNCTION public.reset_project_passwords(_project_id uuid, _role collaborator_role DEFAULT NULL)
+RETURNS TABLE (role collaborator_role, password text)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _view TEXT := public.generate_room_password();
+  _edit TEXT := public.generate_room_password();
+  _full_access TEXT := public.generate_room_password();
+BEGIN
+  IF NOT public.is_project_owner(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the project owner can change its passwords' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.project_passwords AS p (project_id, view_password_hash, edit_password_hash, full_access_password_hash)
+  VALUES (
+    _project_id,
+    extensions.crypt(_view, extensions.gen_salt('bf')),
+    extensions.crypt(_edit, extensions.gen_salt('bf')),
+    extensions.crypt(_full_access, extensions.gen_salt('bf'))
+  )
+  ON CONFLICT (project_id) DO UPDATE SET
+    view_password_hash = CASE WHEN _role IS NULL OR _role = 'view' THEN EXCLUDED.view_password_hash ELSE p.view_password_hash END,
+    edit_password_hash = CASE WHEN _role IS NULL OR _role = 'edit' THEN EXCLUDED.edit_password_hash ELSE p.edit_password_hash END,
+    full_access_password_hash = CASE WHEN _role IS NULL OR _role = 'full_access' THEN EXCLUDED.full_access_password_hash ELSE p.full_access_password_hash END;
+
+  RETURN QUERY
+  SELECT levels.role, levels.password
+  FROM (VALUES
+    ('view'::collaborator_role, _view),
+    ('edit'::collaborator_role, _edit),
+    ('full_access'::collaborator_role, _full_access)
+  ) AS levels(role, password)
+  WHERE _role IS NULL OR levels.role = _role;
+END;
+$$;
+
+-- When _failures wrong passwords in the last hour lock out further tries:
+-- from the threshold on, 30 seconds after the latest one, doubling with each
+-- failure up to an hour.
+CREATE OR REPLACE FUNCTION public.join_locked_until(_failures integer, _threshold integer, _latest timestamptz)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _failures < _threshold THEN NULL
+    ELSE _latest + LEAST(interval '1 hour', interval '30 seconds' * power(2, LEAST(_failures - _threshold, 7)))
+  END
+$$;
+
+-- The project a room code and password let the caller into. Logs wrong
+-- passwords and refuses with PT429 (HTTP 429 through the API) while the
+-- caller, after 5 wrong passwords, or the room, after 20, is locked.
+CREATE OR REPLACE FUNCTION public.check_room_password(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, project_name text, role collaborator_role, is_owner boolean)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project public.projects%ROWTYPE;
+  _role collaborator_role;
+  _locked_until TIMESTAMPTZ;
+  _wait INTEGER;
+BEGIN
+  SELECT * INTO _project
+  FROM public.projects p
+  WHERE p.room_code = upper(_room_code) AND p.is_public = true;
+
+  -- Concurrent tries of the same caller or room wait for each other, so none
+  -- slips past a lockout. Callers are always locked before rooms.
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('join_user:' || auth.uid()::text));
+  END IF;
+  IF _project.id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('join_project:' || _project.id::text));
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    SELECT public.join_locked_until(count(*)::integer, 5, max(a.created_at)) INTO _locked_until
+    FROM public.project_join_attempts a
+    WHERE a.user_id = auth.uid() AND NOT a.succeeded AND a.created_at > now() - interval '1 hour';
+  END IF;
+  IF _project.id IS NOT NULL THEN
+    _locked_until := GREATEST(_locked_until, (
+      SELECT public.join_locked_until(count(*)::integer, 20, max(a.created_at))
+      FROM public.project_join_attempts a
+      WHERE a.project_id = _project.id AND NOT a.succeeded AND a.created_at > now() - interval '1 hour'
+    ));
+  END IF;
+  IF _locked_until > now() THEN
+    _wait := CEIL(EXTRACT(EPOCH FROM _locked_until - now()))::INTEGER;
+    RAISE EXCEPTION 'Too many wrong passwords. Try again in %.',
+      CASE WHEN _wait < 120 THEN _wait || ' seconds' ELSE CEIL(_wait / 60.0) || ' minutes' END
+      USING ERRCODE = 'PT429';
+  END IF;
+
+  IF _project.id IS NOT NULL THEN
+    _role := public.get_role_from_password(_project.id, _password);
+  END IF;
+
+  IF _role IS NULL THEN
+    -- A signed-out visitor with an unknown room code counts against no one
+    IF auth.uid() IS NOT NULL OR _project.id IS NOT NULL THEN
+      INSERT INTO public.project_join_attempts (project_id, user_id, room_code, succeeded)
+      VALUES (_project.id, auth.uid(), upper(_room_code), false);
+
+      -- The security log shows the last 30 days
+      DELETE FROM public.project_join_attempts a
+      WHERE (a.user_id = auth.uid() OR a.project_id = _project.id)
+        AND a.created_at < now() - interval '30 days';
+    END IF;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT _project.id, _project.name::text, _role, _project.owner_id IS NOT DISTINCT FROM auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_room_password(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Wrong passwords count towards lockouts, so looking up a room writes
+CREATE OR REPLACE FUNCTION public.get_room_access(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, project_name text, role collaborator_role, is_owner boolean)
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.check_room_password(_room_code, _password)
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_project(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, role collaborator_role)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _access RECORD;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a project' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _access FROM public.check_room_password(_room_code, _password);
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _access.is_owner THEN
+    RETURN QUERY SELECT _access.project_id, NULL::collaborator_role;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.project_join_attempts (project_id, user_id, room_code, succeeded, role)
+  VALUES (_access.project_id, auth.uid(), upper(_room_code), true, _access.role);
+
+  RETURN QUERY
+  INSERT INTO public.project_collaborators AS c (project_id, user_id, role)
+  VALUES (_access.project_id, auth.uid(), _access.role)
+  ON CONFLICT ON CONSTRAINT project_collaborators_project_id_user_id_key
+  DO UPDATE SET role = GREATEST(c.role, EXCLUDED.role)
+  RETURNING c.project_id, c.role;
+END;
+$$;
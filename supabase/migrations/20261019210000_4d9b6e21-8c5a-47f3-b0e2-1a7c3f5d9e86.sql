@@ -0,0 +1,195 @@
+-- Invite links, each with its own role, an optional expiry, a maximum number
+-- of uses and an optional email address it is restricted to. Unlike room
+-- passwords, an invite can be revoked on its own.
+CREATE TABLE public.project_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- SHA-256 of the token in the link, which is only shown once
+  token_hash TEXT NOT NULL UNIQUE,
+  role collaborator_role NOT NULL,
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER CHECK (max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  -- Only the account with this address may use the invite
+  email TEXT CHECK (email = lower(email)),
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX project_invites_project_id_idx ON public.project_invites (project_id);
+
+-- Enable RLS. Invites are created and used through the functions below.
+ALTER TABLE public.project_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view project invites"
+ON public.project_invites FOR SELECT
+USING (public.is_project_owner(project_id, auth.uid()));
+
+-- Revoking sets revoked_at
+CREATE POLICY "Owners can revoke project invites"
+ON public.project_invites FOR UPDATE
+USING (public.is_project_owner(project_id, auth.uid()));
+
+-- Joins through an invite show up in the security log with it
+ALTER TABLE public.project_join_attempts
+ADD COLUMN invite_id UUID REFERENCES public.project_invites(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.hash_invite_token(_token text)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(extensions.digest(_token, 'sha256'), 'hex')
+$$;
+
+-- Create an invite and return its token, which is not stored
+CREATE OR REPLACE FUNCTION public.create_project_invite(
+  _project_id uuid,
+  _role collaborator_role,
+  _expires_at timestamptz DEFAULT NULL,
+  _max_uses integer DEFAULT NULL,
+  _email text DEFAULT NULL
+)
+RETURNS TABLE (invite_id uuid, token text)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token TEXT := translate(encode(extensions.gen_random_bytes(24), 'base64'), '+/', '-_');
+BEGIN
+  IF NOT public.is_project_owner(_project_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the project owner can invite people' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.project_invites AS i (project_id, created_by, token_hash, role, expires_at, max_uses, email)
+  VALUES (
+    _project_id,
+    auth.uid(),
+    public.hash_invite_token(_token),
+    _role,
+    _expires_at,
+    _max_uses,
+    NULLIF(lower(trim(_email)), '')
+  )
+  RETURNING i.id, _token;
+END;
+$$;
+
+-- Why an invite cannot be used by the caller right now, or 'valid'. An
+-- email restriction is only checked once the caller is signed in.
+CREATE OR REPLACE FUNCTION public.get_invite_status(_invite public.project_invites)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _invite.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN _invite.expires_at <= now() THEN 'expired'
+    WHEN _invite.use_count >= _invite.max_uses THEN 'used_up'
+    WHEN _invite.email IS NOT NULL AND auth.uid() IS NOT NULL
+      AND _invite.email IS DISTINCT FROM lower(auth.jwt() ->> 'email') THEN 'wrong_email'
+    ELSE 'valid'
+  END
+$$;
+
+-- The invite behind a token, for the join page to explain before joining.
+-- No rows for an unknown token.
+CREATE OR REPLACE FUNCTION public.get_invite(_token text)
+RETURNS TABLE (
+  project_id uuid,
+  project_name text,
+  role collaborator_role,
+  status text,
+  expires_at timestamptz,
+  max_uses integer,
+  email_restricted boolean,
+  is_owner boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.project_id,
+    p.name,
+    i.role,
+    public.get_invite_status(i),
+    i.expires_at,
+    i.max_uses,
+    i.email IS NOT NULL,
+    p.owner_id IS NOT DISTINCT FROM auth.uid()
+  FROM public.project_invites i
+  JOIN public.projects p ON p.id = i.project_id
+  WHERE i.token_hash = public.hash_invite_token(_token)
+$$;
+
+-- Join the project of an invite, counting a use unless the caller already
+-- has its role. Returns the caller's role afterwards, NULL for the owner, and
+-- the invite's status, which is 'valid' when the caller joined.
+CREATE OR REPLACE FUNCTION public.accept_invite(_token text)
+RETURNS TABLE (project_id uuid, role collaborator_role, status text)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.project_invites%ROWTYPE;
+  _status TEXT;
+  _current collaborator_role;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a project' USING ERRCODE = '42501';
+  END IF;
+
+  -- Locked so concurrent joins cannot go past max_uses
+  SELECT * INTO _invite
+  FROM public.project_invites i
+  WHERE i.token_hash = public.hash_invite_token(_token)
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF public.is_project_owner(_invite.project_id, auth.uid()) THEN
+    RETURN QUERY SELECT _invite.project_id, NULL::collaborator_role, 'valid'::text;
+    RETURN;
+  END IF;
+
+  _current := public.get_collaborator_role(_invite.project_id, auth.uid());
+  IF _current >= _invite.role THEN
+    RETURN QUERY SELECT _invite.project_id, _current, 'valid'::text;
+    RETURN;
+  END IF;
+
+  _status := public.get_invite_status(_invite);
+  IF _status <> 'valid' THEN
+    RETURN QUERY SELECT _invite.project_id, _current, _status;
+    RETURN;
+  END IF;
+
+  UPDATE public.project_invites i SET use_count = i.use_count + 1 WHERE i.id = _invite.id;
+
+  INSERT INTO public.project_join_attempts (project_id, user_id, room_code, succeeded, role, invite_id)
+  SELECT _invite.project_id, auth.uid(), COALESCE(p.room_code, ''), true, _invite.role, _invite.id
+  FROM public.projects p
+  WHERE p.id = _invite.project_id;
+
+  RETURN QUERY
+  INSERT INTO public.project_collaborators AS c (project_id, user_id, role)
+  VALUES (_invite.project_id, auth.uid(), _invite.role)
+  ON CONFLICT ON CONSTRAINT project_collaborators_project_id_user_id_key
+  DO UPDATE SET role = GREATEST(c.role, EXCLUDED.role)
+  RETURNING c.project_id, c.role, 'valid'::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_invite(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_invite(text) TO authenticated;
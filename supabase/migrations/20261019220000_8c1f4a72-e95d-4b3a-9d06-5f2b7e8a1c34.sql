@@ -0,0 +1,53 @@
+-- Members of a project can see each other, with when each was last active,
+-- and the live editing channel of a project only admits people with access
+-- to it, so removed members cannot come back to it.
+ALTER TABLE public.project_collaborators
+ADD COLUMN last_active_at TIMESTAMPTZ;
+
+CREATE POLICY "Members can view fellow collaborators"
+ON public.project_collaborators FOR SELECT
+USING (public.get_collaborator_role(project_id, auth.uid()) IS NOT NULL);
+
+-- Called by the editor while a member has the project open
+CREATE OR REPLACE FUNCTION public.record_project_activity(_project_id uuid)
+RETURNS VOID
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.project_collaborators
+  SET last_active_at = now()
+  WHERE project_id = _project_id AND user_id = auth.uid()
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_project_activity(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_project_activity(uuid) TO authenticated;
+
+-- Whether the caller may use a realtime channel, code:<project id>. The
+-- topic is checked before it is cast, so other topics are simply refused.
+CREATE OR REPLACE FUNCTION public.can_use_project_channel(_topic text)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _topic !~ '^code:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN false
+    ELSE public.is_project_owner(substring(_topic FROM 6)::uuid, auth.uid())
+      OR public.get_collaborator_role(substring(_topic FROM 6)::uuid, auth.uid()) IS NOT NULL
+      OR public.is_project_public(substring(_topic FROM 6)::uuid)
+  END
+$$;
+
+-- Private channels check these on joining, for broadcast and presence alike
+CREATE POLICY "Project members can receive channel messages"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (public.can_use_project_channel(realtime.topic()));
+
+CREATE POLICY "Project members can send channel messages"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (public.can_use_project_channel(realtime.topic()));
@@ -0,0 +1,52 @@
+-- Project updates follow the collaborator roles, like project_files does.
+-- View-only collaborators change nothing, edit and full access change the
+-- code and its settings, and only the owner renames the project, changes
+-- its visibility or its room code. Passwords live in project_passwords,
+-- which only reset_project_passwords writes.
+DROP POLICY IF EXISTS "Users can update accessible projects" ON public.projects;
+
+CREATE POLICY "Users can update projects in owned or edit/full access projects"
+ON public.projects FOR UPDATE
+USING (
+  public.is_project_owner(id, auth.uid()) OR
+  public.get_collaborator_role(id, auth.uid()) IN ('edit', 'full_access')
+)
+WITH CHECK (
+  public.is_project_owner(id, auth.uid()) OR
+  public.get_collaborator_role(id, auth.uid()) IN ('edit', 'full_access')
+);
+
+-- Policies cannot tell which columns an update changes, so this trigger
+-- checks them. Updates by functions running as their owner, or by the
+-- service role, are not the client's and are let through.
+CREATE OR REPLACE FUNCTION public.check_project_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'A project''s id, owner and creation time cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF (NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.is_public IS DISTINCT FROM OLD.is_public
+    OR NEW.room_code IS DISTINCT FROM OLD.room_code)
+    AND NOT public.is_project_owner(OLD.id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the project owner can rename it, change its visibility or its room code' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_project_update
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_project_update();
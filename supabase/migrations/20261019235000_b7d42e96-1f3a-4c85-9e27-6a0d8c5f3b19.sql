@@ -0,0 +1,88 @@
+-- Membership changes reach the member from the database instead of the
+-- owner's browser, and members the owner removed stay off the project's
+-- channel even when the project is public.
+CREATE TABLE public.project_removed_members (
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  removed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+ALTER TABLE public.project_removed_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view removed members"
+ON public.project_removed_members FOR SELECT
+USING (public.is_project_owner(project_id, auth.uid()));
+
+-- Tells the project's channel about removed members and changed roles.
+-- Members leaving on their own, or with a deleted project, are not removed
+-- by the owner and are not recorded. Joining again lifts the removal.
+CREATE OR REPLACE FUNCTION public.handle_collaborator_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    DELETE FROM public.project_removed_members
+    WHERE project_id = NEW.project_id AND user_id = NEW.user_id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      PERFORM realtime.send(
+        jsonb_build_object('type', 'member_role_changed', 'userId', NEW.user_id, 'role', NEW.role),
+        'member_role_changed',
+        'code:' || NEW.project_id,
+        true
+      );
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+    AND EXISTS (SELECT 1 FROM public.projects WHERE id = OLD.project_id) THEN
+    INSERT INTO public.project_removed_members (project_id, user_id)
+    VALUES (OLD.project_id, OLD.user_id)
+    ON CONFLICT (project_id, user_id) DO UPDATE SET removed_at = now();
+
+    PERFORM realtime.send(
+      jsonb_build_object('type', 'member_removed', 'userId', OLD.user_id),
+      'member_removed',
+      'code:' || OLD.project_id,
+      true
+    );
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER on_collaborator_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.project_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_collaborator_change();
+
+-- As before, except that a public project no longer admits members its
+-- owner removed
+CREATE OR REPLACE FUNCTION public.can_use_project_channel(_topic text)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _topic !~ '^code:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN false
+    ELSE public.is_project_owner(substring(_topic FROM 6)::uuid, auth.uid())
+      OR public.get_collaborator_role(substring(_topic FROM 6)::uuid, auth.uid()) IS NOT NULL
+      OR (
+        public.is_project_public(substring(_topic FROM 6)::uuid)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.project_removed_members
+          WHERE project_id = substring(_topic FROM 6)::uuid AND user_id = auth.uid()
+        )
+      )
+  END
+$$;
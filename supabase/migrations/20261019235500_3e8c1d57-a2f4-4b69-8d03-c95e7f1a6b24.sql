@@ -0,0 +1,30 @@
+-- Anyone admitted to a project's channel could send every event on it, so
+-- view-only members and visitors of public projects could push edits into
+-- the documents of editors, who then saved them. Events that change the
+-- code or report runs are now limited to the owner and edit or full access
+-- members, like the code itself. Presence, cursors and sync requests stay
+-- open to everyone on the channel, and membership events come only from
+-- the database.
+CREATE OR REPLACE FUNCTION public.can_send_project_event(_topic text, _event text)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN NOT public.can_use_project_channel(_topic) THEN false
+    WHEN _event IN ('member_removed', 'member_role_changed') THEN false
+    WHEN _event IN ('doc_update', 'doc_sync_response', 'file_saved', 'run_started', 'run_output', 'run_finished') THEN
+      public.is_project_owner(substring(_topic FROM 6)::uuid, auth.uid())
+      OR public.get_collaborator_role(substring(_topic FROM 6)::uuid, auth.uid()) IN ('edit', 'full_access')
+    ELSE true
+  END
+$$;
+
+DROP POLICY IF EXISTS "Project members can send channel messages" ON realtime.messages;
+
+CREATE POLICY "Project members can send channel messages"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (public.can_send_project_event(realtime.topic(), realtime.messages.event));
@@ -0,0 +1,67 @@
+-- File content is written through save_file_content only, so no client can
+-- skip its version check with a plain update of project_files. The function
+-- marks its own update for the duration of the statement, and this trigger
+-- refuses content changes by clients without that mark. Renames, moves and
+-- new files are still plain writes.
+CREATE OR REPLACE FUNCTION public.check_file_content_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated')
+    OR NEW.content IS NOT DISTINCT FROM OLD.content
+    OR current_setting('codevibe.saving_file_content', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'File content can only be changed with save_file_content' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER check_project_file_content_update
+  BEFORE UPDATE ON public.project_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_file_content_update();
+
+-- As before, with the update marked as ours
+CREATE OR REPLACE FUNCTION public.save_file_content(_file_id uuid, _content text, _expected_version bigint)
+RETURNS TABLE (saved boolean, current_version bigint, current_content text)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _version bigint;
+  _current text;
+  _saved boolean;
+BEGIN
+  PERFORM set_config('codevibe.saving_file_content', 'on', true);
+  UPDATE public.project_files
+  SET content = _content
+  WHERE id = _file_id AND content_version = _expected_version
+  RETURNING content_version INTO _version;
+  _saved := FOUND;
+  PERFORM set_config('codevibe.saving_file_content', '', true);
+
+  IF _saved THEN
+    RETURN QUERY SELECT true, _version, NULL::text;
+    RETURN;
+  END IF;
+
+  SELECT content_version, content INTO _version, _current
+  FROM public.project_files
+  WHERE id = _file_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'File not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Nothing changed underneath us, so the update was rejected by RLS
+  IF _version = _expected_version THEN
+    RAISE EXCEPTION 'Not allowed to edit this file' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY SELECT false, _version, _current;
+END;
+$$;
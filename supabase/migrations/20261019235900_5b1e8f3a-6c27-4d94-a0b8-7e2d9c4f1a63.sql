@@ -0,0 +1,21 @@
+-- Looking up a room is only for signed-in users. Signed-out callers have no
+-- lockout of their own, so anyone could try passwords against a room until
+-- it locked out everyone else.
+CREATE OR REPLACE FUNCTION public.get_room_access(_room_code text, _password text)
+RETURNS TABLE (project_id uuid, project_name text, role collaborator_role, is_owner boolean)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to open a room link' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.check_room_password(_room_code, _password);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_room_access(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_room_access(text, text) TO authenticated;
@@ -0,0 +1,50 @@
+-- File content is only written through save_file_content. Run against the
+-- local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'editor@example.com');
+
+INSERT INTO public.projects (id, name, owner_id, room_code)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Files', '00000000-0000-0000-0000-000000000001', 'FILES1');
+
+INSERT INTO public.project_collaborators (project_id, user_id, role)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'edit');
+
+INSERT INTO public.project_files (id, project_id, name, path, content)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001', 'main.py', 'main.py', 'original');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT throws_ok(
+  $$ UPDATE public.project_files SET content = 'direct' WHERE id = '20000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'content cannot be written with a plain update'
+);
+SELECT lives_ok(
+  $$ UPDATE public.project_files SET name = 'app.py', path = 'app.py' WHERE id = '20000000-0000-0000-0000-000000000001' $$,
+  'files can still be renamed with a plain update'
+);
+SELECT is(
+  (SELECT saved FROM public.save_file_content('20000000-0000-0000-0000-000000000001', 'saved', 1)),
+  true,
+  'save_file_content writes the content on the expected version'
+);
+SELECT is(
+  (SELECT current_content FROM public.save_file_content('20000000-0000-0000-0000-000000000001', 'stale', 1)),
+  'saved',
+  'save_file_content refuses a stale version'
+);
+SELECT throws_ok(
+  $$ UPDATE public.project_files SET content = 'after' WHERE id = '20000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'a save does not leave plain updates allowed for the rest of the transaction'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,60 @@
+-- Invite links carry a token that only its hash is kept of. Run against the
+-- local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'first@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'second@example.com');
+
+INSERT INTO public.projects (id, name, owner_id, room_code)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Invites', '00000000-0000-0000-0000-000000000001', 'INVITE');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT is(
+  (SELECT length(set_config('test.invite_token', token, true))
+   FROM public.create_project_invite('10000000-0000-0000-0000-000000000001', 'edit', NULL, 1)),
+  32,
+  'the owner gets a URL-safe token for 24 random bytes'
+);
+
+RESET ROLE;
+SELECT is(
+  (SELECT token_hash FROM public.project_invites WHERE project_id = '10000000-0000-0000-0000-000000000001'),
+  public.hash_invite_token(current_setting('test.invite_token')),
+  'only the hash of the token is stored'
+);
+SET LOCAL ROLE authenticated;
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002", "email": "first@example.com"}';
+
+SELECT results_eq(
+  $$ SELECT role, status FROM public.get_invite(current_setting('test.invite_token')) $$,
+  $$ VALUES ('edit'::collaborator_role, 'valid'::text) $$,
+  'the token finds its invite'
+);
+SELECT is_empty(
+  $$ SELECT * FROM public.get_invite(current_setting('test.invite_token') || 'x') $$,
+  'a changed token finds nothing'
+);
+SELECT results_eq(
+  $$ SELECT role, status FROM public.accept_invite(current_setting('test.invite_token')) $$,
+  $$ VALUES ('edit'::collaborator_role, 'valid'::text) $$,
+  'accepting the invite joins with its role'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003", "email": "second@example.com"}';
+
+SELECT is(
+  (SELECT status FROM public.accept_invite(current_setting('test.invite_token'))),
+  'used_up',
+  'a single-use invite is used up after one join'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,97 @@
+-- Who may use a project's realtime channel, and send what on it. Run against the local stack
+-- with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'member@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'visitor@example.com');
+
+INSERT INTO public.projects (id, name, owner_id, is_public, room_code)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Channel', '00000000-0000-0000-0000-000000000001', true, 'CHAN01');
+
+INSERT INTO public.project_collaborators (project_id, user_id, role)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'edit');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003"}';
+
+SELECT ok(
+  public.can_use_project_channel('code:10000000-0000-0000-0000-000000000001'),
+  'a visitor may use the channel of a public project'
+);
+SELECT ok(
+  NOT public.can_use_project_channel('code:not-a-project'),
+  'other topics are refused'
+);
+SELECT ok(
+  public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'cursor_update'),
+  'a visitor may share their cursor'
+);
+SELECT ok(
+  NOT public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'doc_update'),
+  'a visitor cannot send edits'
+);
+SELECT ok(
+  NOT public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'run_output'),
+  'a visitor cannot send runs'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT ok(
+  public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'doc_update'),
+  'an editor may send edits'
+);
+SELECT ok(
+  NOT public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'member_removed'),
+  'an editor cannot send membership events'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT ok(
+  NOT public.can_send_project_event('code:10000000-0000-0000-0000-000000000001', 'member_removed'),
+  'the owner cannot send membership events either, the database does'
+);
+
+-- The owner removes the member
+
+DELETE FROM public.project_collaborators
+WHERE project_id = '10000000-0000-0000-0000-000000000001'
+  AND user_id = '00000000-0000-0000-0000-000000000002';
+
+SELECT isnt_empty(
+  $$ SELECT * FROM public.project_removed_members $$,
+  'the owner sees who was removed'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT ok(
+  NOT public.can_use_project_channel('code:10000000-0000-0000-0000-000000000001'),
+  'a removed member cannot come back to the channel of a public project'
+);
+
+RESET ROLE;
+SELECT is(
+  (SELECT count(*)::integer FROM realtime.messages
+   WHERE topic = 'code:10000000-0000-0000-0000-000000000001' AND event = 'member_removed'),
+  1,
+  'the removal is sent to the channel'
+);
+
+-- Joining again lifts the removal
+INSERT INTO public.project_collaborators (project_id, user_id, role)
+VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'view');
+
+SELECT is_empty(
+  $$ SELECT * FROM public.project_removed_members $$,
+  'joining again lifts the removal'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
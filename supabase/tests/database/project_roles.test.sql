@@ -0,0 +1,151 @@
+-- Who may change what on a project. Run against the local stack with
+-- `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(21);
+
+-- An owner, one collaborator per role and someone without access
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-000000000003', 'editor@example.com'),
+  ('00000000-0000-0000-0000-000000000004', 'full@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'outsider@example.com');
+
+INSERT INTO public.projects (id, name, owner_id, code, room_code)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Roles', '00000000-0000-0000-0000-000000000001', 'original', 'ROLES1');
+
+INSERT INTO public.project_collaborators (project_id, user_id, role) VALUES
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000002', 'view'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000003', 'edit'),
+  ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000004', 'full_access');
+
+INSERT INTO public.project_passwords (project_id, view_password_hash)
+VALUES ('10000000-0000-0000-0000-000000000001', extensions.crypt('VIEWPASS', extensions.gen_salt('bf')));
+
+-- View only: updates match no rows
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+UPDATE public.projects SET code = 'viewer', name = 'Viewer', is_public = true
+WHERE id = '10000000-0000-0000-0000-000000000001';
+
+RESET ROLE;
+SELECT is(code, 'original', 'view cannot change the code')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is(name, 'Roles', 'view cannot rename the project')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is(is_public, false, 'view cannot make the project public')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+
+-- Edit: the code and its settings, nothing the owner decides
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000003"}';
+
+SELECT lives_ok(
+  $$ UPDATE public.projects SET code = 'edited', execution_mode = 'local', runtime_versions = '{"python": "3.12.0"}'
+     WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'edit can change the code and its settings'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET name = 'Editor' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'edit cannot rename the project'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET is_public = true WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'edit cannot change the visibility'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET room_code = 'EDITOR' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'edit cannot change the room code'
+);
+SELECT is_empty(
+  $$ SELECT * FROM public.project_passwords $$,
+  'edit cannot read the passwords'
+);
+SELECT throws_ok(
+  $$ SELECT * FROM public.reset_project_passwords('10000000-0000-0000-0000-000000000001') $$,
+  '42501', NULL,
+  'edit cannot reset the passwords'
+);
+
+RESET ROLE;
+SELECT is(code, 'edited', 'the code was changed by edit')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+
+-- Full access: like edit
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000004"}';
+
+SELECT lives_ok(
+  $$ UPDATE public.projects SET language = 'python' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'full access can change the language'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET is_public = true WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'full access cannot change the visibility'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET owner_id = auth.uid() WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'full access cannot take over the project'
+);
+
+-- No access: the project is private, so nothing matches
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+UPDATE public.projects SET code = 'outsider' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+RESET ROLE;
+SELECT is(code, 'edited', 'someone without access cannot change the code')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+
+-- Owner: everything but the id, owner and creation time
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000001"}';
+
+SELECT lives_ok(
+  $$ UPDATE public.projects SET name = 'Renamed', is_public = true, room_code = 'OWNER1'
+     WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'the owner can rename the project, change its visibility and room code'
+);
+SELECT throws_ok(
+  $$ UPDATE public.projects SET owner_id = '00000000-0000-0000-0000-000000000003'
+     WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', NULL,
+  'the owner cannot hand the project over by updating it'
+);
+SELECT is(
+  (SELECT count(*)::integer FROM public.reset_project_passwords('10000000-0000-0000-0000-000000000001')),
+  3,
+  'the owner can reset the passwords'
+);
+SELECT isnt_empty(
+  $$ SELECT * FROM public.project_passwords $$,
+  'the owner can read the password hashes'
+);
+
+-- Public now, yet someone without access still changes nothing
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000005"}';
+
+UPDATE public.projects SET code = 'outsider' WHERE id = '10000000-0000-0000-0000-000000000001';
+UPDATE public.project_passwords SET view_password_hash = 'outsider';
+
+RESET ROLE;
+SELECT is(name, 'Renamed', 'the owner renamed the project')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is(code, 'edited', 'a public project cannot be changed by someone without access')
+FROM public.projects WHERE id = '10000000-0000-0000-0000-000000000001';
+SELECT is_empty(
+  $$ SELECT * FROM public.project_passwords WHERE view_password_hash = 'outsider' $$,
+  'passwords cannot be written directly'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
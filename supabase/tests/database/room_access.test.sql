@@ -0,0 +1,86 @@
+-- Room links are only looked up by signed-in users, and wrong passwords lock
+-- them out for a while. Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'owner@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'visitor@example.com');
+
+INSERT INTO public.projects (id, name, owner_id, is_public, room_code)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Room', '00000000-0000-0000-0000-000000000001', true, 'ROOM01');
+
+INSERT INTO public.project_passwords (project_id, view_password_hash, edit_password_hash, full_access_password_hash)
+VALUES (
+  '10000000-0000-0000-0000-000000000001',
+  extensions.crypt('VIEWPASS', extensions.gen_salt('bf')),
+  extensions.crypt('EDITPASS', extensions.gen_salt('bf')),
+  extensions.crypt('FULLPASS', extensions.gen_salt('bf'))
+);
+
+SELECT is(
+  public.join_locked_until(4, 5, '2026-01-01 12:00:00+00'),
+  NULL::timestamptz,
+  'fewer failures than the threshold do not lock'
+);
+SELECT is(
+  public.join_locked_until(5, 5, '2026-01-01 12:00:00+00'),
+  '2026-01-01 12:00:30+00'::timestamptz,
+  'reaching the threshold locks for 30 seconds after the latest failure'
+);
+SELECT is(
+  public.join_locked_until(7, 5, '2026-01-01 12:00:00+00'),
+  '2026-01-01 12:02:00+00'::timestamptz,
+  'each further failure doubles the lockout'
+);
+SELECT is(
+  public.join_locked_until(30, 5, '2026-01-01 12:00:00+00'),
+  '2026-01-01 13:00:00+00'::timestamptz,
+  'lockouts last at most an hour'
+);
+
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.get_room_access('ROOM01', 'VIEWPASS') $$,
+  '42501', NULL,
+  'signed-out visitors cannot look up a room'
+);
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{}';
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.get_room_access('ROOM01', 'VIEWPASS') $$,
+  '42501', NULL,
+  'a room is not looked up without a user'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-000000000002"}';
+
+SELECT is(
+  (SELECT role FROM public.get_room_access('room01', 'EDITPASS')),
+  'edit'::collaborator_role,
+  'a signed-in user learns the role a password grants'
+);
+SELECT is_empty(
+  $$ SELECT * FROM public.get_room_access('ROOM01', 'WRONG') $$,
+  'a wrong password finds no room'
+);
+
+RESET ROLE;
+INSERT INTO public.project_join_attempts (project_id, user_id, room_code, succeeded)
+SELECT NULL, '00000000-0000-0000-0000-000000000002', 'ROOM01', false
+FROM generate_series(1, 4);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.get_room_access('ROOM01', 'VIEWPASS') $$,
+  'PT429', NULL,
+  'five wrong passwords lock the caller out, even with the right one'
+);
+
+SELECT * FROM finish();
+ROLLBACK;